@@ -0,0 +1,34 @@
+// Append-only record of every command the engine runs and every command request the
+// renderer makes, one JSON object per line. Whoever owns the log file (the Electron
+// main process or the CLI) configures it once at startup; until then nothing is kept.
+const fs = require('fs');
+const path = require('path');
+
+// Past this size the log is moved to <file>.1 so it can't grow without bound
+const MAX_AUDIT_LOG_SIZE = 5 * 1024 * 1024;
+
+let auditFile = null;
+
+function configureAuditLog(file) {
+  auditFile = file;
+}
+
+function recordAudit(entry) {
+  if (!auditFile) return;
+
+  try {
+    fs.mkdirSync(path.dirname(auditFile), { recursive: true });
+    if (fs.existsSync(auditFile) && fs.statSync(auditFile).size > MAX_AUDIT_LOG_SIZE) {
+      fs.renameSync(auditFile, `${auditFile}.1`);
+    }
+    fs.appendFileSync(auditFile, `${JSON.stringify({ time: new Date().toISOString(), ...entry })}\n`, { mode: 0o600 });
+  } catch (error) {
+    // Auditing must never be the reason an installation fails
+    console.log(`Failed to write audit log: ${error.message}`);
+  }
+}
+
+module.exports = {
+  configureAuditLog,
+  recordAudit
+};
@@ -0,0 +1,151 @@
+// Offline bundles: everything needed to install and start a cluster on a machine
+// without network access. A bundle is a directory (or a .tar/.tar.gz of one) holding
+// pinned release binaries, container images and a bundle.json describing them:
+//
+// {
+//   "formatVersion": 1,
+//   "createdAt": "2026-01-01T00:00:00.000Z",
+//   "platform": "linux",
+//   "arch": "amd64",
+//   "components": {
+//     "kubectl": { "version": "1.29.3", "file": "bin/kubectl", "sha256": "..." }
+//   },
+//   "images": {
+//     "kind": { "image": "kindest/node:v1.29.2", "file": "images/kind-node.tar", "sha256": "..." },
+//     "minikube": { "kubernetesVersion": "1.29.3", "cacheDir": "minikube-cache" }
+//   }
+// }
+const crypto = require('crypto');
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+const { execFileSync } = require('child_process');
+const { ChecksumMismatchError } = require('./downloads.cjs');
+
+const BUNDLE_MANIFEST = 'bundle.json';
+const BUNDLE_FORMAT_VERSION = 1;
+
+// Image references end up in shell commands; allow only what registries allow
+const IMAGE_PATTERN = /^[\w.\-/:@]+$/;
+
+function hashFile(file) {
+  return new Promise((resolve, reject) => {
+    const hash = crypto.createHash('sha256');
+    fs.createReadStream(file)
+      .on('data', (chunk) => hash.update(chunk))
+      .on('error', reject)
+      .on('end', () => resolve(hash.digest('hex')));
+  });
+}
+
+// Archives are unpacked once into a temp directory keyed by path and mtime, so
+// reopening the same archive doesn't extract it again
+function extractArchive(archivePath) {
+  const stat = fs.statSync(archivePath);
+  const key = crypto.createHash('sha1').update(`${archivePath}:${stat.mtimeMs}`).digest('hex').slice(0, 12);
+  const directory = path.join(os.tmpdir(), `k8s-installer-bundle-${key}`);
+
+  if (!fs.existsSync(path.join(directory, BUNDLE_MANIFEST))) {
+    fs.mkdirSync(directory, { recursive: true });
+    execFileSync('tar', ['-xf', archivePath, '-C', directory]);
+  }
+  return directory;
+}
+
+// Resolves a path from bundle.json and makes sure it stays inside the bundle
+function bundlePath(bundle, relativePath) {
+  const resolved = path.resolve(bundle.root, relativePath);
+  if (!resolved.startsWith(path.resolve(bundle.root) + path.sep)) {
+    throw new Error(`Bundle path escapes the bundle directory: ${relativePath}`);
+  }
+  return resolved;
+}
+
+// Opens a bundle directory or archive and validates its manifest. Throws with a
+// message suitable for showing to the user when the bundle is unusable.
+function openBundle(location) {
+  if (!fs.existsSync(location)) {
+    throw new Error(`Offline bundle not found: ${location}`);
+  }
+
+  const root = fs.statSync(location).isDirectory() ? location : extractArchive(location);
+  const manifestPath = path.join(root, BUNDLE_MANIFEST);
+  if (!fs.existsSync(manifestPath)) {
+    throw new Error(`${location} is not an offline bundle (no ${BUNDLE_MANIFEST})`);
+  }
+
+  let manifest;
+  try {
+    manifest = JSON.parse(fs.readFileSync(manifestPath, 'utf8'));
+  } catch (error) {
+    throw new Error(`Invalid ${BUNDLE_MANIFEST}: ${error.message}`);
+  }
+
+  if (manifest.formatVersion !== BUNDLE_FORMAT_VERSION) {
+    throw new Error(`Unsupported bundle format ${manifest.formatVersion} (expected ${BUNDLE_FORMAT_VERSION})`);
+  }
+
+  const kindImage = manifest.images && manifest.images.kind;
+  if (kindImage && !IMAGE_PATTERN.test(kindImage.image)) {
+    throw new Error(`Invalid kind node image in bundle: ${kindImage.image}`);
+  }
+
+  const minikube = manifest.images && manifest.images.minikube;
+  if (minikube && !/^\d+\.\d+\.\d+$/.test(minikube.kubernetesVersion)) {
+    throw new Error(`Invalid minikube Kubernetes version in bundle: ${minikube.kubernetesVersion}`);
+  }
+
+  return {
+    path: location,
+    root,
+    manifest: {
+      components: {},
+      images: {},
+      ...manifest
+    }
+  };
+}
+
+// Checks a bundled file against the digest recorded when the bundle was built
+async function verifyBundleFile(bundle, entry) {
+  const file = bundlePath(bundle, entry.file);
+  if (!fs.existsSync(file)) {
+    throw new Error(`Bundle is missing ${entry.file}`);
+  }
+
+  const actual = await hashFile(file);
+  if (actual !== entry.sha256) {
+    throw new ChecksumMismatchError(file, entry.sha256, actual);
+  }
+  return file;
+}
+
+// What the renderer needs to show the active bundle
+function describeBundle(bundle) {
+  const { manifest } = bundle;
+  const components = {};
+  Object.entries(manifest.components).forEach(([id, entry]) => {
+    components[id] = entry.version;
+  });
+
+  return {
+    path: bundle.path,
+    createdAt: manifest.createdAt,
+    platform: manifest.platform,
+    arch: manifest.arch,
+    components,
+    kindImage: manifest.images.kind ? manifest.images.kind.image : null,
+    minikubeKubernetesVersion: manifest.images.minikube ? manifest.images.minikube.kubernetesVersion : null
+  };
+}
+
+module.exports = {
+  BUNDLE_MANIFEST,
+  BUNDLE_FORMAT_VERSION,
+  IMAGE_PATTERN,
+  hashFile,
+  bundlePath,
+  openBundle,
+  verifyBundleFile,
+  describeBundle
+};
@@ -0,0 +1,463 @@
+#!/usr/bin/env node
+// Headless installer for CI runners and remote machines. Runs the same steps as the
+// wizard (detect → prerequisites → install → cluster → verify) on the shared engine:
+//
+//   kubernetes-installer --components docker,kubectl,kind --cluster kind --yes
+//   kubernetes-installer --runtime podman --cluster minikube --yes
+//
+// Pins come from --versions (default ~/.k8s-installer/versions.json); wizard pins live
+// in electron-store, which needs Electron, so they don't apply here. --bundle installs
+// from an offline bundle instead. --dry-run and --export-script show the commands an
+// install would run without running them.
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+const readline = require('readline');
+const { Writable } = require('stream');
+const { parseArgs } = require('util');
+const {
+  COMPONENTS,
+  getComponent,
+  releaseArchitecture,
+  resolveDependency,
+  resolveInstallPlan
+} = require('./components.cjs');
+const { PINS_FILE, readPinsFile } = require('./version-pins.cjs');
+const { openBundle, describeBundle } = require('./bundle.cjs');
+const { KubernetesInstaller, runningOperations, runOperation, cancelOperation } = require('./installer.cjs');
+const { renderScript, formatDuration } = require('./plan.cjs');
+const { configureAuditLog } = require('./audit-log.cjs');
+const { LEDGER_FILE, readLedger, uninstallCommand, uninstallOrder } = require('./ledger.cjs');
+const { CONTAINER_RUNTIMES, getContainerRuntime } = require('./runtimes.cjs');
+
+const EXIT_CODES = {
+  success: 0,
+  error: 1,
+  usage: 2,
+  unsupported: 3,
+  installFailed: 4,
+  clusterFailed: 5,
+  verificationFailed: 6,
+  declined: 7,
+  elevationDenied: 8,
+  uninstallFailed: 9,
+  preflightFailed: 10,
+  cancelled: 130
+};
+
+const CLUSTER_TYPES = ['kind', 'minikube', 'k3d', 'k3s', 'none'];
+
+const USAGE = `Usage: kubernetes-installer [options]
+
+Options:
+  --components <ids>   Comma-separated components (${COMPONENTS.map(c => c.id).join(', ')}).
+                       Defaults to the required components plus the cluster tool;
+                       dependencies are added automatically.
+  --cluster <type>     Cluster to create: ${CLUSTER_TYPES.join(', ')} (default: none)
+  --runtime <id>       Container runtime for cluster nodes: ${Object.keys(CONTAINER_RUNTIMES).join(', ')}.
+                       Defaults to a selected or installed one, otherwise docker.
+  --versions <file>    Version pins file (default: ${PINS_FILE})
+  --bundle <path>      Install from an offline bundle directory or archive
+  --dry-run            Print the commands an install would run, then exit
+  --export-script <file>
+                       Write those commands to a script, then exit
+  --skip-preflight     Don't run the host preflight checks before installing
+  --uninstall          Remove the clusters and components recorded in
+                       ${LEDGER_FILE}, then exit
+  --yes, -y            Don't ask for confirmation
+  --verbose            Print every command the engine runs
+  --help, -h           Show this help
+
+Exit codes:
+  0 success, 1 unexpected error, 2 usage error, 3 component unsupported on this host,
+  4 install failed, 5 cluster start failed, 6 verification failed,
+  7 declined at the prompt, 8 administrator privileges not granted, 9 uninstall failed,
+  10 a blocking preflight check failed, 130 interrupted`;
+
+const CHECK_MARKS = { pass: '✓', warn: '!', fail: '✗', skip: '-' };
+
+class UsageError extends Error {}
+
+function print(message = '') {
+  process.stdout.write(`${message}\n`);
+}
+
+function printError(message) {
+  process.stderr.write(`${message}\n`);
+}
+
+function parseOptions(argv) {
+  let values;
+  try {
+    ({ values } = parseArgs({
+      args: argv,
+      options: {
+        components: { type: 'string' },
+        cluster: { type: 'string', default: 'none' },
+        runtime: { type: 'string' },
+        versions: { type: 'string' },
+        bundle: { type: 'string' },
+        'dry-run': { type: 'boolean', default: false },
+        'export-script': { type: 'string' },
+        'skip-preflight': { type: 'boolean', default: false },
+        uninstall: { type: 'boolean', default: false },
+        yes: { type: 'boolean', short: 'y', default: false },
+        verbose: { type: 'boolean', default: false },
+        help: { type: 'boolean', short: 'h', default: false }
+      }
+    }));
+  } catch (error) {
+    throw new UsageError(error.message);
+  }
+
+  if (!CLUSTER_TYPES.includes(values.cluster)) {
+    throw new UsageError(`Unknown cluster type: ${values.cluster}`);
+  }
+  if (values.runtime && !getContainerRuntime(values.runtime)) {
+    throw new UsageError(`Unknown container runtime: ${values.runtime}`);
+  }
+
+  const componentIds = values.components
+    ? values.components.split(',').map(id => id.trim()).filter(Boolean)
+    : COMPONENTS.filter(component => component.required).map(component => component.id);
+
+  const unknown = componentIds.filter(id => !getComponent(id));
+  if (unknown.length > 0) {
+    throw new UsageError(`Unknown component: ${unknown.join(', ')}`);
+  }
+
+  // The cluster can't start without its tool, so asking for one implies the other
+  if (values.cluster !== 'none' && !componentIds.includes(values.cluster)) {
+    componentIds.push(values.cluster);
+  }
+  if (values.runtime && !componentIds.includes(values.runtime)) {
+    componentIds.push(values.runtime);
+  }
+
+  return { ...values, componentIds };
+}
+
+function loadBundle(location) {
+  const bundle = openBundle(location);
+  const hostArch = releaseArchitecture(os.arch());
+  if (bundle.manifest.platform !== os.platform() || bundle.manifest.arch !== hostArch) {
+    throw new UsageError(
+      `Bundle was built for ${bundle.manifest.platform}/${bundle.manifest.arch}, this machine is ${os.platform()}/${hostArch}`
+    );
+  }
+  return bundle;
+}
+
+function printPlan(plan) {
+  print(`Plan (estimated ${formatDuration(plan.estimatedSeconds)}):`);
+  if (plan.steps.length === 0) print('  Nothing to run.');
+
+  plan.steps.forEach((step, index) => {
+    print(`  ${index + 1}. ${step.title}${step.elevated ? ' (requires elevation)' : ''}`);
+    if (!step.command) {
+      print(`     Skipped: ${step.error}`);
+      return;
+    }
+    step.command.split('\n').forEach(line => print(`     ${line}`));
+  });
+}
+
+function confirm(question) {
+  const prompt = readline.createInterface({ input: process.stdin, output: process.stdout });
+  return new Promise((resolve) => {
+    prompt.question(`${question} [y/N] `, (answer) => {
+      prompt.close();
+      resolve(/^y(es)?$/i.test(answer.trim()));
+    });
+  });
+}
+
+// Reads the sudo password without echoing it. Null when the user presses Ctrl+C or
+// Ctrl+D instead.
+function askPassword({ error }) {
+  if (error) printError(`  ${error}`);
+  process.stdout.write('  Administrator password (sudo): ');
+
+  const muted = new Writable({ write: (chunk, encoding, callback) => callback() });
+  const prompt = readline.createInterface({ input: process.stdin, output: muted, terminal: true });
+  return new Promise((resolve) => {
+    prompt.on('SIGINT', () => prompt.close());
+    prompt.on('close', () => {
+      print();
+      resolve(null);
+    });
+    prompt.question('', (answer) => {
+      resolve(answer);
+      prompt.close();
+    });
+  });
+}
+
+// Runs one engine call as an operation so Ctrl+C can cancel it, streaming its
+// output with the component as prefix
+async function runStep(key, label, task) {
+  const operationId = `${key}-${Date.now()}`;
+  return await runOperation(operationId, label, async (operation) => task(operation, ({ stream, line }) => {
+    (stream === 'stderr' ? printError : print)(`    [${key}] ${line}`);
+  }));
+}
+
+// Preflight and verification results share a shape
+function printCheckResults(results) {
+  results.forEach((result) => {
+    const seconds = (result.durationMs / 1000).toFixed(1);
+    const blocking = result.blocking ? ' [blocking]' : '';
+    print(`  ${CHECK_MARKS[result.status]} ${result.title} (${seconds}s)${blocking}: ${result.evidence}`);
+    if (result.remediation && result.status !== 'pass') print(`      ${result.remediation}`);
+  });
+}
+
+function reportFailure(result) {
+  printError(`  ✗ ${result.message}`);
+  if (result.error) printError(`    ${result.error.trim()}`);
+  if (result.elevationDenied) {
+    printError('    Run from a terminal to enter the sudo password, configure passwordless sudo, or run as root.');
+  }
+}
+
+// Removes everything in the ledger: clusters first, then components newest first.
+// Stops at the first failure so nothing a remaining entry depends on goes missing.
+async function uninstall(options, requestPassword) {
+  const entries = uninstallOrder(readLedger());
+  if (entries.length === 0) {
+    print(`Nothing recorded in ${LEDGER_FILE}.`);
+    return EXIT_CODES.success;
+  }
+
+  print('Recorded by the installer:');
+  entries.forEach((entry) => {
+    const { command, error } = uninstallCommand(entry);
+    print(`  • ${entry.name}${entry.version ? ` ${entry.version}` : ''}: ${command || error}`);
+  });
+
+  // Entries the ledger can't build a command for are left for the user to remove by hand
+  const removable = entries.filter(entry => uninstallCommand(entry).command);
+  if (removable.length === 0) {
+    print('None of these can be removed automatically.');
+    return EXIT_CODES.uninstallFailed;
+  }
+
+  if (!options.yes) {
+    if (!process.stdin.isTTY) {
+      throw new UsageError('Refusing to uninstall without a terminal to confirm; pass --yes');
+    }
+    if (!(await confirm(`Remove ${removable.length === 1 ? 'it' : `${removable.length} entries`}?`))) {
+      print('Nothing removed.');
+      return EXIT_CODES.declined;
+    }
+  }
+
+  for (const entry of removable) {
+    print(`Removing ${entry.name}...`);
+    const result = await runStep(entry.id, `${entry.name} removal`, (operation, onOutput) => (
+      new KubernetesInstaller({ onOutput, operation, requestPassword }).uninstallEntry(entry.id)
+    ));
+
+    if (result.cancelled) return EXIT_CODES.cancelled;
+    if (!result.success) {
+      reportFailure(result);
+      return result.elevationDenied ? EXIT_CODES.elevationDenied : EXIT_CODES.uninstallFailed;
+    }
+    print(`  ✓ ${result.message}`);
+  }
+
+  print('Done.');
+  return EXIT_CODES.success;
+}
+
+async function run(argv) {
+  const options = parseOptions(argv);
+  if (options.help) {
+    print(USAGE);
+    return EXIT_CODES.success;
+  }
+
+  // The engine logs every command for the Electron console; keep that out of the
+  // progress output unless asked for
+  if (!options.verbose) console.log = () => {};
+  configureAuditLog(path.join(path.dirname(PINS_FILE), 'audit.log'));
+  // sudo can only be given a password when there's someone at a terminal to type it
+  const requestPassword = process.stdin.isTTY ? askPassword : null;
+
+  if (options.uninstall) return await uninstall(options, requestPassword);
+
+  const bundle = options.bundle ? loadBundle(options.bundle) : null;
+  const versionPins = bundle ? describeBundle(bundle).components : readPinsFile(options.versions || PINS_FILE);
+
+  print('Detecting system...');
+  const installer = new KubernetesInstaller({ bundle });
+  print(`  ${installer.platform}/${installer.architecture}, package manager: ${installer.packageManager}`);
+  if (installer.distro) {
+    const family = installer.distro.family ? `${installer.distro.family} family` : 'unrecognized family';
+    print(`  ${installer.distro.name} (${installer.distro.id} ${installer.distro.version || 'rolling'}, ${family})`);
+  }
+  if (bundle) print(`  Offline bundle: ${bundle.path}`);
+
+  print('Checking prerequisites...');
+  const checks = await installer.checkPrerequisites(versionPins);
+  const installedIds = Object.keys(checks).filter(id => checks[id].installed);
+  const resolved = resolveInstallPlan(options.componentIds, installedIds);
+  const plan = [];
+  const unsupported = [];
+  // The same choice resolveInstallPlan made for the cluster tools' dependency
+  const runtime = getContainerRuntime(
+    options.runtime || resolveDependency('container-runtime', options.componentIds, installedIds)
+  );
+  print(`  Container runtime: ${runtime.name}`);
+
+  resolved.forEach(({ id, neededBy }) => {
+    const check = checks[id];
+    if (!check) {
+      print(`  ✗ ${getComponent(id).name}: not available on ${installer.platform}`);
+      unsupported.push(getComponent(id).name);
+      return;
+    }
+    const pin = check.pinnedVersion ? ` (pinned ${check.pinnedVersion})` : '';
+    const reason = neededBy ? ` [needed by ${neededBy}]` : '';
+
+    if (check.installed && !check.versionMismatch) {
+      print(`  ✓ ${check.name} ${check.version}${reason}`);
+    } else if (!check.installable) {
+      print(`  ✗ ${check.name}: ${check.unsupportedReason || 'no install method on this system'}${reason}`);
+      unsupported.push(check.name);
+    } else {
+      print(`  • ${check.name}: ${check.installed ? `installed ${check.version}, will reinstall` : 'will install'}${pin}${reason}`);
+      plan.push(id);
+    }
+  });
+
+  if (unsupported.length > 0) {
+    printError(`Cannot install ${unsupported.join(', ')} on this system`);
+    return EXIT_CODES.unsupported;
+  }
+
+  // Planning, preflight, the cluster and verification all go through the chosen runtime
+  const engine = new KubernetesInstaller({ bundle, containerRuntime: runtime.id });
+
+  if (options['dry-run'] || options['export-script']) {
+    const installationPlan = await engine.planInstallation(resolved.map(entry => entry.id), checks, {
+      homebrew: true,
+      clusterType: options.cluster !== 'none' ? options.cluster : undefined
+    });
+
+    if (options['export-script']) {
+      fs.writeFileSync(options['export-script'], renderScript(installationPlan), { mode: 0o755 });
+      print(`Script written to ${options['export-script']}`);
+    } else {
+      printPlan(installationPlan);
+    }
+    return EXIT_CODES.success;
+  }
+
+  if (!options['skip-preflight']) {
+    print('Running preflight checks...');
+    const preflight = await engine.runPreflightChecks();
+    printCheckResults(preflight.results);
+    if (!preflight.passed) {
+      printError('A blocking preflight check failed; fix it and run again, or pass --skip-preflight');
+      return EXIT_CODES.preflightFailed;
+    }
+  }
+
+  if (plan.length > 0 && !options.yes) {
+    if (!process.stdin.isTTY) {
+      throw new UsageError('Refusing to install without a terminal to confirm; pass --yes');
+    }
+    if (!(await confirm(`Install ${plan.map(id => checks[id].name).join(', ')}?`))) {
+      print('Nothing installed.');
+      return EXIT_CODES.declined;
+    }
+  }
+
+  if (plan.length > 0 && installer.packageManager === 'homebrew') {
+    print('Installing Homebrew...');
+    const result = await runStep('homebrew', 'Homebrew installation', (operation, onOutput) => (
+      new KubernetesInstaller({ onOutput, operation, requestPassword }).installHomebrew()
+    ));
+    if (result.cancelled) return EXIT_CODES.cancelled;
+    if (!result.success) {
+      reportFailure(result);
+      return result.elevationDenied ? EXIT_CODES.elevationDenied : EXIT_CODES.installFailed;
+    }
+    print(`  ✓ ${result.message}`);
+  }
+
+  for (const id of plan) {
+    print(`Installing ${checks[id].name}...`);
+    const result = await runStep(id, `${id} installation`, (operation, onOutput) => (
+      new KubernetesInstaller({ onOutput, operation, bundle, requestPassword }).installComponent(id, {
+        version: checks[id].pinnedVersion || undefined
+      })
+    ));
+
+    if (result.cancelled) return EXIT_CODES.cancelled;
+    if (!result.success) {
+      reportFailure(result);
+      return result.elevationDenied ? EXIT_CODES.elevationDenied : EXIT_CODES.installFailed;
+    }
+    print(`  ✓ ${result.message}`);
+  }
+
+  if (options.cluster !== 'none') {
+    print(`Starting ${options.cluster} cluster...`);
+    const result = await runStep(options.cluster, `${options.cluster} cluster start`, (operation, onOutput) => (
+      new KubernetesInstaller({ onOutput, operation, bundle, requestPassword, containerRuntime: runtime.id })
+        .startCluster(options.cluster)
+    ));
+
+    if (result.cancelled) return EXIT_CODES.cancelled;
+    if (!result.success) {
+      reportFailure(result);
+      return EXIT_CODES.clusterFailed;
+    }
+    print(`  ✓ ${result.message}`);
+  }
+
+  print('Verifying installation...');
+  // Without a cluster only the local tools can be checked
+  const skip = options.cluster === 'none'
+    ? ['kubectl-version', 'nodes-ready', 'kube-system-pods', 'coredns', 'smoke-test']
+    : [];
+  if (!resolved.some(entry => entry.id === runtime.id)) skip.push('container-runtime');
+
+  const verification = await engine.verifyInstallation({ skip });
+  printCheckResults(verification.results);
+
+  if (!verification.passed) {
+    printError('Verification failed');
+    return EXIT_CODES.verificationFailed;
+  }
+
+  print('Done.');
+  return EXIT_CODES.success;
+}
+
+if (require.main === module) {
+  // First Ctrl+C cancels whatever is running and lets the step report it; a second
+  // one exits immediately
+  let interrupted = false;
+  process.on('SIGINT', () => {
+    if (interrupted) process.exit(EXIT_CODES.cancelled);
+    interrupted = true;
+    printError('\nCancelling...');
+    runningOperations.forEach((operation, operationId) => cancelOperation(operationId));
+  });
+
+  run(process.argv.slice(2))
+    .then((code) => process.exit(interrupted ? EXIT_CODES.cancelled : code))
+    .catch((error) => {
+      if (error instanceof UsageError) {
+        printError(`${error.message}\n\n${USAGE}`);
+        process.exit(EXIT_CODES.usage);
+      }
+      printError(`Unexpected error: ${error.message}`);
+      process.exit(EXIT_CODES.error);
+    });
+}
+
+module.exports = { run, EXIT_CODES };
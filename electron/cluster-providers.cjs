@@ -0,0 +1,375 @@
+// The cluster types the installer can create and manage. Like the check tables in
+// verification.cjs and preflight.cjs each provider is a plain object whose functions
+// take the KubernetesInstaller, which runs their commands; KubernetesInstaller's
+// startCluster(), planClusterStart(), listClusters() and manageCluster() dispatch
+// through this table. Each provider's ID is also the component that installs its tool.
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+const { normalizeVersion } = require('./version-pins.cjs');
+const { verifyBundleFile, bundlePath } = require('./bundle.cjs');
+const { DEFAULT_CLUSTER_NAME, validateKindConfig, renderKindConfig } = require('./kind-config.cjs');
+const { validateMinikubeOptions, withRuntimeDriver, buildMinikubeStartCommand } = require('./minikube-options.cjs');
+const { DEFAULT_K3D_CLUSTER_NAME, validateK3dOptions, buildK3dCreateCommand } = require('./k3d-options.cjs');
+const { kubeconfigPath, kindCommand, k3dCommand } = require('./runtimes.cjs');
+const { recordEntry, clusterEntry } = require('./ledger.cjs');
+const {
+  K3S_CLUSTER_NAME,
+  clusterCommand,
+  parseNames,
+  parseNodeNames,
+  nodeStatus,
+  parseMinikubeProfiles,
+  parseK3dClusters
+} = require('./clusters.cjs');
+
+/**
+ * @typedef {Object} ClusterProvider
+ * @property {string} id                Cluster type, and the component providing its tool
+ * @property {string} name
+ * @property {string[]} [platforms]     Where it runs; everywhere when omitted
+ * @property {number} estimatedSeconds  Typical time to create a cluster, shown in dry-run plans
+ * @property {function(KubernetesInstaller, Object): Promise<Object>} create
+ *   Creates a cluster from the wizard's options for this type, recording it in the
+ *   ledger when this run created it; resolves like executeCommand with a message
+ * @property {function(KubernetesInstaller, Object): {command?: string, error?: string}} plan
+ *   The script create would run, for dry runs; nothing is executed
+ * @property {function(KubernetesInstaller): Promise<Object[]>} list
+ *   Clusters of this type on the machine, as ClusterInfo's name, status and details
+ * @property {function(KubernetesInstaller, string, string, Object): Promise<{command?: string, error?: string}>} command
+ *   The command for stop, start or delete on a validated cluster name, through the
+ *   container runtime its nodes run on (see KubernetesInstaller.clusterRuntime())
+ */
+
+// The cluster's context goes into the user's kubeconfig; a tool run as root (kind on
+// nerdctl, the k3s merge under pkexec) has to make sure the directory exists first
+// and hand both back afterwards
+function kubeconfigSetup() {
+  return `mkdir -p "${path.dirname(kubeconfigPath())}" && `;
+}
+
+function kubeconfigHandback() {
+  const file = kubeconfigPath();
+  return ` && sudo chown ${process.getuid()}:${process.getgid()} "${path.dirname(file)}" "${file}"`;
+}
+
+// Puts the bundle's copy of minikube's download cache where minikube looks for it,
+// so `minikube start` finds the preload tarball and base image locally
+function restoreMinikubeCache(bundle, minikube) {
+  const minikubeHome = process.env.MINIKUBE_HOME
+    ? (path.basename(process.env.MINIKUBE_HOME) === '.minikube'
+      ? process.env.MINIKUBE_HOME
+      : path.join(process.env.MINIKUBE_HOME, '.minikube'))
+    : path.join(os.homedir(), '.minikube');
+
+  fs.cpSync(bundlePath(bundle, minikube.cacheDir), path.join(minikubeHome, 'cache'), { recursive: true });
+}
+
+// The minikube profiles on this machine, including broken ones
+async function minikubeProfiles(installer) {
+  const result = await installer.checkCommand('minikube profile list -o json');
+  if (!result.installed) return [];
+
+  try {
+    return parseMinikubeProfiles(result.version);
+  } catch (error) {
+    console.log(`Unreadable minikube profile list: ${error.message}`);
+    return [];
+  }
+}
+
+async function kindNodes(installer, name, runtime = installer.containerRuntime) {
+  const result = await installer.checkRuntimeCommand(kindCommand(runtime, `get nodes --name ${name}`), runtime);
+  return result.installed ? parseNodeNames(result.version) : [];
+}
+
+async function k3dClusters(installer) {
+  const result = await installer.checkCommand(k3dCommand(installer.containerRuntime, 'cluster list -o json'));
+  if (!result.installed) return [];
+
+  try {
+    return parseK3dClusters(result.version);
+  } catch (error) {
+    console.log(`Unreadable k3d cluster list: ${error.message}`);
+    return [];
+  }
+}
+
+// Enabling the service is what makes the k3s cluster exist; deleting disables it
+async function k3sExists(installer) {
+  return (await installer.checkCommand('systemctl is-enabled k3s')).installed;
+}
+
+// k3s writes a root-only kubeconfig whose cluster, user and context are all named
+// "default"; renamed, it goes in front of the user's so a recreated cluster's
+// credentials win over stale ones
+function k3sCreateCommand() {
+  const file = kubeconfigPath();
+  return 'sudo systemctl enable --now k3s && ' +
+    `${kubeconfigSetup()}tmp=$(mktemp -d) && ` +
+    `sudo cat /etc/rancher/k3s/k3s.yaml | sed 's/: default$/: ${K3S_CLUSTER_NAME}/' > "$tmp/k3s.yaml" && ` +
+    `KUBECONFIG="$tmp/k3s.yaml:${file}" kubectl config view --flatten > "$tmp/config" && ` +
+    `install -m 600 "$tmp/config" "${file}" && rm -rf "$tmp" && ` +
+    `kubectl config use-context ${K3S_CLUSTER_NAME} --kubeconfig "${file}"` +
+    kubeconfigHandback();
+}
+
+function created(result, message, failure) {
+  return {
+    success: result.success,
+    message: result.success ? message : failure,
+    output: result.output,
+    error: result.error
+  };
+}
+
+/** @type {ClusterProvider[]} */
+const CLUSTER_PROVIDERS = [
+  {
+    id: 'kind',
+    name: 'Kind',
+    estimatedSeconds: 120,
+    // `kindOptions` comes from the wizard's kind editor (see kind-config.cjs); with
+    // none, this creates kind's default single-node cluster named "kind"
+    create: async (installer, kindOptions = {}) => {
+      const errors = validateKindConfig(kindOptions);
+      if (errors.length > 0) {
+        return { success: false, message: 'Invalid kind configuration', error: errors.join('\n') };
+      }
+
+      const runtime = installer.containerRuntime;
+      const config = { ...kindOptions };
+      let loadImage = '';
+
+      if (installer.bundle) {
+        const kind = installer.bundle.manifest.images.kind;
+        if (!kind) {
+          return {
+            success: false,
+            message: 'The offline bundle has no kind node image',
+            error: 'Rebuild the bundle with --kind-image.'
+          };
+        }
+
+        try {
+          const file = await verifyBundleFile(installer.bundle, kind);
+          if (config.nodeImage && config.nodeImage !== kind.image) {
+            installer.emitOutput('stderr', `Ignoring node image ${config.nodeImage}; offline bundle provides ${kind.image}`);
+          }
+          installer.emitOutput('stdout', `Loading kind node image ${kind.image} from offline bundle`);
+          config.nodeImage = kind.image;
+          loadImage = `${runtime.cli} load -i "${file}" && `;
+        } catch (error) {
+          return { success: false, message: 'Bundled kind node image failed verification', error: error.message };
+        }
+      }
+
+      const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'k8s-installer-'));
+      try {
+        const configFile = path.join(directory, 'kind-config.yaml');
+        fs.writeFileSync(configFile, renderKindConfig(config));
+
+        const result = await installer.executeCommand(
+          `${loadImage}${runtime.rootful ? kubeconfigSetup() : ''}` +
+          `${kindCommand(runtime, `create cluster --config "${configFile}"`, true)}` +
+          (runtime.rootful ? kubeconfigHandback() : '')
+        );
+        const name = config.name || DEFAULT_CLUSTER_NAME;
+        if (result.success) recordEntry(clusterEntry('kind', name, runtime.id));
+        return created(result, `Kind cluster "${name}" created`, 'Failed to create Kind cluster');
+      } finally {
+        fs.rmSync(directory, { recursive: true, force: true });
+      }
+    },
+    plan: (installer, kindOptions = {}) => {
+      const errors = validateKindConfig(kindOptions);
+      if (errors.length > 0) return { error: errors.join('; ') };
+
+      const runtime = installer.containerRuntime;
+      const config = { ...kindOptions };
+      let load = '';
+      const bundled = installer.bundle && installer.bundle.manifest.images.kind;
+      if (bundled) {
+        config.nodeImage = bundled.image;
+        load = `${runtime.cli} load -i "${bundlePath(installer.bundle, bundled.file)}"\n`;
+      }
+      return {
+        command: `${load}cat > kind-config.yaml <<'EOF'\n${renderKindConfig(config)}EOF\n` +
+          `${runtime.rootful ? kubeconfigSetup() : ''}` +
+          `${kindCommand(runtime, 'create cluster --config kind-config.yaml', true)}` +
+          (runtime.rootful ? kubeconfigHandback() : '')
+      };
+    },
+    list: async (installer) => {
+      const clusters = [];
+      const kind = await installer.checkRuntimeCommand(kindCommand(installer.containerRuntime, 'get clusters'));
+      for (const name of kind.installed ? parseNames(kind.version) : []) {
+        const nodes = await kindNodes(installer, name);
+        const running = await installer.checkRuntimeCommand(
+          `${installer.containerRuntime.cli} ps --filter label=io.x-k8s.kind.cluster=${name} --format "{{.Names}}"`
+        );
+        clusters.push({
+          name,
+          status: running.installed ? nodeStatus(nodes.length, parseNodeNames(running.version).length) : 'unknown',
+          nodes: nodes.length
+        });
+      }
+      return clusters;
+    },
+    command: async (installer, action, name, runtime) => {
+      let nodes = [];
+      if (action !== 'delete') {
+        nodes = await kindNodes(installer, name, runtime);
+        if (nodes.length === 0) {
+          return { error: `${clusterEntry('kind', name).name} has no nodes to ${action}` };
+        }
+      }
+      return { command: clusterCommand('kind', action, name, nodes, runtime) };
+    }
+  },
+  {
+    id: 'minikube',
+    name: 'Minikube',
+    estimatedSeconds: 300,
+    // `minikubeOptions` comes from the wizard's minikube form (see minikube-options.cjs);
+    // options left unset fall back to minikube's own defaults
+    create: async (installer, minikubeOptions = {}) => {
+      const options = { ...withRuntimeDriver(minikubeOptions, installer.containerRuntime) };
+      const errors = validateMinikubeOptions(options, installer.platform, installer.containerRuntime);
+      if (errors.length > 0) {
+        return { success: false, message: 'Invalid minikube options', error: errors.join('\n') };
+      }
+
+      if (installer.bundle) {
+        const minikube = installer.bundle.manifest.images.minikube;
+        if (!minikube) {
+          return {
+            success: false,
+            message: 'The offline bundle has no minikube images',
+            error: 'Rebuild the bundle with --minikube-kubernetes-version.'
+          };
+        }
+
+        try {
+          restoreMinikubeCache(installer.bundle, minikube);
+        } catch (error) {
+          return { success: false, message: 'Failed to restore minikube cache from bundle', error: error.message };
+        }
+        installer.emitOutput('stdout', `Using bundled minikube assets for Kubernetes ${minikube.kubernetesVersion}`);
+        if (options.kubernetesVersion && normalizeVersion(options.kubernetesVersion) !== minikube.kubernetesVersion) {
+          installer.emitOutput('stderr', `Ignoring Kubernetes ${options.kubernetesVersion}; offline bundle provides ${minikube.kubernetesVersion}`);
+        }
+        // The bundle's cache holds the kicbase image, which only container drivers use
+        if (options.driver === 'kvm2') {
+          installer.emitOutput('stderr', 'The kvm2 driver needs the minikube ISO, which offline bundles do not include');
+        }
+        options.kubernetesVersion = minikube.kubernetesVersion;
+      }
+
+      // `minikube start` also succeeds on a profile that already exists; only a profile
+      // this run created is ours to delete later
+      const profile = options.profile || 'minikube';
+      const existed = (await minikubeProfiles(installer)).some(candidate => candidate.name === profile);
+
+      const command = buildMinikubeStartCommand(options, installer.platform);
+      const result = await installer.executeCommand(command, { timeout: 600000 });
+      if (result.success && !existed) recordEntry(clusterEntry('minikube', profile));
+      return created(result, `Minikube cluster "${profile}" started`, 'Failed to start Minikube');
+    },
+    plan: (installer, minikubeOptions = {}) => {
+      const options = { ...withRuntimeDriver(minikubeOptions, installer.containerRuntime) };
+      const errors = validateMinikubeOptions(options, installer.platform, installer.containerRuntime);
+      if (errors.length > 0) return { error: errors.join('; ') };
+
+      let restore = '';
+      const bundled = installer.bundle && installer.bundle.manifest.images.minikube;
+      if (bundled) {
+        options.kubernetesVersion = bundled.kubernetesVersion;
+        restore = `mkdir -p ~/.minikube/cache && cp -r "${bundlePath(installer.bundle, bundled.cacheDir)}/." ~/.minikube/cache\n`;
+      }
+      return { command: `${restore}${buildMinikubeStartCommand(options, installer.platform)}` };
+    },
+    list: minikubeProfiles,
+    command: async (installer, action, name) => ({ command: clusterCommand('minikube', action, name) })
+  },
+  {
+    id: 'k3d',
+    name: 'k3d',
+    estimatedSeconds: 90,
+    // `k3dOptions` comes from the wizard's k3d form (see k3d-options.cjs)
+    create: async (installer, k3dOptions = {}) => {
+      const runtime = installer.containerRuntime;
+      const errors = validateK3dOptions(k3dOptions, installer.platform, runtime);
+      if (errors.length > 0) {
+        return { success: false, message: 'Invalid k3d options', error: errors.join('\n') };
+      }
+      // k3d pulls the k3s, proxy and tools images when it creates a cluster
+      if (installer.bundle) {
+        return { success: false, message: 'Offline bundles do not include k3d images', error: 'Use kind or minikube offline.' };
+      }
+
+      const name = k3dOptions.name || DEFAULT_K3D_CLUSTER_NAME;
+      const result = await installer.executeCommand(buildK3dCreateCommand(k3dOptions, runtime), { timeout: 600000 });
+      // k3d refuses to create a cluster that already exists, so success means it's ours
+      if (result.success) recordEntry(clusterEntry('k3d', name, runtime.id));
+      return created(result, `k3d cluster "${name}" created`, 'Failed to create k3d cluster');
+    },
+    plan: (installer, k3dOptions = {}) => {
+      const errors = validateK3dOptions(k3dOptions, installer.platform, installer.containerRuntime);
+      if (errors.length > 0) return { error: errors.join('; ') };
+      if (installer.bundle) return { error: 'Offline bundles do not include k3d images' };
+      return { command: buildK3dCreateCommand(k3dOptions, installer.containerRuntime) };
+    },
+    list: k3dClusters,
+    command: async (installer, action, name, runtime) => ({
+      command: clusterCommand('k3d', action, name, [], runtime)
+    })
+  },
+  {
+    id: 'k3s',
+    name: 'k3s',
+    platforms: ['linux'],
+    estimatedSeconds: 60,
+    // k3s has nothing to configure here: there is one server per machine, started as
+    // the systemd service its install left disabled
+    create: async (installer) => {
+      if (installer.bundle) {
+        return { success: false, message: 'Offline bundles do not include k3s images', error: 'Use kind or minikube offline.' };
+      }
+
+      const existed = await k3sExists(installer);
+      const result = await installer.executeCommand(k3sCreateCommand(), { timeout: 600000 });
+      if (result.success && !existed) recordEntry(clusterEntry('k3s', K3S_CLUSTER_NAME));
+      return created(result, 'k3s cluster started', 'Failed to start k3s');
+    },
+    plan: (installer) => (installer.bundle
+      ? { error: 'Offline bundles do not include k3s images' }
+      : { command: k3sCreateCommand() }),
+    list: async (installer) => {
+      if (!(await k3sExists(installer))) return [];
+      const active = await installer.checkCommand('systemctl is-active k3s');
+      return [{ name: K3S_CLUSTER_NAME, status: active.installed ? 'running' : 'stopped', nodes: 1 }];
+    },
+    command: async (installer, action, name) => ({ command: clusterCommand('k3s', action, name) })
+  }
+];
+
+function isProviderAvailableOn(provider, platform) {
+  return !provider.platforms || provider.platforms.includes(platform);
+}
+
+function getClusterProvider(id) {
+  return CLUSTER_PROVIDERS.find(provider => provider.id === id) || null;
+}
+
+// The providers that can run on `platform`, in display order
+function clusterProviders(platform) {
+  return CLUSTER_PROVIDERS.filter(provider => isProviderAvailableOn(provider, platform));
+}
+
+module.exports = {
+  CLUSTER_PROVIDERS,
+  getClusterProvider,
+  clusterProviders,
+  isProviderAvailableOn
+};
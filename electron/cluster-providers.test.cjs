@@ -0,0 +1,46 @@
+// Stop, start and delete go through the container runtime a recorded cluster was
+// created on, whichever runtime is chosen now
+const { test } = require('node:test');
+const assert = require('node:assert/strict');
+const { scratchHome } = require('./fixtures/scratch.cjs');
+
+scratchHome();
+const { KubernetesInstaller } = require('./installer.cjs');
+const { getClusterProvider } = require('./cluster-providers.cjs');
+const { readLedger, recordEntry, clusterEntry } = require('./ledger.cjs');
+
+async function deleteCommand(clusterType, name, containerRuntime) {
+  const installer = new KubernetesInstaller({ containerRuntime });
+  const runtime = installer.clusterRuntime(clusterType, name);
+  return (await getClusterProvider(clusterType).command(installer, 'delete', name, runtime)).command;
+}
+
+test('deletes a recorded kind cluster through the runtime in its ledger entry', async () => {
+  recordEntry(clusterEntry('kind', 'on-podman', 'podman'));
+
+  assert.equal(
+    await deleteCommand('kind', 'on-podman', 'docker'),
+    'KIND_EXPERIMENTAL_PROVIDER=podman kind delete cluster --name on-podman'
+  );
+});
+
+test('treats a kind cluster recorded without a runtime as a Docker one', async () => {
+  const entry = clusterEntry('kind', 'legacy');
+  recordEntry(entry);
+  assert.equal(readLedger().find(existing => existing.id === entry.id).runtime, undefined);
+
+  assert.equal(await deleteCommand('kind', 'legacy', 'podman'), 'kind delete cluster --name legacy');
+});
+
+test('deletes a recorded k3d cluster through the runtime in its ledger entry', async () => {
+  recordEntry(clusterEntry('k3d', 'edge', 'docker'));
+
+  assert.equal(await deleteCommand('k3d', 'edge', 'podman'), 'k3d cluster delete edge');
+});
+
+test('uses the chosen runtime for clusters the installer did not create', async () => {
+  assert.equal(
+    await deleteCommand('kind', 'unrecorded', 'podman'),
+    'KIND_EXPERIMENTAL_PROVIDER=podman kind delete cluster --name unrecorded'
+  );
+});
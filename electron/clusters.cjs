@@ -0,0 +1,154 @@
+// Local clusters managed after setup: kind and k3d clusters, minikube profiles and the
+// machine's k3s server. Names come from the renderer or from tool output, so each is
+// checked before it is placed on a command line. Commands are run through the
+// providers in cluster-providers.cjs; this module only builds and parses them.
+const { kubeconfigPath, kindCommand, k3dCommand } = require('./runtimes.cjs');
+
+const CLUSTER_TYPES = ['kind', 'minikube', 'k3d', 'k3s'];
+const CLUSTER_NAME_PATTERN = /^[a-z0-9]([-a-z0-9]*[a-z0-9])?$/;
+// k3s runs one server per machine, known by this name and context
+const K3S_CLUSTER_NAME = 'k3s';
+// kind names node containers after the cluster, e.g. dev-control-plane, dev-worker2
+const NODE_NAME_PATTERN = /^[a-z0-9][-a-z0-9.]*$/;
+
+/**
+ * @typedef {Object} ClusterInfo
+ * @property {string} id                 "<type>:<name>"
+ * @property {'kind'|'minikube'|'k3d'|'k3s'} clusterType
+ * @property {string} name               Cluster or minikube profile name; always "k3s" for k3s
+ * @property {string} context            kubeconfig context the tool creates for it
+ * @property {'running'|'stopped'|'degraded'|'unknown'} status
+ * @property {string} [statusDetail]     The tool's own status text, when it has one
+ * @property {number} [nodes]
+ * @property {string} [kubernetesVersion]
+ * @property {string} [driver]           minikube only
+ * @property {boolean} current           Its context is kubectl's current context
+ * @property {boolean} recorded          The installer created it (see ledger.cjs)
+ */
+
+// Returns a list of problems, empty when `clusterType` and `name` are safe to use
+function validateCluster(clusterType, name) {
+  if (!CLUSTER_TYPES.includes(clusterType)) return [`Unknown cluster type: ${clusterType}`];
+  if (typeof name !== 'string' || !CLUSTER_NAME_PATTERN.test(name)) {
+    return [`Invalid cluster name: ${JSON.stringify(name)}`];
+  }
+  if (clusterType === 'k3s' && name !== K3S_CLUSTER_NAME) {
+    return [`The k3s cluster is always named ${K3S_CLUSTER_NAME}`];
+  }
+  return [];
+}
+
+function clusterContext(clusterType, name) {
+  return clusterType === 'kind' || clusterType === 'k3d' ? `${clusterType}-${name}` : name;
+}
+
+// Deleting the k3s cluster keeps k3s installed but drops its state, and the context
+// the provider merged into the user's kubeconfig
+function deleteK3s() {
+  const kubeconfig = `--kubeconfig "${kubeconfigPath()}"`;
+  return 'sudo systemctl disable --now k3s && ' +
+    'sudo rm -rf /var/lib/rancher/k3s /etc/rancher/k3s/k3s.yaml && ' +
+    `{ kubectl config delete-context ${K3S_CLUSTER_NAME} ${kubeconfig}; ` +
+    `kubectl config delete-cluster ${K3S_CLUSTER_NAME} ${kubeconfig}; ` +
+    `kubectl config delete-user ${K3S_CLUSTER_NAME} ${kubeconfig}; true; } > /dev/null 2>&1`;
+}
+
+// Each action for a validated cluster; kind has no stop/start of its own, so those
+// stop and start its node containers (listed with `kind get nodes`) instead, through
+// the container runtime they run on. Stopping k3s stops its pods along with the server.
+const CLUSTER_COMMANDS = {
+  kind: {
+    stop: (name, nodes, runtime) => `${runtime.cli} stop ${nodes.join(' ')}`,
+    start: (name, nodes, runtime) => `${runtime.cli} start ${nodes.join(' ')}`,
+    delete: (name, nodes, runtime) => kindCommand(runtime, `delete cluster --name ${name}`, true)
+  },
+  minikube: {
+    stop: name => `minikube stop -p ${name}`,
+    start: name => `minikube start -p ${name}`,
+    delete: name => `minikube delete -p ${name}`
+  },
+  k3d: {
+    stop: (name, nodes, runtime) => k3dCommand(runtime, `cluster stop ${name}`),
+    start: (name, nodes, runtime) => k3dCommand(runtime, `cluster start ${name}`),
+    delete: (name, nodes, runtime) => k3dCommand(runtime, `cluster delete ${name}`)
+  },
+  k3s: {
+    stop: () => 'sudo systemctl stop k3s',
+    start: () => 'sudo systemctl start k3s',
+    delete: deleteK3s
+  }
+};
+
+function clusterCommand(clusterType, action, name, nodes, runtime) {
+  return CLUSTER_COMMANDS[clusterType][action](name, nodes, runtime);
+}
+
+// Lines of command output that are valid names; anything else (notices such as
+// "No kind clusters found.") is dropped
+function parseNames(output, pattern = CLUSTER_NAME_PATTERN) {
+  return (output || '').split(/\r?\n/).map(line => line.trim()).filter(line => pattern.test(line));
+}
+
+function parseNodeNames(output) {
+  return parseNames(output, NODE_NAME_PATTERN);
+}
+
+// Status of a kind or k3d cluster from how many of its node containers are running
+function nodeStatus(nodes, running) {
+  if (nodes === 0) return 'unknown';
+  if (running === 0) return 'stopped';
+  return running === nodes ? 'running' : 'degraded';
+}
+
+// minikube reports "Running" (older releases "OK"), "Stopped", "Paused", "Starting",
+// "Degraded" or "Error"; broken profiles come back under `invalid`
+function minikubeStatus(status) {
+  if (status === 'Running' || status === 'OK') return 'running';
+  if (status === 'Stopped') return 'stopped';
+  if (status === 'Paused' || status === 'Starting' || status === 'Degraded') return 'degraded';
+  return 'unknown';
+}
+
+// `minikube profile list -o json`, as the fields ClusterInfo needs
+function parseMinikubeProfiles(output) {
+  const { valid, invalid } = JSON.parse(output);
+  const profiles = (valid || []).map(profile => {
+    const config = profile.Config || {};
+    return {
+      name: profile.Name,
+      status: minikubeStatus(profile.Status),
+      statusDetail: profile.Status,
+      nodes: Array.isArray(config.Nodes) ? config.Nodes.length : undefined,
+      kubernetesVersion: config.KubernetesConfig && config.KubernetesConfig.KubernetesVersion,
+      driver: config.Driver
+    };
+  });
+  (invalid || []).forEach(profile => {
+    profiles.push({ name: profile.Name, status: 'unknown', statusDetail: 'Invalid profile' });
+  });
+  return profiles.filter(profile => CLUSTER_NAME_PATTERN.test(profile.name || ''));
+}
+
+// `k3d cluster list -o json`, as the fields ClusterInfo needs
+function parseK3dClusters(output) {
+  return JSON.parse(output)
+    .filter(cluster => CLUSTER_NAME_PATTERN.test(cluster.name || ''))
+    .map((cluster) => {
+      const nodes = (cluster.serversCount || 0) + (cluster.agentsCount || 0);
+      const running = (cluster.serversRunning || 0) + (cluster.agentsRunning || 0);
+      return { name: cluster.name, status: nodeStatus(nodes, running), nodes };
+    });
+}
+
+module.exports = {
+  CLUSTER_TYPES,
+  K3S_CLUSTER_NAME,
+  validateCluster,
+  clusterContext,
+  clusterCommand,
+  parseNames,
+  parseNodeNames,
+  nodeStatus,
+  parseMinikubeProfiles,
+  parseK3dClusters
+};
@@ -0,0 +1,32 @@
+// The most recent commands the engine ran, with their output, kept in memory for
+// diagnostics exports. Unlike the audit log nothing here is written to disk, and it
+// is only redacted when exported (see redact.cjs).
+const MAX_COMMANDS = 200;
+// Long outputs (image pulls, package installs) keep their end, where errors are
+const MAX_OUTPUT_LENGTH = 64 * 1024;
+
+const history = [];
+
+function tail(text) {
+  if (!text || text.length <= MAX_OUTPUT_LENGTH) return text || '';
+  return `[${text.length - MAX_OUTPUT_LENGTH} characters truncated]\n${text.slice(-MAX_OUTPUT_LENGTH)}`;
+}
+
+function recordCommand(entry) {
+  history.push({
+    time: new Date().toISOString(),
+    ...entry,
+    stdout: tail(entry.stdout),
+    stderr: tail(entry.stderr)
+  });
+  if (history.length > MAX_COMMANDS) history.shift();
+}
+
+function commandHistory() {
+  return [...history];
+}
+
+module.exports = {
+  recordCommand,
+  commandHistory
+};
@@ -0,0 +1,88 @@
+// Commands the renderer may run by name. The renderer used to send raw shell strings
+// over IPC, so anything able to script the window (an XSS, a compromised dependency)
+// could run anything as the user. Now it can only pick an operation from this list
+// and fill in arguments that are validated before the command is built.
+const KUBERNETES_NAME_PATTERN = /^[a-z0-9]([-a-z0-9]*[a-z0-9])?$/;
+const COMMAND_TIMEOUT = 60000;
+
+/**
+ * @typedef {Object} RegisteredCommand
+ * @property {string} description
+ * @property {Object<string, {pattern: RegExp, optional?: boolean}>} [args]
+ * @property {function(Object<string, string>): string} build  Only called with validated args
+ */
+
+/** @type {Object<string, RegisteredCommand>} */
+const COMMANDS = {
+  'docker-info': {
+    description: 'Docker daemon status',
+    build: () => 'docker info'
+  },
+  'kubectl-client-version': {
+    description: 'kubectl client version',
+    build: () => 'kubectl version --client'
+  },
+  'kubectl-cluster-info': {
+    description: 'Cluster endpoints for the current context',
+    build: () => 'kubectl cluster-info'
+  },
+  'kubectl-current-context': {
+    description: 'Current kubectl context',
+    build: () => 'kubectl config current-context'
+  },
+  'kubectl-get-nodes': {
+    description: 'Cluster nodes',
+    build: () => 'kubectl get nodes -o wide'
+  },
+  'kubectl-get-pods': {
+    description: 'Pods in a namespace, or in all namespaces',
+    args: { namespace: { pattern: KUBERNETES_NAME_PATTERN, optional: true } },
+    build: ({ namespace }) => (namespace ? `kubectl get pods -n ${namespace}` : 'kubectl get pods -A')
+  },
+  'kind-get-clusters': {
+    description: 'Kind clusters',
+    build: () => 'kind get clusters'
+  },
+  'minikube-status': {
+    description: 'Minikube profile status',
+    args: { profile: { pattern: KUBERNETES_NAME_PATTERN, optional: true } },
+    build: ({ profile }) => (profile ? `minikube status -p ${profile}` : 'minikube status')
+  },
+  'helm-list': {
+    description: 'Helm releases in all namespaces',
+    build: () => 'helm list -A'
+  }
+};
+
+// Returns a list of problems; empty when `name` is registered and `args` fit it exactly
+function validateCommand(name, args) {
+  const command = Object.prototype.hasOwnProperty.call(COMMANDS, name) ? COMMANDS[name] : null;
+  if (!command) return [`Unknown command: ${name}`];
+  if (!args || typeof args !== 'object' || Array.isArray(args)) return ['Arguments must be an object'];
+
+  const specs = command.args || {};
+  const errors = Object.keys(args)
+    .filter(key => !Object.prototype.hasOwnProperty.call(specs, key))
+    .map(key => `Unexpected argument for ${name}: ${key}`);
+
+  Object.entries(specs).forEach(([key, spec]) => {
+    const value = args[key];
+    if (value === undefined || value === '') {
+      if (!spec.optional) errors.push(`Missing argument for ${name}: ${key}`);
+    } else if (typeof value !== 'string' || !spec.pattern.test(value)) {
+      errors.push(`Invalid ${key} for ${name}: ${JSON.stringify(value)}`);
+    }
+  });
+
+  return errors;
+}
+
+function buildCommand(name, args) {
+  return COMMANDS[name].build(args);
+}
+
+module.exports = {
+  COMMAND_TIMEOUT,
+  validateCommand,
+  buildCommand
+};
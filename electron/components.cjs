@@ -0,0 +1,705 @@
+// Declarative description of every tool the installer knows about. The generic
+// engine in KubernetesInstaller.installComponent() and checkPrerequisites() is driven
+// entirely by this list, so supporting a new tool means adding an entry here.
+
+/**
+ * A release binary fetched by the installer itself and verified against the SHA-256
+ * the project publishes next to it. URLs contain {release} ("v1.29.3" when pinned),
+ * {version} (the release without its "v"), {arch} (Go-style, e.g. "arm64") and
+ * {asset} placeholders; `command` installs the verified {file} from the temporary {dir}.
+ * @typedef {Object} DownloadStep
+ * @property {Object} download
+ * @property {string} download.url
+ * @property {string} download.checksumUrl
+ * @property {string[]} download.architectures   Release architectures that exist
+ * @property {string} [download.latestRelease]    Literal release segment for "latest"
+ * @property {string} [download.latestReleaseUrl] Text file naming the latest release
+ * @property {Object.<string, string>} [download.assetSuffixes] {asset} per architecture,
+ *                                             for file names that don't use {arch}
+ * @property {string} command
+ * @property {string[]} paths                    Files `command` creates, for uninstall
+ */
+
+/**
+ * Install steps keyed by platform, then by package manager. `default` is used when
+ * there is no entry for the detected package manager. A step is either a shell
+ * command or a DownloadStep.
+ * @typedef {Object.<string, Object.<string, (string|DownloadStep)>>} InstallCommands
+ */
+
+/**
+ * @typedef {Object} ComponentDefinition
+ * @property {string} id                      Key used over IPC and in PrerequisitesCheck
+ * @property {string} name                    Human readable name used in messages
+ * @property {boolean} required               Whether a working cluster needs it
+ * @property {string[]} [platforms]           Where it exists at all; omitted when everywhere
+ * @property {string} versionCommand          Command whose success means "installed"
+ * @property {RegExp} versionPattern          First capture group is the version number
+ * @property {InstallCommands} [install]      Omitted for check-only components
+ * @property {InstallCommands} [pinnedInstall] Same shape, with a {version} placeholder;
+ *                                            omitted when the component can't be pinned
+ * @property {number} [installTimeout]        Milliseconds, defaults to executeCommand's
+ * @property {number} [estimatedSeconds]      Typical install time, shown in dry-run plans
+ * @property {string[]} [alreadyInstalledMarkers] Extra stderr fragments meaning "nothing to do"
+ * @property {string[]} [provides]            Capabilities other components can depend on
+ * @property {string[]} [dependsOn]           Component IDs or capabilities needed first
+ * @property {Object.<string, string[]>} [packages] Package names each package manager
+ *                                            install adds, keyed like `install`'s
+ *                                            package managers; recorded for uninstall
+ * @property {string} [repository]            Vendor package repository (repositories.cjs)
+ *                                            the package manager installs need
+ * @property {Object.<string, string>} [manualInstall] Per platform, what to do instead
+ *                                            when no install step fits the package manager
+ */
+
+// Package managers print these when asked to install something that is already there
+const ALREADY_INSTALLED_MARKERS = ['already installed', 'No available upgrade'];
+
+// Node's os.arch() names mapped to the names release artifacts use
+const RELEASE_ARCHITECTURES = {
+  x64: 'amd64',
+  arm64: 'arm64',
+  arm: 'arm',
+  ia32: '386',
+  ppc64: 'ppc64le',
+  s390x: 's390x'
+};
+
+// Docker CE from download.docker.com, the same packages get.docker.com installs
+const DOCKER_ENGINE_PACKAGES = [
+  'docker-ce',
+  'docker-ce-cli',
+  'containerd.io',
+  'docker-buildx-plugin',
+  'docker-compose-plugin',
+  'docker-ce-rootless-extras'
+];
+
+// winget has no --overwrite, so --force is what makes reinstalls succeed
+const WINGET_FLAGS = '--accept-package-agreements --accept-source-agreements --silent --force';
+
+/** @type {DownloadStep} */
+const KUBECTL_DOWNLOAD = {
+  download: {
+    url: 'https://dl.k8s.io/release/{release}/bin/linux/{arch}/kubectl',
+    checksumUrl: 'https://dl.k8s.io/release/{release}/bin/linux/{arch}/kubectl.sha256',
+    architectures: ['amd64', 'arm64', 'arm', '386', 'ppc64le', 's390x'],
+    latestReleaseUrl: 'https://dl.k8s.io/release/stable.txt'
+  },
+  command: 'chmod +x "{file}" && sudo install "{file}" /usr/local/bin/kubectl',
+  paths: ['/usr/local/bin/kubectl']
+};
+
+/** @type {DownloadStep} */
+const HELM_DOWNLOAD = {
+  download: {
+    url: 'https://get.helm.sh/helm-{release}-linux-{arch}.tar.gz',
+    checksumUrl: 'https://get.helm.sh/helm-{release}-linux-{arch}.tar.gz.sha256sum',
+    architectures: ['amd64', 'arm64', 'arm', '386', 'ppc64le', 's390x'],
+    latestReleaseUrl: 'https://get.helm.sh/helm-latest-version'
+  },
+  command: 'tar -xzf "{file}" -C "{dir}" linux-{arch}/helm && sudo install "{dir}/linux-{arch}/helm" /usr/local/bin/helm',
+  paths: ['/usr/local/bin/helm']
+};
+
+/** @type {DownloadStep} */
+const MINIKUBE_DOWNLOAD = {
+  download: {
+    url: 'https://storage.googleapis.com/minikube/releases/{release}/minikube-linux-{arch}',
+    checksumUrl: 'https://storage.googleapis.com/minikube/releases/{release}/minikube-linux-{arch}.sha256',
+    architectures: ['amd64', 'arm64', 'arm', 'ppc64le', 's390x'],
+    latestRelease: 'latest'
+  },
+  command: 'chmod +x "{file}" && sudo install "{file}" /usr/local/bin/minikube',
+  paths: ['/usr/local/bin/minikube']
+};
+
+/** @type {DownloadStep} */
+const KIND_DOWNLOAD = {
+  download: {
+    url: 'https://kind.sigs.k8s.io/dl/{release}/kind-linux-{arch}',
+    checksumUrl: 'https://kind.sigs.k8s.io/dl/{release}/kind-linux-{arch}.sha256sum',
+    architectures: ['amd64', 'arm64'],
+    latestRelease: 'latest'
+  },
+  command: 'chmod +x "{file}" && sudo install "{file}" /usr/local/bin/kind',
+  paths: ['/usr/local/bin/kind']
+};
+
+// The nerdctl client only; containerd comes from the distribution's packages. nerdctl
+// publishes no latest-release marker, so unpinned installs get this release.
+/** @type {DownloadStep} */
+const NERDCTL_DOWNLOAD = {
+  download: {
+    url: 'https://github.com/containerd/nerdctl/releases/download/{release}/nerdctl-{version}-linux-{arch}.tar.gz',
+    checksumUrl: 'https://github.com/containerd/nerdctl/releases/download/{release}/SHA256SUMS',
+    architectures: ['amd64', 'arm64', 'arm', 'ppc64le', 's390x'],
+    latestRelease: 'v2.0.3'
+  },
+  command: 'tar -xzf "{file}" -C "{dir}" nerdctl && sudo install "{dir}/nerdctl" /usr/local/bin/nerdctl',
+  paths: ['/usr/local/bin/nerdctl']
+};
+
+// k3d publishes no latest-release marker either
+/** @type {DownloadStep} */
+const K3D_DOWNLOAD = {
+  download: {
+    url: 'https://github.com/k3d-io/k3d/releases/download/{release}/k3d-linux-{arch}',
+    checksumUrl: 'https://github.com/k3d-io/k3d/releases/download/{release}/checksums.txt',
+    architectures: ['amd64', 'arm64', 'arm', '386'],
+    latestRelease: 'v5.7.5'
+  },
+  command: 'chmod +x "{file}" && sudo install "{file}" /usr/local/bin/k3d',
+  paths: ['/usr/local/bin/k3d']
+};
+
+// k3s names its binaries by architecture without following {arch} (k3s, k3s-arm64,
+// k3s-armhf) and puts a "+" in its release tags. Its install script would also write
+// the systemd unit below; the server is started separately (see cluster-providers.cjs).
+// With systemd's default KillMode, stopping the service stops its pods too.
+const K3S_SERVICE = '/etc/systemd/system/k3s.service';
+const K3S_UNIT = [
+  '[Unit]',
+  'Description=Lightweight Kubernetes',
+  'Wants=network-online.target',
+  'After=network-online.target',
+  '[Service]',
+  'Type=notify',
+  'Delegate=yes',
+  'LimitNOFILE=1048576',
+  'LimitNPROC=infinity',
+  'LimitCORE=infinity',
+  'TasksMax=infinity',
+  'TimeoutStartSec=0',
+  'Restart=always',
+  'RestartSec=5s',
+  'ExecStartPre=-/sbin/modprobe br_netfilter',
+  'ExecStartPre=-/sbin/modprobe overlay',
+  'ExecStart=/usr/local/bin/k3s server',
+  '[Install]',
+  'WantedBy=multi-user.target'
+];
+
+// k3s has no latest-release marker in a form resolveRelease accepts (its tags carry a
+// +k3s suffix, URL-encoded here), so unpinned installs get this release too
+/** @type {DownloadStep} */
+const K3S_DOWNLOAD = {
+  download: {
+    url: 'https://github.com/k3s-io/k3s/releases/download/{release}/k3s{asset}',
+    checksumUrl: 'https://github.com/k3s-io/k3s/releases/download/{release}/sha256sum-{arch}.txt',
+    architectures: ['amd64', 'arm64', 'arm'],
+    assetSuffixes: { arm64: '-arm64', arm: '-armhf' },
+    latestRelease: 'v1.31.4%2Bk3s1'
+  },
+  command: 'chmod +x "{file}" && sudo install "{file}" /usr/local/bin/k3s && ' +
+    `printf '%s\\n' ${K3S_UNIT.map(line => `'${line}'`).join(' ')} | sudo tee ${K3S_SERVICE} > /dev/null && ` +
+    'sudo systemctl daemon-reload',
+  paths: ['/usr/local/bin/k3s', K3S_SERVICE]
+};
+
+/** @type {ComponentDefinition[]} */
+const COMPONENTS = [
+  {
+    id: 'docker',
+    name: 'Docker',
+    required: false,
+    versionCommand: 'docker --version',
+    versionPattern: /Docker version v?(\d+\.\d+\.\d+)/,
+    install: {
+      darwin: {
+        default: 'brew install --cask docker'
+      },
+      win32: {
+        winget: `winget install --id Docker.DockerDesktop ${WINGET_FLAGS}`,
+        default: 'choco install docker-desktop -y --force'
+      },
+      // Docker's repository covers the Debian and Red Hat families; the others
+      // package Docker themselves
+      linux: {
+        apt: `sudo apt-get update && sudo apt-get install -y ${DOCKER_ENGINE_PACKAGES.join(' ')}`,
+        dnf: `sudo dnf install -y ${DOCKER_ENGINE_PACKAGES.join(' ')} && sudo systemctl enable --now docker`,
+        yum: `sudo yum install -y ${DOCKER_ENGINE_PACKAGES.join(' ')} && sudo systemctl enable --now docker`,
+        zypper: 'sudo zypper --non-interactive install docker && sudo systemctl enable --now docker',
+        apk: 'sudo apk add docker && sudo rc-update add docker default && sudo service docker start',
+        pacman: 'sudo pacman -S --noconfirm docker && sudo systemctl enable --now docker'
+      }
+    },
+    // get.docker.com publishes no checksum, so it is never run
+    manualInstall: {
+      linux: 'Docker is only installed with apt, dnf, yum, zypper, apk or pacman. Install Docker Engine ' +
+        'with your distribution\'s package manager (see https://docs.docker.com/engine/install/), then check again.'
+    },
+    provides: ['container-runtime'],
+    repository: 'docker',
+    packages: {
+      homebrew: ['docker'],
+      winget: ['Docker.DockerDesktop'],
+      choco: ['docker-desktop'],
+      apt: DOCKER_ENGINE_PACKAGES,
+      dnf: DOCKER_ENGINE_PACKAGES,
+      yum: DOCKER_ENGINE_PACKAGES,
+      zypper: ['docker'],
+      apk: ['docker'],
+      pacman: ['docker']
+    },
+    installTimeout: 600000,
+    estimatedSeconds: 300,
+    // Homebrew refuses to overwrite an existing Docker Desktop bundle
+    alreadyInstalledMarkers: ['already an App at', '/Applications/Docker.app']
+  },
+  {
+    id: 'podman',
+    name: 'Podman',
+    required: false,
+    versionCommand: 'podman --version',
+    versionPattern: /podman(?:\.exe)? version (\d+\.\d+\.\d+)/,
+    install: {
+      // Containers run in a Linux VM on macOS and Windows; `podman machine init`
+      // creates it (on Windows from a new terminal, once PATH has podman)
+      darwin: {
+        default: 'brew install podman && podman machine init --now'
+      },
+      win32: {
+        winget: `winget install --id RedHat.Podman ${WINGET_FLAGS}`,
+        default: 'choco install podman-cli -y'
+      },
+      linux: {
+        apt: 'sudo apt-get update && sudo apt-get install -y podman',
+        dnf: 'sudo dnf install -y podman',
+        yum: 'sudo yum install -y podman',
+        zypper: 'sudo zypper --non-interactive install podman',
+        pacman: 'sudo pacman -S --noconfirm podman',
+        apk: 'sudo apk add podman'
+      }
+    },
+    provides: ['container-runtime'],
+    packages: {
+      homebrew: ['podman'],
+      winget: ['RedHat.Podman'],
+      choco: ['podman-cli'],
+      apt: ['podman'],
+      dnf: ['podman'],
+      yum: ['podman'],
+      zypper: ['podman'],
+      pacman: ['podman'],
+      apk: ['podman']
+    },
+    estimatedSeconds: 120,
+    alreadyInstalledMarkers: ['VM already exists']
+  },
+  {
+    id: 'containerd',
+    name: 'containerd',
+    required: false,
+    platforms: ['linux'],
+    versionCommand: 'containerd --version',
+    versionPattern: /containerd \S+ v?(\d+\.\d+\.\d+)/,
+    install: {
+      // With the CNI plugins nerdctl needs for container networking
+      linux: {
+        apt: 'sudo apt-get update && sudo apt-get install -y containerd containernetworking-plugins && sudo systemctl enable --now containerd',
+        dnf: 'sudo dnf install -y containerd containernetworking-plugins && sudo systemctl enable --now containerd',
+        yum: 'sudo yum install -y containerd containernetworking-plugins && sudo systemctl enable --now containerd',
+        zypper: 'sudo zypper --non-interactive install containerd cni-plugins && sudo systemctl enable --now containerd',
+        pacman: 'sudo pacman -S --noconfirm containerd cni-plugins && sudo systemctl enable --now containerd',
+        apk: 'sudo apk add containerd cni-plugins && sudo rc-update add containerd default && sudo service containerd start'
+      }
+    },
+    packages: {
+      apt: ['containerd', 'containernetworking-plugins'],
+      dnf: ['containerd', 'containernetworking-plugins'],
+      yum: ['containerd', 'containernetworking-plugins'],
+      zypper: ['containerd', 'cni-plugins'],
+      pacman: ['containerd', 'cni-plugins'],
+      apk: ['containerd', 'cni-plugins']
+    },
+    estimatedSeconds: 90
+  },
+  {
+    id: 'nerdctl',
+    name: 'nerdctl',
+    required: false,
+    platforms: ['linux'],
+    versionCommand: 'nerdctl --version',
+    versionPattern: /nerdctl version v?(\d+\.\d+\.\d+)/,
+    dependsOn: ['containerd'],
+    estimatedSeconds: 30,
+    install: {
+      linux: {
+        default: NERDCTL_DOWNLOAD
+      }
+    },
+    provides: ['container-runtime'],
+    pinnedInstall: {
+      linux: {
+        default: NERDCTL_DOWNLOAD
+      }
+    }
+  },
+  {
+    id: 'kubectl',
+    name: 'kubectl',
+    required: true,
+    versionCommand: 'kubectl version --client',
+    versionPattern: /(?:Client Version: |GitVersion:")v?(\d+\.\d+\.\d+)/,
+    estimatedSeconds: 30,
+    install: {
+      darwin: {
+        default: 'brew install kubectl'
+      },
+      win32: {
+        winget: `winget install --id Kubernetes.kubectl ${WINGET_FLAGS}`,
+        default: 'choco install kubernetes-cli -y'
+      },
+      linux: {
+        apt: 'sudo apt-get update && sudo apt-get install -y kubectl',
+        dnf: 'sudo dnf install -y kubectl',
+        yum: 'sudo yum install -y kubectl',
+        zypper: 'sudo zypper --non-interactive --gpg-auto-import-keys install kubectl',
+        pacman: 'sudo pacman -S --noconfirm kubectl',
+        default: KUBECTL_DOWNLOAD
+      }
+    },
+    // pkgs.k8s.io has one repository per minor version, chosen from the pin
+    repository: 'kubernetes',
+    packages: {
+      homebrew: ['kubectl'],
+      winget: ['Kubernetes.kubectl'],
+      choco: ['kubernetes-cli'],
+      apt: ['kubectl'],
+      dnf: ['kubectl'],
+      yum: ['kubectl'],
+      zypper: ['kubectl'],
+      pacman: ['kubectl']
+    },
+    pinnedInstall: {
+      win32: {
+        winget: `winget install --id Kubernetes.kubectl --version {version} ${WINGET_FLAGS}`,
+        default: 'choco install kubernetes-cli -y --version {version} --allow-downgrade'
+      },
+      // The repository's packages carry a revision suffix, e.g. 1.30.2-1.1
+      linux: {
+        apt: 'sudo apt-get update && sudo apt-get install -y --allow-downgrades "kubectl={version}-*"',
+        dnf: 'sudo dnf install -y kubectl-{version}',
+        yum: 'sudo yum install -y kubectl-{version}',
+        zypper: 'sudo zypper --non-interactive --gpg-auto-import-keys install --oldpackage kubectl={version}',
+        default: KUBECTL_DOWNLOAD
+      }
+    }
+  },
+  {
+    id: 'helm',
+    name: 'Helm',
+    required: false,
+    versionCommand: 'helm version',
+    versionPattern: /v(\d+\.\d+\.\d+)/,
+    dependsOn: ['kubectl'],
+    estimatedSeconds: 30,
+    install: {
+      darwin: {
+        default: 'brew install helm'
+      },
+      win32: {
+        winget: `winget install --id Helm.Helm ${WINGET_FLAGS}`,
+        default: 'choco install kubernetes-helm -y'
+      },
+      linux: {
+        apt: 'sudo apt-get update && sudo apt-get install -y helm',
+        default: HELM_DOWNLOAD
+      }
+    },
+    repository: 'helm',
+    packages: {
+      homebrew: ['helm'],
+      winget: ['Helm.Helm'],
+      choco: ['kubernetes-helm'],
+      apt: ['helm']
+    },
+    pinnedInstall: {
+      win32: {
+        winget: `winget install --id Helm.Helm --version {version} ${WINGET_FLAGS}`,
+        default: 'choco install kubernetes-helm -y --version {version} --allow-downgrade'
+      },
+      linux: {
+        default: HELM_DOWNLOAD
+      }
+    }
+  },
+  {
+    id: 'git',
+    name: 'Git',
+    required: false,
+    versionCommand: 'git --version',
+    versionPattern: /git version (\d+\.\d+\.\d+)/
+  },
+  {
+    id: 'minikube',
+    name: 'Minikube',
+    required: false,
+    versionCommand: 'minikube version',
+    versionPattern: /minikube version: v?(\d+\.\d+\.\d+)/,
+    dependsOn: ['container-runtime'],
+    estimatedSeconds: 60,
+    install: {
+      darwin: {
+        default: 'brew install minikube'
+      },
+      win32: {
+        winget: `winget install --id Kubernetes.minikube ${WINGET_FLAGS}`,
+        default: 'choco install minikube -y'
+      },
+      linux: {
+        default: MINIKUBE_DOWNLOAD
+      }
+    },
+    packages: {
+      homebrew: ['minikube'],
+      winget: ['Kubernetes.minikube'],
+      choco: ['minikube']
+    },
+    pinnedInstall: {
+      win32: {
+        winget: `winget install --id Kubernetes.minikube --version {version} ${WINGET_FLAGS}`,
+        default: 'choco install minikube -y --version {version} --allow-downgrade'
+      },
+      linux: {
+        default: MINIKUBE_DOWNLOAD
+      }
+    }
+  },
+  {
+    id: 'kind',
+    name: 'Kind',
+    required: false,
+    versionCommand: 'kind version',
+    versionPattern: /kind v?(\d+\.\d+\.\d+)/,
+    dependsOn: ['container-runtime'],
+    estimatedSeconds: 30,
+    install: {
+      darwin: {
+        default: 'brew install kind'
+      },
+      win32: {
+        winget: `winget install --id Kubernetes.Kind ${WINGET_FLAGS}`,
+        default: 'choco install kind -y'
+      },
+      linux: {
+        default: KIND_DOWNLOAD
+      }
+    },
+    packages: {
+      homebrew: ['kind'],
+      winget: ['Kubernetes.Kind'],
+      choco: ['kind']
+    },
+    pinnedInstall: {
+      win32: {
+        winget: `winget install --id Kubernetes.Kind --version {version} ${WINGET_FLAGS}`,
+        default: 'choco install kind -y --version {version} --allow-downgrade'
+      },
+      linux: {
+        default: KIND_DOWNLOAD
+      }
+    }
+  },
+  {
+    id: 'k3d',
+    name: 'k3d',
+    required: false,
+    versionCommand: 'k3d version',
+    versionPattern: /k3d version v?(\d+\.\d+\.\d+)/,
+    dependsOn: ['container-runtime'],
+    estimatedSeconds: 30,
+    install: {
+      darwin: {
+        default: 'brew install k3d'
+      },
+      win32: {
+        choco: 'choco install k3d -y'
+      },
+      linux: {
+        default: K3D_DOWNLOAD
+      }
+    },
+    packages: {
+      homebrew: ['k3d'],
+      choco: ['k3d']
+    },
+    pinnedInstall: {
+      win32: {
+        choco: 'choco install k3d -y --version {version} --allow-downgrade'
+      },
+      linux: {
+        default: K3D_DOWNLOAD
+      }
+    }
+  },
+  {
+    id: 'k3s',
+    name: 'k3s',
+    required: false,
+    platforms: ['linux'],
+    versionCommand: 'k3s --version',
+    versionPattern: /k3s version v?(\d+\.\d+\.\d+)/,
+    // Runs its own containerd; kubectl merges its kubeconfig into the user's
+    dependsOn: ['kubectl'],
+    estimatedSeconds: 90,
+    install: {
+      linux: {
+        default: K3S_DOWNLOAD
+      }
+    }
+  }
+];
+
+function getComponent(id) {
+  return COMPONENTS.find(component => component.id === id) || null;
+}
+
+// A dependency names either a component or a capability. Capabilities are satisfied
+// by a provider the user selected, then one already installed, then the first listed.
+function resolveDependency(dependency, selectedIds, installedIds) {
+  if (getComponent(dependency)) return dependency;
+
+  const providers = COMPONENTS.filter(c => (c.provides || []).includes(dependency)).map(c => c.id);
+  if (providers.length === 0) {
+    throw new Error(`No component provides ${dependency}`);
+  }
+  return providers.find(id => selectedIds.includes(id)) ||
+    providers.find(id => installedIds.includes(id)) ||
+    providers[0];
+}
+
+// Expands a selection with everything it depends on, ordered so dependencies come
+// first. Each entry says why it's there: null when the user picked it, otherwise the
+// component that needed it.
+function resolveInstallPlan(selectedIds, installedIds = []) {
+  const plan = [];
+  const visiting = new Set();
+
+  const visit = (id, neededBy) => {
+    if (plan.some(entry => entry.id === id)) return;
+    if (visiting.has(id)) {
+      throw new Error(`Dependency cycle involving ${id}`);
+    }
+
+    const component = getComponent(id);
+    if (!component) {
+      throw new Error(`Unknown component: ${id}`);
+    }
+
+    visiting.add(id);
+    (component.dependsOn || []).forEach((dependency) => {
+      visit(resolveDependency(dependency, selectedIds, installedIds), component.name);
+    });
+    visiting.delete(id);
+
+    plan.push({
+      id,
+      name: component.name,
+      neededBy: selectedIds.includes(id) ? null : neededBy
+    });
+  };
+
+  selectedIds.forEach(id => visit(id, null));
+  return plan;
+}
+
+// Picks the install step for a platform/package manager pair, or null when the
+// component has no install path there. Passing a version selects the pinned step.
+// Download steps are returned as-is; their {release} is filled in by the engine.
+function resolveInstallStep(component, platform, packageManager, version = null) {
+  const commands = version ? component.pinnedInstall : component.install;
+  const platformCommands = commands && commands[platform];
+  if (!platformCommands) return null;
+
+  const step = platformCommands[packageManager] || platformCommands.default || null;
+  return typeof step === 'string' && version ? fillTemplate(step, { version }) : step;
+}
+
+// Replaces {name} placeholders; unknown placeholders are left untouched
+function fillTemplate(template, values) {
+  return template.replace(/\{(\w+)\}/g, (match, key) => (key in values ? values[key] : match));
+}
+
+// Placeholder values for a download's URLs; `release` and `version` may be shell
+// expansions when the URLs are rendered into a script
+function downloadValues(download, release, version, arch) {
+  const asset = (download.assetSuffixes || {})[arch] || '';
+  return { release, version, arch, asset };
+}
+
+function releaseArchitecture(nodeArch) {
+  return RELEASE_ARCHITECTURES[nodeArch] || null;
+}
+
+// Explains why an install step can't run on this CPU architecture, or returns null
+// when it can. Package manager commands pick the right build themselves.
+function architectureRefusal(component, step, nodeArch) {
+  if (!step || typeof step === 'string') return null;
+
+  const architectures = step.download.architectures;
+  if (architectures.includes(releaseArchitecture(nodeArch))) return null;
+
+  return `${component.name} only publishes Linux builds for ${architectures.join(', ')}, ` +
+    `but this machine is ${nodeArch}. Install it from your distribution's packages instead.`;
+}
+
+// What the manifest says to do when there's no install step for this machine, or null
+function manualInstallReason(component, platform) {
+  return (component.manualInstall || {})[platform] || null;
+}
+
+function isAvailableOn(component, platform) {
+  return !component.platforms || component.platforms.includes(platform);
+}
+
+function isPinnable(component, platform) {
+  return !!(component.pinnedInstall && component.pinnedInstall[platform]);
+}
+
+// Pulls the bare version number out of a version command's output, falling back to
+// the trimmed output when the pattern doesn't match (e.g. an unexpected format)
+function parseVersion(component, output) {
+  const match = output.match(component.versionPattern);
+  return match ? match[1] : output.trim();
+}
+
+// What an install step leaves behind, for the uninstall ledger: files for release
+// downloads, otherwise the package manager and its packages. Null when the manifest
+// doesn't say, in which case the install isn't recorded.
+function describeInstall(component, step, packageManager) {
+  if (typeof step !== 'string') {
+    return { method: 'binary', packages: [], paths: step.paths };
+  }
+
+  const packages = (component.packages || {})[packageManager];
+  if (!packages) return null;
+  // Casks (Docker Desktop) are removed with --cask
+  const method = packageManager === 'homebrew' && step.includes('--cask') ? 'homebrew-cask' : packageManager;
+  return { method, packages, paths: [] };
+}
+
+function isAlreadyInstalled(component, errorOutput) {
+  if (!errorOutput) return false;
+  const markers = [...ALREADY_INSTALLED_MARKERS, ...(component.alreadyInstalledMarkers || [])];
+  return markers.some(marker => errorOutput.includes(marker));
+}
+
+module.exports = {
+  COMPONENTS,
+  getComponent,
+  resolveDependency,
+  resolveInstallPlan,
+  resolveInstallStep,
+  fillTemplate,
+  downloadValues,
+  releaseArchitecture,
+  architectureRefusal,
+  manualInstallReason,
+  isAvailableOn,
+  isPinnable,
+  parseVersion,
+  describeInstall,
+  isAlreadyInstalled
+};
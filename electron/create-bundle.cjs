@@ -0,0 +1,172 @@
+#!/usr/bin/env node
+// Assembles an offline bundle on a machine with network access. Copy the result to
+// the air-gapped machine and choose it under "Offline Bundle" in the installer.
+//
+//   node electron/create-bundle.cjs --output ./k8s-bundle \
+//     --components kubectl,kind,minikube,helm \
+//     --versions ./versions.json \
+//     --kind-image kindest/node:v1.29.2 \
+//     --minikube-kubernetes-version 1.29.3 \
+//     --archive
+//
+// Every binary must be pinned (--versions or ~/.k8s-installer/versions.json) so the
+// bundle is reproducible. Docker is needed to save the kind node image, and minikube
+// (on PATH) to pre-download its preload tarball and base image.
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+const { execFileSync } = require('child_process');
+const { parseArgs } = require('util');
+const {
+  getComponent,
+  resolveInstallStep,
+  fillTemplate,
+  downloadValues,
+  releaseArchitecture
+} = require('./components.cjs');
+const { verifiedDownload } = require('./downloads.cjs');
+const { BUNDLE_MANIFEST, BUNDLE_FORMAT_VERSION, IMAGE_PATTERN, hashFile } = require('./bundle.cjs');
+const { PINS_FILE, normalizeVersion } = require('./version-pins.cjs');
+
+const DEFAULT_COMPONENTS = 'kubectl,kind,minikube,helm';
+
+function readVersions(file) {
+  if (!fs.existsSync(file)) return {};
+  return JSON.parse(fs.readFileSync(file, 'utf8'));
+}
+
+async function bundleComponent(componentId, version, arch, output) {
+  const component = getComponent(componentId);
+  if (!component) {
+    throw new Error(`Unknown component: ${componentId}`);
+  }
+
+  const step = resolveInstallStep(component, 'linux', 'default', version);
+  if (!step || typeof step === 'string') {
+    throw new Error(`${component.name} has no release binary to bundle; install it from distribution media instead`);
+  }
+  if (!step.download.architectures.includes(arch)) {
+    throw new Error(`${component.name} has no ${arch} build`);
+  }
+
+  const values = downloadValues(step.download, `v${version}`, version, arch);
+  const urls = {
+    url: fillTemplate(step.download.url, values),
+    checksumUrl: fillTemplate(step.download.checksumUrl, values)
+  };
+  console.log(`Downloading ${component.name} ${version} from ${urls.url}`);
+  const { file, sha256 } = await verifiedDownload(urls, path.join(output, 'bin'));
+
+  return { version, file: path.relative(output, file), sha256 };
+}
+
+async function bundleKindImage(image, arch, output) {
+  if (!IMAGE_PATTERN.test(image)) {
+    throw new Error(`Invalid image reference: ${image}`);
+  }
+
+  const file = path.join(output, 'images', 'kind-node.tar');
+  console.log(`Saving kind node image ${image}`);
+  execFileSync('docker', ['pull', '--platform', `linux/${arch}`, image], { stdio: 'inherit' });
+  execFileSync('docker', ['save', image, '-o', file], { stdio: 'inherit' });
+
+  return { image, file: path.relative(output, file), sha256: await hashFile(file) };
+}
+
+// Lets minikube fill a scratch MINIKUBE_HOME with everything `minikube start` would
+// download (preload tarball, kicbase image, ISO), then keeps its cache directory
+function bundleMinikubeCache(kubernetesVersion, output) {
+  const minikubeHome = fs.mkdtempSync(path.join(os.tmpdir(), 'k8s-installer-minikube-'));
+  try {
+    console.log(`Downloading minikube assets for Kubernetes ${kubernetesVersion}`);
+    execFileSync('minikube', [
+      'start',
+      '--download-only',
+      '--driver=docker',
+      `--kubernetes-version=v${kubernetesVersion}`
+    ], {
+      stdio: 'inherit',
+      env: { ...process.env, MINIKUBE_HOME: path.join(minikubeHome, '.minikube') }
+    });
+
+    fs.cpSync(path.join(minikubeHome, '.minikube', 'cache'), path.join(output, 'minikube-cache'), { recursive: true });
+    return { kubernetesVersion, cacheDir: 'minikube-cache' };
+  } finally {
+    fs.rmSync(minikubeHome, { recursive: true, force: true });
+  }
+}
+
+async function createBundle(options) {
+  const output = path.resolve(options.output);
+  const arch = options.arch || releaseArchitecture(os.arch());
+  const versions = readVersions(options.versions || PINS_FILE);
+  const componentIds = (options.components || DEFAULT_COMPONENTS).split(',').map(id => id.trim()).filter(Boolean);
+
+  fs.mkdirSync(path.join(output, 'bin'), { recursive: true });
+  fs.mkdirSync(path.join(output, 'images'), { recursive: true });
+
+  const manifest = {
+    formatVersion: BUNDLE_FORMAT_VERSION,
+    createdAt: new Date().toISOString(),
+    platform: 'linux',
+    arch,
+    components: {},
+    images: {}
+  };
+
+  for (const componentId of componentIds) {
+    const version = normalizeVersion(versions[componentId]);
+    if (!version) {
+      throw new Error(`No version pinned for ${componentId}; add it to ${options.versions || PINS_FILE}`);
+    }
+    manifest.components[componentId] = await bundleComponent(componentId, version, arch, output);
+  }
+
+  if (options['kind-image']) {
+    manifest.images.kind = await bundleKindImage(options['kind-image'], arch, output);
+  }
+
+  if (options['minikube-kubernetes-version']) {
+    const kubernetesVersion = normalizeVersion(options['minikube-kubernetes-version']);
+    if (!kubernetesVersion) {
+      throw new Error(`Invalid Kubernetes version: ${options['minikube-kubernetes-version']}`);
+    }
+    manifest.images.minikube = bundleMinikubeCache(kubernetesVersion, output);
+  }
+
+  fs.writeFileSync(path.join(output, BUNDLE_MANIFEST), JSON.stringify(manifest, null, 2));
+  console.log(`Bundle written to ${output}`);
+
+  if (options.archive) {
+    const archive = `${output}.tar.gz`;
+    execFileSync('tar', ['-czf', archive, '-C', output, '.'], { stdio: 'inherit' });
+    console.log(`Archive written to ${archive}`);
+  }
+}
+
+if (require.main === module) {
+  const { values } = parseArgs({
+    options: {
+      output: { type: 'string' },
+      components: { type: 'string' },
+      versions: { type: 'string' },
+      arch: { type: 'string' },
+      'kind-image': { type: 'string' },
+      'minikube-kubernetes-version': { type: 'string' },
+      archive: { type: 'boolean' }
+    }
+  });
+
+  if (!values.output) {
+    console.error('Usage: create-bundle --output <dir> [--components kubectl,kind,minikube,helm] [--versions <file>] ' +
+      '[--arch amd64|arm64] [--kind-image <image>] [--minikube-kubernetes-version <version>] [--archive]');
+    process.exit(2);
+  }
+
+  createBundle(values).catch((error) => {
+    console.error(`Failed to create bundle: ${error.message}`);
+    process.exit(1);
+  });
+}
+
+module.exports = { createBundle };
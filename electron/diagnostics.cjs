@@ -0,0 +1,68 @@
+// Diagnostics export: one .tar.gz with everything needed to look into a failed install
+// without screenshots of the log panel. Every file goes through redact.cjs first.
+//
+//   system.json        OSInfo, package manager, installer version
+//   prerequisites.json The prerequisites check as the wizard saw it
+//   preflight.json     The last preflight report, if the checks ran
+//   installer.log      The wizard's timestamped log
+//   commands.json      Recent commands with stdout, stderr and exit code
+//   verification.json  The last verification report, if verification ran
+//   environment.json   Environment variables, with PATH split into entries
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+const { execFileSync } = require('child_process');
+const { redactText, redactValue } = require('./redact.cjs');
+
+/**
+ * @typedef {Object} DiagnosticsInput
+ * @property {Object} system           OSInfo and package manager from the renderer
+ * @property {string} appVersion
+ * @property {Object|null} prerequisites
+ * @property {string[]} logs
+ * @property {Object[]} commands       From command-history.cjs
+ * @property {Object|null} preflight
+ * @property {Object|null} verification
+ * @property {Object<string, string>} env
+ */
+
+function describeEnvironment(env) {
+  const pathValue = env.PATH || env.Path || '';
+  return {
+    ...env,
+    PATH: pathValue.split(path.delimiter).filter(Boolean)
+  };
+}
+
+// File name -> contents, all redacted
+function buildDiagnostics(input) {
+  const json = value => `${JSON.stringify(redactValue(value), null, 2)}\n`;
+
+  return {
+    'system.json': json({ generatedAt: new Date().toISOString(), appVersion: input.appVersion, ...input.system }),
+    'prerequisites.json': json(input.prerequisites),
+    'preflight.json': json(input.preflight),
+    'installer.log': `${redactText((input.logs || []).join('\n'))}\n`,
+    'commands.json': json(input.commands),
+    'verification.json': json(input.verification),
+    'environment.json': json(describeEnvironment(input.env))
+  };
+}
+
+// Archived with the system tar (bsdtar on Windows 10+ and macOS), as offline bundles are
+function writeDiagnosticsArchive(file, files) {
+  const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'k8s-installer-diagnostics-'));
+  try {
+    Object.entries(files).forEach(([name, contents]) => {
+      fs.writeFileSync(path.join(directory, name), contents, { mode: 0o600 });
+    });
+    execFileSync('tar', ['-czf', file, '-C', directory, ...Object.keys(files)]);
+  } finally {
+    fs.rmSync(directory, { recursive: true, force: true });
+  }
+}
+
+module.exports = {
+  buildDiagnostics,
+  writeDiagnosticsArchive
+};
@@ -0,0 +1,129 @@
+// Linux distribution detection from /etc/os-release, and the package manager that
+// goes with it. Install commands are keyed by package manager (see components.cjs),
+// so picking the family's package manager is what picks the distro's commands.
+const fs = require('fs');
+const path = require('path');
+
+// systemd's location first; /usr/lib/os-release is the fallback the spec defines
+const OS_RELEASE_FILES = ['/etc/os-release', '/usr/lib/os-release'];
+
+/**
+ * @typedef {Object} LinuxDistro
+ * @property {string} id                 ID, e.g. "ubuntu", "fedora", "opensuse-tumbleweed"
+ * @property {string|null} version       VERSION_ID, e.g. "22.04"; rolling releases have none
+ * @property {string[]} idLike           ID_LIKE, closest relative first
+ * @property {string|null} codename      Release codename; Ubuntu's for Ubuntu derivatives
+ * @property {string|null} family        "debian", "rhel", "suse", "arch" or "alpine"
+ * @property {string} name               PRETTY_NAME, for display
+ */
+
+// IDs that appear in ID or ID_LIKE, mapped to the family whose commands they use
+const DISTRO_FAMILIES = {
+  debian: 'debian',
+  ubuntu: 'debian',
+  rhel: 'rhel',
+  fedora: 'rhel',
+  centos: 'rhel',
+  suse: 'suse',
+  opensuse: 'suse',
+  sles: 'suse',
+  'opensuse-leap': 'suse',
+  'opensuse-tumbleweed': 'suse',
+  arch: 'arch',
+  alpine: 'alpine'
+};
+
+// Preferred first: Fedora and RHEL 8+ still ship a yum alias for dnf
+const FAMILY_PACKAGE_MANAGERS = {
+  debian: ['apt'],
+  rhel: ['dnf', 'yum'],
+  suse: ['zypper'],
+  arch: ['pacman'],
+  alpine: ['apk']
+};
+
+// Package manager ID -> the executable that proves it's there
+const PACKAGE_MANAGER_BINARIES = {
+  apt: 'apt-get',
+  dnf: 'dnf',
+  yum: 'yum',
+  zypper: 'zypper',
+  pacman: 'pacman',
+  apk: 'apk'
+};
+
+// KEY=value lines; values may be quoted, comments and blank lines are skipped
+function parseOsRelease(text) {
+  const fields = {};
+  text.split(/\r?\n/).forEach((line) => {
+    const match = /^([A-Z0-9_]+)=(.*)$/.exec(line.trim());
+    if (!match) return;
+    fields[match[1]] = match[2].trim().replace(/^(["'])(.*)\1$/, '$2').replace(/\\(["'$`\\])/g, '$1');
+  });
+  return fields;
+}
+
+function distroFamily(id, idLike) {
+  const match = [id, ...idLike].find(candidate => DISTRO_FAMILIES[candidate]);
+  return match ? DISTRO_FAMILIES[match] : null;
+}
+
+function describeDistro(fields) {
+  if (!fields.ID) return null;
+
+  const id = fields.ID.toLowerCase();
+  const idLike = (fields.ID_LIKE || '').toLowerCase().split(/\s+/).filter(Boolean);
+  return {
+    id,
+    version: fields.VERSION_ID || null,
+    idLike,
+    // Linux Mint's own VERSION_CODENAME means nothing to Ubuntu's repositories
+    codename: fields.UBUNTU_CODENAME || fields.VERSION_CODENAME || null,
+    family: distroFamily(id, idLike),
+    name: fields.PRETTY_NAME || fields.NAME || id
+  };
+}
+
+/** @returns {LinuxDistro|null} */
+function readDistro() {
+  for (const file of OS_RELEASE_FILES) {
+    try {
+      return describeDistro(parseOsRelease(fs.readFileSync(file, 'utf8')));
+    } catch (error) {
+      // Try the next location
+    }
+  }
+  return null;
+}
+
+// A PATH lookup rather than running `which`: the installer is constructed for every
+// IPC call, and this runs each time
+function findExecutable(name, env = process.env) {
+  return (env.PATH || '').split(path.delimiter).filter(Boolean).some((directory) => {
+    try {
+      fs.accessSync(path.join(directory, name), fs.constants.X_OK);
+      return true;
+    } catch (error) {
+      return false;
+    }
+  });
+}
+
+function availablePackageManagers(env = process.env) {
+  return Object.keys(PACKAGE_MANAGER_BINARIES).filter(id => findExecutable(PACKAGE_MANAGER_BINARIES[id], env));
+}
+
+// The family's own package manager when it's installed; otherwise whatever is there
+function choosePackageManager(distro, available) {
+  const preferred = (distro && FAMILY_PACKAGE_MANAGERS[distro.family]) || [];
+  return preferred.find(id => available.includes(id)) || available[0] || 'unknown';
+}
+
+module.exports = {
+  FAMILY_PACKAGE_MANAGERS,
+  parseOsRelease,
+  describeDistro,
+  readDistro,
+  availablePackageManagers,
+  choosePackageManager
+};
@@ -0,0 +1,138 @@
+// Downloads release artifacts and checks them against the SHA-256 their project
+// publishes before anything gets installed. Works over plain http too, so it can be
+// pointed at a local fixture server.
+const crypto = require('crypto');
+const fs = require('fs');
+const http = require('http');
+const https = require('https');
+const path = require('path');
+
+const MAX_REDIRECTS = 10;
+// Checksum files and version markers are tiny; anything bigger is not what we asked for
+const MAX_TEXT_BYTES = 64 * 1024;
+
+class ChecksumMismatchError extends Error {
+  constructor(url, expected, actual) {
+    super(`Checksum mismatch for ${url}: expected sha256 ${expected}, got ${actual}`);
+    this.name = 'ChecksumMismatchError';
+    this.url = url;
+    this.expected = expected;
+    this.actual = actual;
+  }
+}
+
+// Issues a GET and follows redirects, resolving with the final response. `track`
+// receives each request so callers can abort it (e.g. when an operation is cancelled).
+function request(url, track, redirects = 0) {
+  return new Promise((resolve, reject) => {
+    const client = url.startsWith('https:') ? https : http;
+    const req = client.get(url, (res) => {
+      if (res.statusCode >= 300 && res.statusCode < 400 && res.headers.location) {
+        res.resume();
+        if (redirects >= MAX_REDIRECTS) {
+          reject(new Error(`Too many redirects fetching ${url}`));
+          return;
+        }
+        const next = new URL(res.headers.location, url).toString();
+        resolve(request(next, track, redirects + 1));
+        return;
+      }
+      if (res.statusCode !== 200) {
+        res.resume();
+        reject(new Error(`GET ${url} failed with HTTP ${res.statusCode}`));
+        return;
+      }
+      resolve(res);
+    });
+    req.on('error', reject);
+    if (track) track(req);
+  });
+}
+
+async function fetchText(url, track) {
+  const res = await request(url, track);
+  return new Promise((resolve, reject) => {
+    let body = '';
+    res.setEncoding('utf8');
+    res.on('data', (chunk) => {
+      body += chunk;
+      if (body.length > MAX_TEXT_BYTES) {
+        res.destroy(new Error(`Response from ${url} is unexpectedly large`));
+      }
+    });
+    res.on('end', () => resolve(body));
+    res.on('error', reject);
+  });
+}
+
+// Streams a URL to disk, hashing as it goes. Resolves with the hex SHA-256.
+async function downloadFile(url, destination, track) {
+  const res = await request(url, track);
+  return new Promise((resolve, reject) => {
+    const hash = crypto.createHash('sha256');
+    const file = fs.createWriteStream(destination);
+    res.on('data', (chunk) => hash.update(chunk));
+    res.on('error', reject);
+    file.on('error', reject);
+    file.on('finish', () => resolve(hash.digest('hex')));
+    res.pipe(file);
+  });
+}
+
+// Accepts both a bare digest ("abc123") and sha256sum output ("abc123  file.tar.gz").
+// When the file lists several artifacts, the line naming ours wins.
+function parseChecksum(text, fileName) {
+  const entries = text
+    .split(/\r?\n/)
+    .map(line => line.trim().split(/\s+/))
+    .filter(([digest]) => /^[a-f0-9]{64}$/i.test(digest || ''));
+
+  if (entries.length === 0) return null;
+
+  // Names may be binary-mode ("*file") or carry the directory the release was built in
+  const named = entries.find(([, name]) => name && path.basename(name.replace(/^\*/, '')) === fileName);
+  return (named || entries[0])[0].toLowerCase();
+}
+
+// Downloads `url` into `directory` and verifies it against the digest published at
+// `checksumUrl`. Throws ChecksumMismatchError (after deleting the file) on mismatch.
+async function verifiedDownload({ url, checksumUrl }, directory, track) {
+  const fileName = path.basename(new URL(url).pathname);
+  const destination = path.join(directory, fileName);
+
+  const checksumText = await fetchText(checksumUrl, track);
+  const expected = parseChecksum(checksumText, fileName);
+  if (!expected) {
+    throw new Error(`No SHA-256 digest found at ${checksumUrl}`);
+  }
+
+  const actual = await downloadFile(url, destination, track);
+  if (actual !== expected) {
+    fs.rmSync(destination, { force: true });
+    throw new ChecksumMismatchError(url, expected, actual);
+  }
+
+  return { file: destination, sha256: actual };
+}
+
+// Release segment used in download URLs: the pin, a literal alias such as "latest",
+// or whatever the project's latest-release marker file currently names
+async function resolveRelease(download, version, track) {
+  if (version) return `v${version}`;
+  if (download.latestRelease) return download.latestRelease;
+
+  const release = (await fetchText(download.latestReleaseUrl, track)).trim();
+  if (!/^v\d+\.\d+\.\d+$/.test(release)) {
+    throw new Error(`Unexpected release "${release}" from ${download.latestReleaseUrl}`);
+  }
+  return release;
+}
+
+module.exports = {
+  ChecksumMismatchError,
+  fetchText,
+  resolveRelease,
+  downloadFile,
+  parseChecksum,
+  verifiedDownload
+};
@@ -0,0 +1,93 @@
+// Downloads and installs a release binary from a local fixture server, once as
+// published and once tampered with after its checksum was published
+const { test, before, after } = require('node:test');
+const assert = require('node:assert/strict');
+const crypto = require('crypto');
+const fs = require('fs');
+const http = require('http');
+const path = require('path');
+const { scratchHome } = require('./fixtures/scratch.cjs');
+
+const scratch = scratchHome();
+const { ChecksumMismatchError, verifiedDownload } = require('./downloads.cjs');
+const { KubernetesInstaller } = require('./installer.cjs');
+
+const GOOD = Buffer.from('#!/bin/sh\necho tool v1.0.0\n');
+const TAMPERED = Buffer.from('#!/bin/sh\necho something else\n');
+const DIGEST = crypto.createHash('sha256').update(GOOD).digest('hex');
+
+// Both releases publish the good binary's digest
+const FILES = {
+  '/v1.0.0/tool': GOOD,
+  '/v1.0.0/tool.sha256': `${DIGEST}  tool\n`,
+  '/v1.0.1/tool': TAMPERED,
+  '/v1.0.1/tool.sha256': `${DIGEST}  tool\n`
+};
+
+let server;
+let baseUrl;
+
+before(async () => {
+  server = http.createServer((req, res) => {
+    const body = FILES[req.url];
+    res.writeHead(body ? 200 : 404);
+    res.end(body);
+  });
+  await new Promise(resolve => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${server.address().port}`;
+});
+
+after(() => {
+  server.close();
+});
+
+function release(tag) {
+  return { url: `${baseUrl}/${tag}/tool`, checksumUrl: `${baseUrl}/${tag}/tool.sha256` };
+}
+
+test('keeps a download that matches its published checksum', async () => {
+  const directory = fs.mkdtempSync(path.join(scratch, 'good-'));
+  const { file, sha256 } = await verifiedDownload(release('v1.0.0'), directory);
+
+  assert.equal(file, path.join(directory, 'tool'));
+  assert.equal(sha256, DIGEST);
+  assert.deepEqual(fs.readFileSync(file), GOOD);
+});
+
+test('rejects a tampered download without leaving it behind', async () => {
+  const directory = fs.mkdtempSync(path.join(scratch, 'tampered-'));
+
+  await assert.rejects(verifiedDownload(release('v1.0.1'), directory), ChecksumMismatchError);
+  assert.deepEqual(fs.readdirSync(directory), []);
+});
+
+function toolStep(tag, target) {
+  return {
+    download: {
+      url: `${baseUrl}/{release}/tool`,
+      checksumUrl: `${baseUrl}/{release}/tool.sha256`,
+      architectures: ['amd64', 'arm64'],
+      latestRelease: tag
+    },
+    command: `cp "{file}" "${target}"`,
+    paths: [target]
+  };
+}
+
+test('installs a download that matches its published checksum', async () => {
+  const target = path.join(scratch, 'good-tool');
+  const result = await new KubernetesInstaller().installDownload(toolStep('v1.0.0', target));
+
+  assert.equal(result.success, true, result.error);
+  assert.deepEqual(fs.readFileSync(target), GOOD);
+});
+
+test('refuses to install a tampered download', async () => {
+  const target = path.join(scratch, 'tampered-tool');
+  const result = await new KubernetesInstaller().installDownload(toolStep('v1.0.1', target));
+
+  assert.equal(result.success, false);
+  assert.equal(result.checksumMismatch, true);
+  assert.match(result.error, /Checksum mismatch/);
+  assert.equal(fs.existsSync(target), false);
+});
@@ -0,0 +1,130 @@
+// Privilege elevation for the manifest commands that need root. Linux install steps
+// say `sudo` inline; run as-is from a GUI, sudo has no terminal to prompt on and the
+// command sits there until it times out. Instead the engine works out how this
+// machine can get root and rewrites each elevated command to match:
+//
+//   root         already root, so `sudo` is dropped (containers often have no sudo)
+//   sudo         sudo works without a password (NOPASSWD, CI runners); runs with -n
+//   password     sudo wants the user's password: the caller prompts for it, it is fed
+//                to sudo over stdin and kept in memory for the rest of the session
+//   pkexec       nobody to ask for a password, but polkit can show its own dialog
+//   unavailable  none of the above
+const { spawn, spawnSync } = require('child_process');
+
+const SUDO_PATTERN = /\bsudo\s+/;
+// What sudo and pkexec print when they refuse, as opposed to the command failing
+const DENIAL_PATTERN = new RegExp([
+  '^sudo: (a password is required|\\d+ incorrect password attempts?|a terminal is required)',
+  'is not in the sudoers file',
+  'is not allowed to execute',
+  '^Error executing command as another user: (Not authorized|Request dismissed)'
+].join('|'), 'm');
+const MAX_PASSWORD_ATTEMPTS = 3;
+
+// The password entered this session. Never written to disk, logged or put in a
+// command line or environment variable.
+let cachedPassword = null;
+
+function requiresElevation(command, platform) {
+  return platform !== 'win32' && SUDO_PATTERN.test(command);
+}
+
+function commandExists(name) {
+  return spawnSync('sh', ['-c', `command -v ${name}`], { stdio: 'ignore' }).status === 0;
+}
+
+function hasGraphicalSession() {
+  return !!(process.env.DISPLAY || process.env.WAYLAND_DISPLAY);
+}
+
+// `canPrompt` says whether the caller has a way to ask the user for a password
+function detectElevationMethod(canPrompt) {
+  if (typeof process.getuid === 'function' && process.getuid() === 0) return 'root';
+
+  const pkexec = hasGraphicalSession() && commandExists('pkexec');
+  if (!commandExists('sudo')) return pkexec ? 'pkexec' : 'unavailable';
+  if (spawnSync('sudo', ['-n', 'true'], { stdio: 'ignore' }).status === 0) return 'sudo';
+  if (canPrompt) return 'password';
+  return pkexec ? 'pkexec' : 'unavailable';
+}
+
+function shellQuote(value) {
+  return `'${value.replace(/'/g, `'\\''`)}'`;
+}
+
+// Rewrites a command's `sudo` calls for `method`. With 'password' the command first
+// reads the password from stdin (`sudo -S -v`), which refreshes sudo's timestamp for
+// this shell so the command's own sudo calls go through without asking again.
+function elevateCommand(command, method) {
+  const global = new RegExp(SUDO_PATTERN.source, 'g');
+  switch (method) {
+    case 'root':
+      return command.replace(global, '');
+    case 'sudo':
+      return command.replace(global, 'sudo -n ');
+    case 'password':
+      return `sudo -S -p '' -v && { ${command.replace(global, 'sudo -n ')}; }`;
+    case 'pkexec':
+      // pkexec starts in root's home directory, so return to ours first. The whole
+      // command runs as root to keep it to a single polkit prompt.
+      return `pkexec /bin/bash -c ${shellQuote(`cd ${shellQuote(process.cwd())} && ${command.replace(global, '')}`)}`;
+    default:
+      throw new Error(`Unknown elevation method: ${method}`);
+  }
+}
+
+function isElevationDenial(stderr) {
+  return DENIAL_PATTERN.test(stderr || '');
+}
+
+// Checks a password against sudo without running anything. `-k` ignores any cached
+// credentials so a wrong password can't slip through on an old timestamp.
+function checkPassword(password) {
+  return new Promise((resolve) => {
+    const child = spawn('sudo', ['-k', '-S', '-p', '', 'true'], { stdio: ['pipe', 'ignore', 'pipe'] });
+    let stderr = '';
+    child.stderr.on('data', (data) => {
+      stderr += data.toString();
+    });
+    child.on('error', (error) => resolve({ success: false, error: error.message }));
+    child.on('close', (code) => resolve({ success: code === 0, error: stderr.trim() }));
+    child.stdin.end(`${password}\n`);
+  });
+}
+
+// Returns the session's sudo password, asking through `requestPassword` the first
+// time. A wrong password is asked for again, up to MAX_PASSWORD_ATTEMPTS; the result
+// is { password } or { denied } with the reason.
+async function authorize(requestPassword) {
+  if (cachedPassword !== null) return { password: cachedPassword };
+
+  let error = null;
+  for (let attempt = 1; attempt <= MAX_PASSWORD_ATTEMPTS; attempt++) {
+    const password = await requestPassword({ attempt, error });
+    if (typeof password !== 'string') return { denied: 'Administrator password prompt was cancelled' };
+
+    const result = await checkPassword(password);
+    if (result.success) {
+      cachedPassword = password;
+      return { password };
+    }
+    // Retyping won't help an account that isn't allowed to use sudo at all
+    if (/is not in the sudoers file|is not allowed to execute/.test(result.error)) return { denied: result.error };
+    console.log('sudo rejected the administrator password');
+    error = 'Incorrect password, try again';
+  }
+  return { denied: `Administrator password was rejected ${MAX_PASSWORD_ATTEMPTS} times` };
+}
+
+function forgetAuthorization() {
+  cachedPassword = null;
+}
+
+module.exports = {
+  requiresElevation,
+  detectElevationMethod,
+  elevateCommand,
+  isElevationDenial,
+  authorize,
+  forgetAuthorization
+};
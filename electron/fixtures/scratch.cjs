@@ -0,0 +1,22 @@
+// Temporary directories for the tests, removed once the test file has run
+const { after } = require('node:test');
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+
+function scratchDirectory() {
+  const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'k8s-installer-test-'));
+  after(() => fs.rmSync(directory, { recursive: true, force: true }));
+  return directory;
+}
+
+// The engine keeps its ledger, audit log and command history under the home
+// directory, which is read when installer.cjs loads; call this before requiring it
+function scratchHome() {
+  const home = scratchDirectory();
+  process.env.HOME = home;
+  process.env.USERPROFILE = home;
+  return home;
+}
+
+module.exports = { scratchDirectory, scratchHome };
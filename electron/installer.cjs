@@ -0,0 +1,1161 @@
+// The installation engine shared by the Electron main process and the headless CLI.
+// Nothing in here may depend on Electron; callers pass in what they need (output
+// sink, operation record, offline bundle) through the constructor.
+const { exec, spawn } = require('child_process');
+const os = require('os');
+const fs = require('fs');
+const path = require('path');
+const {
+  COMPONENTS,
+  getComponent,
+  resolveInstallStep,
+  fillTemplate,
+  downloadValues,
+  releaseArchitecture,
+  architectureRefusal,
+  manualInstallReason,
+  isAvailableOn,
+  isPinnable,
+  parseVersion,
+  describeInstall,
+  isAlreadyInstalled
+} = require('./components.cjs');
+const { ChecksumMismatchError, fetchText, resolveRelease, verifiedDownload } = require('./downloads.cjs');
+const { normalizeVersion } = require('./version-pins.cjs');
+const { verifyBundleFile, bundlePath } = require('./bundle.cjs');
+const { DEFAULT_CONTAINER_RUNTIME, getContainerRuntime } = require('./runtimes.cjs');
+const { describeCommand, renderDownload, renderBundleInstall } = require('./plan.cjs');
+const { recordAudit } = require('./audit-log.cjs');
+const { recordCommand } = require('./command-history.cjs');
+const { readLedger, recordEntry, removeEntry, clusterEntry, uninstallCommand } = require('./ledger.cjs');
+const { validateCluster, clusterContext } = require('./clusters.cjs');
+const { getClusterProvider, clusterProviders, isProviderAvailableOn } = require('./cluster-providers.cjs');
+const { runVerificationSuite } = require('./verification.cjs');
+const { runPreflightChecks } = require('./preflight.cjs');
+const { readDistro, availablePackageManagers, choosePackageManager } = require('./distro.cjs');
+const {
+  componentRepository,
+  minorVersion,
+  repositoryContext,
+  renderRepository,
+  configuredRepository,
+  repositoryEntry
+} = require('./repositories.cjs');
+const {
+  requiresElevation,
+  detectElevationMethod,
+  elevateCommand,
+  isElevationDenial,
+  authorize,
+  forgetAuthorization
+} = require('./elevation.cjs');
+
+
+// Splits streamed chunks into complete lines, holding back a trailing partial line
+// until more data arrives or the stream is flushed. Carriage returns count as line
+// breaks so progress bars (curl, minikube) come through as individual updates.
+function createLineSplitter(onLine) {
+  let buffer = '';
+  return {
+    push(chunk) {
+      buffer += chunk;
+      const lines = buffer.split(/\r\n|\n|\r/);
+      buffer = lines.pop();
+      lines.forEach(line => {
+        if (line.trim()) onLine(line);
+      });
+    },
+    flush() {
+      if (buffer.trim()) onLine(buffer);
+      buffer = '';
+    }
+  };
+}
+
+// Homebrew's documented installer, the one script run without a checksum: Homebrew
+// publishes none for install.sh, and it is the package manager, so unlike Docker's
+// script (see ARCHITECTURE.md) there are no packages to install it from instead
+const HOMEBREW_INSTALL_SCRIPT = '/bin/bash -c "$(curl -fsSL https://raw.githubusercontent.com/Homebrew/install/HEAD/install.sh)"';
+
+// Upper bound on captured stdout/stderr per command (matches the old exec maxBuffer)
+const MAX_OUTPUT_BUFFER = 1024 * 1024 * 10;
+
+// Operations started from the renderer or the CLI, keyed by operation ID. Each entry tracks the
+// child processes and HTTP requests currently running on its behalf so they can be
+// killed or aborted on cancel.
+const runningOperations = new Map();
+
+// Kills a command and everything it spawned. On POSIX the command leads its own
+// process group, so signalling the group reaches sudo, which relays the signal to
+// the command it runs as root. Windows has taskkill walk the tree instead.
+function killProcessTree(pid, platform) {
+  if (!pid) return;
+
+  if (platform === 'win32') {
+    exec(`taskkill /pid ${pid} /T /F`, (error) => {
+      if (error) console.log(`taskkill failed for ${pid}: ${error.message}`);
+    });
+    return;
+  }
+
+  try {
+    process.kill(-pid, 'SIGTERM');
+  } catch (error) {
+    console.log(`Failed to signal process group ${pid}: ${error.message}`);
+    return;
+  }
+
+  // Escalate if the tree ignores SIGTERM
+  setTimeout(() => {
+    try {
+      process.kill(-pid, 'SIGKILL');
+    } catch (error) {
+      // Group already exited
+    }
+  }, 5000);
+}
+
+// Runs a renderer- or CLI-initiated task under an operation ID so cancelOperation can find
+// its processes. A cancelled task always reports `cancelled`, whatever it returned.
+async function runOperation(operationId, label, task) {
+  const operation = { cancelled: false, children: new Set(), requests: new Set() };
+  if (operationId) runningOperations.set(operationId, operation);
+
+  try {
+    const result = await task(operation);
+    if (operation.cancelled) {
+      return {
+        ...result,
+        success: false,
+        cancelled: true,
+        message: `${label} cancelled`
+      };
+    }
+    return result;
+  } finally {
+    if (operationId) runningOperations.delete(operationId);
+  }
+}
+
+function cancelOperation(operationId) {
+  const operation = runningOperations.get(operationId);
+  if (!operation) {
+    return { success: false, message: `No running operation with ID ${operationId}` };
+  }
+
+  operation.cancelled = true;
+  operation.children.forEach(child => killProcessTree(child.pid, os.platform()));
+  operation.requests.forEach(request => request.destroy(new Error('Operation cancelled')));
+  return { success: true, message: 'Cancellation requested' };
+}
+
+class KubernetesInstaller {
+  constructor(options = {}) {
+    this.platform = os.platform();
+    this.architecture = os.arch();
+    // Linux only: the distribution from /etc/os-release and the package managers on PATH
+    this.distro = this.platform === 'linux' ? readDistro() : null;
+    this.packageManagers = this.platform === 'linux' ? availablePackageManagers() : [];
+    this.packageManager = this.detectPackageManager();
+    this.installationSteps = [];
+    this.currentStep = 0;
+    // Receives { stream, line } for every line a long-running command prints
+    this.onOutput = options.onOutput || null;
+    // Operation record from runOperation; lets cancelOperation reach our children
+    this.operation = options.operation || null;
+    // Opened offline bundle; when set, nothing is fetched from the network
+    this.bundle = options.bundle || null;
+    // Asks the user for their sudo password: ({ attempt, error }) => Promise<string|null>.
+    // Without it, commands that need root only run where no password is needed.
+    this.requestPassword = options.requestPassword || null;
+    // The container runtime kind and minikube run nodes on (see runtimes.cjs)
+    this.containerRuntime = getContainerRuntime(options.containerRuntime) ||
+      getContainerRuntime(DEFAULT_CONTAINER_RUNTIME);
+  }
+
+  detectPackageManager() {
+    switch(this.platform) {
+      case 'darwin':
+        return 'homebrew';
+      case 'win32':
+        // On Windows, check for winget first, then chocolatey
+        return this.checkCommandSync('winget --version') ? 'winget' : 
+               this.checkCommandSync('choco --version') ? 'choco' : 'unknown';
+      case 'linux':
+        return this.detectLinuxPackageManager();
+      default:
+        return 'unknown';
+    }
+  }
+
+  // The distro family's package manager (dnf before yum on Fedora and RHEL 8+)
+  detectLinuxPackageManager() {
+    return choosePackageManager(this.distro, this.packageManagers);
+  }
+
+  checkCommandSync(command) {
+    try {
+      let fullCommand, shell, windowsVerbatimArguments;
+      
+      if (this.platform === 'win32') {
+        // On Windows, use cmd.exe with /c flag for better compatibility
+        // Escape special characters in the command
+        const escapedCommand = command.replace(/&/g, '^&').replace(/</g, '^<').replace(/>/g, '^>');
+        fullCommand = `cmd /c ${escapedCommand}`;
+        shell = 'cmd.exe';
+        windowsVerbatimArguments = true;
+      } else {
+        fullCommand = command;
+        shell = this.platform === 'win32' ? 'cmd.exe' : 'bash';
+      }
+      console.log(`Executing sync command: ${fullCommand}`);
+      require('child_process').execSync(fullCommand, { 
+        stdio: 'pipe',
+        shell: shell,
+        windowsVerbatimArguments: windowsVerbatimArguments,
+        env: { ...process.env }
+      });
+      recordAudit({ source: 'installer', command, success: true, code: 0 });
+      return true;
+    } catch (error) {
+      console.log(`Sync command failed: ${error.message}`);
+      recordAudit({ source: 'installer', command, success: false, code: error.status ?? null });
+      return false;
+    }
+  }
+
+  async checkCommand(command) {
+    return new Promise((resolve) => {
+      let fullCommand, shell, windowsVerbatimArguments;
+      
+      if (this.platform === 'win32') {
+        // On Windows, use cmd.exe with /c flag for better compatibility
+        // Escape special characters in the command
+        const escapedCommand = command.replace(/&/g, '^&').replace(/</g, '^<').replace(/>/g, '^>');
+        fullCommand = `cmd /c ${escapedCommand}`;
+        shell = 'cmd.exe';
+        windowsVerbatimArguments = true;
+      } else {
+        fullCommand = command;
+        shell = this.platform === 'win32' ? 'cmd.exe' : 'bash';
+      }
+      
+      console.log(`Executing async check command: ${fullCommand}`);
+
+      // Enhance environment for macOS to include Homebrew paths for check commands too
+      let enhancedEnv = { ...process.env };
+      if (this.platform === 'darwin') {
+        // Add common Homebrew paths to PATH
+        const homebrewPaths = [
+          '/opt/homebrew/bin',  // Apple Silicon Homebrew
+          '/usr/local/bin',     // Intel Homebrew
+          '/opt/homebrew/sbin',
+          '/usr/local/sbin'
+        ];
+        
+        let newPath = enhancedEnv.PATH || enhancedEnv.Path || '';
+        homebrewPaths.forEach(homebrewPath => {
+          if (!newPath.includes(homebrewPath)) {
+            newPath = `${homebrewPath}:${newPath}`;
+          }
+        });
+        enhancedEnv.PATH = newPath;
+        enhancedEnv.Path = newPath; // For compatibility
+      }
+
+      exec(fullCommand, { 
+        shell: shell,
+        windowsVerbatimArguments: windowsVerbatimArguments,
+        timeout: 10000, // Increased timeout for Windows commands
+        env: enhancedEnv // Enhanced environment with Homebrew paths
+      }, (error, stdout, stderr) => {
+        console.log(`Check command result: success=${!error}, version="${stdout.trim()}", error="${error ? stderr : null}"`);
+        recordAudit({ source: 'installer', command, success: !error, code: error ? error.code ?? null : 0 });
+        recordCommand({ command, success: !error, code: error ? error.code ?? null : 0, stdout, stderr });
+        resolve({
+          installed: !error,
+          version: error ? null : stdout.trim(),
+          error: error ? stderr : null
+        });
+      });
+    });
+  }
+
+  // Pins are only honoured for components that can actually install a given version
+  // here; an installed version that differs from its pin is flagged as a mismatch.
+  async checkPrerequisites(versionPins = {}) {
+    const checks = {};
+    for (const component of COMPONENTS.filter(candidate => isAvailableOn(candidate, this.platform))) {
+      const result = await this.checkCommand(component.versionCommand);
+      const version = result.installed ? parseVersion(component, result.version) : null;
+      const pinnable = isPinnable(component, this.platform);
+      const pinnedVersion = pinnable ? versionPins[component.id] || null : null;
+      const step = resolveInstallStep(component, this.platform, this.packageManager, pinnedVersion);
+      const unsupportedReason = step
+        ? architectureRefusal(component, step, this.architecture)
+        : manualInstallReason(component, this.platform);
+
+      checks[component.id] = {
+        ...result,
+        version,
+        name: component.name,
+        required: component.required,
+        provides: component.provides || [],
+        installable: !!step && !unsupportedReason,
+        unsupportedReason,
+        pinnable,
+        pinnedVersion,
+        versionMismatch: !!(pinnedVersion && result.installed && version !== pinnedVersion)
+      };
+    }
+    return checks;
+  }
+
+  // Runs a shell command. Commands that call sudo go through the elevation method for
+  // this machine (see elevation.cjs); when root isn't granted the result carries
+  // `elevationDenied` so callers can tell that apart from the command failing.
+  async executeCommand(command, options = {}) {
+    if (!requiresElevation(command, this.platform)) {
+      return await this.runCommand(command, options);
+    }
+
+    const method = detectElevationMethod(!!this.requestPassword);
+    console.log(`Command needs elevation, using ${method}`);
+    if (method === 'unavailable') {
+      return this.elevationDeniedResult(
+        'Administrator privileges are required, but passwordless sudo, a password prompt and pkexec are all unavailable here'
+      );
+    }
+
+    let input;
+    if (method === 'password') {
+      const { password, denied } = await authorize(this.requestPassword);
+      if (denied) return this.elevationDeniedResult(denied);
+      input = `${password}\n`;
+    }
+
+    const result = await this.runCommand(elevateCommand(command, method), { ...options, input });
+    if (result.success || result.cancelled || !isElevationDenial(result.error)) return result;
+
+    // A cached password that stopped working (changed mid-session) shouldn't be reused
+    if (method === 'password') forgetAuthorization();
+    return { ...result, elevationDenied: true };
+  }
+
+  elevationDeniedResult(reason) {
+    this.emitOutput('stderr', reason);
+    return { success: false, cancelled: false, elevationDenied: true, output: '', error: reason, code: null };
+  }
+
+  // `options.input` is written to the command's stdin, which is then closed.
+  // `options.audit` adds fields (source, operation) to the command's audit record.
+  async runCommand(command, options = {}) {
+    return new Promise((resolve) => {
+      let fullCommand, shell, windowsVerbatimArguments;
+
+      if (this.platform === 'win32') {
+        // On Windows, use cmd.exe with /c flag for better compatibility
+        // Also escape special characters and use proper quoting
+        fullCommand = `cmd /c ${command}`;
+        shell = 'cmd.exe';
+        windowsVerbatimArguments = true;
+      } else {
+        fullCommand = command;
+        shell = this.platform === 'win32' ? 'cmd.exe' : 'bash';
+      }
+
+      console.log(`Executing command: ${fullCommand}`);
+
+      // Enhance environment for macOS to include Homebrew paths
+      let enhancedEnv = { ...process.env };
+      if (this.platform === 'darwin') {
+        // Add common Homebrew paths to PATH
+        const homebrewPaths = [
+          '/opt/homebrew/bin',  // Apple Silicon Homebrew
+          '/usr/local/bin',     // Intel Homebrew
+          '/opt/homebrew/sbin',
+          '/usr/local/sbin'
+        ];
+        
+        let newPath = enhancedEnv.PATH || enhancedEnv.Path || '';
+        homebrewPaths.forEach(homebrewPath => {
+          if (!newPath.includes(homebrewPath)) {
+            newPath = `${homebrewPath}:${newPath}`;
+          }
+        });
+        enhancedEnv.PATH = newPath;
+        enhancedEnv.Path = newPath; // For compatibility
+      }
+
+      // Forward output line by line to whoever is listening on this installer
+      const onOutput = this.onOutput;
+      const lineSplitters = onOutput ? {
+        stdout: createLineSplitter(line => onOutput({ stream: 'stdout', line })),
+        stderr: createLineSplitter(line => onOutput({ stream: 'stderr', line }))
+      } : null;
+
+      const operation = this.operation;
+      if (operation && operation.cancelled) {
+        resolve({ success: false, cancelled: true, output: '', error: 'Operation cancelled', code: null });
+        return;
+      }
+
+      const { timeout, onData, input, audit, ...spawnOptions } = options;
+      const startedAt = Date.now();
+      const child = spawn(fullCommand, {
+        shell: shell,
+        windowsVerbatimArguments: windowsVerbatimArguments,
+        env: enhancedEnv, // Enhanced environment with Homebrew paths
+        // Own process group on POSIX so cancellation can signal the whole tree
+        detached: this.platform !== 'win32',
+        ...spawnOptions
+      });
+
+      let stdout = '';
+      let stderr = '';
+      let timedOut = false;
+      let settled = false;
+
+      if (operation) operation.children.add(child);
+
+      const timer = setTimeout(() => {
+        timedOut = true;
+        killProcessTree(child.pid, this.platform);
+      }, timeout || 300000); // Increased default timeout to 5 minutes
+
+      const finish = (code, spawnError) => {
+        if (settled) return;
+        settled = true;
+        clearTimeout(timer);
+        if (operation) operation.children.delete(child);
+        if (lineSplitters) {
+          lineSplitters.stdout.flush();
+          lineSplitters.stderr.flush();
+        }
+
+        const cancelled = !!(operation && operation.cancelled);
+        const success = code === 0 && !spawnError && !cancelled && !timedOut;
+        if (spawnError) stderr += spawnError.message;
+        if (timedOut) stderr += `\nCommand timed out after ${(timeout || 300000) / 1000} seconds`;
+
+        console.log(`Command completed. Success: ${success}, Code: ${code}, Cancelled: ${cancelled}`);
+        recordAudit({
+          source: 'installer',
+          ...audit,
+          command,
+          success,
+          code,
+          cancelled,
+          timedOut,
+          durationMs: Date.now() - startedAt
+        });
+        recordCommand({
+          ...audit,
+          command,
+          success,
+          code,
+          cancelled,
+          timedOut,
+          durationMs: Date.now() - startedAt,
+          stdout,
+          stderr
+        });
+        console.log(`Stdout: ${stdout.substring(0, 500)}...`); // Limit output length
+        if (stderr) console.log(`Stderr: ${stderr.substring(0, 500)}...`); // Limit output length
+
+        resolve({
+          success,
+          cancelled,
+          output: stdout,
+          error: stderr,
+          code: success ? 0 : code
+        });
+      };
+
+      child.stdout.on('data', (data) => {
+        if (stdout.length < MAX_OUTPUT_BUFFER) stdout += data.toString();
+      });
+      child.stderr.on('data', (data) => {
+        if (stderr.length < MAX_OUTPUT_BUFFER) stderr += data.toString();
+      });
+      child.on('error', (error) => finish(null, error));
+      child.on('close', (code) => finish(code));
+
+      if (onData) {
+        child.stdout.on('data', (data) => {
+          console.log(`Command output: ${data.toString().substring(0, 200)}...`);
+          onData(data.toString(), 'stdout');
+        });
+        child.stderr.on('data', (data) => {
+          console.error(`Command error: ${data.toString().substring(0, 200)}...`);
+          onData(data.toString(), 'stderr');
+        });
+      }
+
+      if (lineSplitters) {
+        child.stdout.on('data', (data) => lineSplitters.stdout.push(data.toString()));
+        child.stderr.on('data', (data) => lineSplitters.stderr.push(data.toString()));
+      }
+
+      if (input !== undefined) {
+        // The command may exit before reading it all
+        child.stdin.on('error', () => {});
+        child.stdin.end(input);
+      }
+    });
+  }
+
+  async installHomebrew() {
+    if (this.platform !== 'darwin') {
+      return { success: true, skip: true, message: 'Not macOS, skipping Homebrew installation' };
+    }
+
+    const homebrewCheck = await this.checkCommand('brew --version');
+    if (homebrewCheck.installed) {
+      return { success: true, skip: true, message: 'Homebrew already installed' };
+    }
+
+    const result = await this.executeCommand(HOMEBREW_INSTALL_SCRIPT, { timeout: 600000 });
+
+    return {
+      success: result.success,
+      message: result.success ? 'Homebrew installed successfully' : 'Homebrew installation failed',
+      output: result.output,
+      error: result.error
+    };
+  }
+
+  async updatePackageManager() {
+    if (this.bundle) {
+      return { success: true, skip: true, message: 'Offline bundle mode, skipping package manager update' };
+    }
+
+    let command = '';
+
+    switch(this.packageManager) {
+      case 'homebrew':
+        command = 'brew update';
+        break;
+      case 'apt':
+        command = 'sudo apt update';
+        break;
+      case 'yum':
+        command = 'sudo yum update -y';
+        break;
+      case 'dnf':
+        command = 'sudo dnf update -y';
+        break;
+      case 'pacman':
+        command = 'sudo pacman -Sy';
+        break;
+      case 'zypper':
+        command = 'sudo zypper --non-interactive refresh';
+        break;
+      case 'apk':
+        command = 'sudo apk update';
+        break;
+      case 'winget':
+        command = 'winget upgrade --all --silent'; // Added silent flag for better Windows experience
+        break;
+      case 'choco':
+        command = 'choco upgrade all -y';
+        break;
+      default:
+        return { success: false, message: 'Unknown package manager' };
+    }
+
+    const result = await this.executeCommand(command);
+    return {
+      success: result.success,
+      message: result.success ? 'Package manager updated' : 'Failed to update package manager',
+      output: result.output,
+      error: result.error
+    };
+  }
+
+  async installComponent(componentId, options = {}) {
+    const component = getComponent(componentId);
+    if (!component) {
+      return { success: false, message: 'Unknown component' };
+    }
+
+    const version = options.version ? normalizeVersion(options.version) : null;
+    if (options.version && !version) {
+      return { success: false, message: `Invalid version "${options.version}" for ${component.name}` };
+    }
+
+    console.log(`Installing ${component.name}${version ? ` ${version}` : ''} for platform: ${this.platform}`);
+
+    if (this.bundle) {
+      return await this.installFromBundle(component, version);
+    }
+
+    const { step, failure } = this.resolveComponentStep(component, version);
+    if (failure) return failure;
+
+    if (typeof step === 'string') {
+      const repositoryFailure = await this.ensureRepository(component, version);
+      if (repositoryFailure) return repositoryFailure;
+    }
+
+    console.log(`Using ${this.packageManager} to install ${component.name}...`);
+    const result = typeof step === 'string'
+      ? await this.executeCommand(step, { timeout: component.installTimeout })
+      : await this.installDownload(step, version, { timeout: component.installTimeout });
+
+    if (result.checksumMismatch) {
+      return {
+        success: false,
+        message: `${component.name} failed checksum verification`,
+        output: result.output,
+        error: result.error
+      };
+    }
+
+    if (result.elevationDenied) {
+      return {
+        success: false,
+        elevationDenied: true,
+        message: `${component.name} needs administrator privileges, which were not granted`,
+        output: result.output,
+        error: result.error
+      };
+    }
+
+    if (result.success) this.recordInstall(component, step, version);
+
+    // Check if the failure was due to already installed package
+    if (!result.success && !result.cancelled && isAlreadyInstalled(component, result.error)) {
+      console.log(`${component.name} is already installed, treating as success`);
+      return {
+        success: true,
+        message: `${component.name} is already installed`,
+        output: result.output,
+        error: result.error
+      };
+    }
+
+    return {
+      success: result.success,
+      message: result.success
+        ? `${component.name}${version ? ` ${version}` : ''} installed successfully`
+        : `${component.name} installation failed`,
+      output: result.output,
+      error: result.error
+    };
+  }
+
+  // Picks the install step for this machine, or a failure result explaining why there
+  // isn't one. Shared by installComponent() and planInstallation().
+  resolveComponentStep(component, version) {
+    if (version && !isPinnable(component, this.platform)) {
+      return {
+        failure: {
+          success: false,
+          message: `${component.name} cannot be pinned on ${this.platform}`,
+          output: '',
+          error: `No versioned install method for ${component.name} with ${this.packageManager}. Remove the pin to install the latest release.`
+        }
+      };
+    }
+
+    const step = resolveInstallStep(component, this.platform, this.packageManager, version);
+    if (!step) {
+      const reason = manualInstallReason(component, this.platform);
+      return {
+        failure: {
+          success: false,
+          message: reason ? `${component.name} must be installed manually` : `Unsupported platform: ${this.platform}`,
+          output: '',
+          error: reason || `${component.name} installation not supported on ${this.platform}`
+        }
+      };
+    }
+
+    // Preflight: refuse before downloading anything that can't run on this CPU
+    const refusal = architectureRefusal(component, step, this.architecture);
+    if (refusal) {
+      return {
+        failure: {
+          success: false,
+          message: `${component.name} is not available for ${this.architecture}`,
+          output: '',
+          error: refusal
+        }
+      };
+    }
+
+    return { step };
+  }
+
+  // Adds the vendor repository a package manager install needs (repositories.cjs)
+  // unless it's already configured. Returns a failure result, or null to go ahead.
+  async ensureRepository(component, version) {
+    const repository = componentRepository(component, this.packageManager);
+    if (!repository) return null;
+
+    const failure = error => ({
+      success: false,
+      message: `Failed to add the ${repository.name} package repository`,
+      output: '',
+      error
+    });
+
+    const { context, error } = repositoryContext(repository, this.packageManager, this.distro);
+    if (error) return failure(error);
+
+    let minor = null;
+    if (repository.latestReleaseUrl) {
+      try {
+        minor = minorVersion(version || await fetchText(repository.latestReleaseUrl, this.trackRequest()));
+      } catch (fetchError) {
+        return failure(`Could not look up the latest release: ${fetchError.message}`);
+      }
+      if (!minor) return failure(`Could not tell which ${repository.name} minor version to use`);
+    }
+
+    const existing = configuredRepository(repository, this.packageManager, context, minor);
+    if (existing) {
+      this.emitOutput('stdout', `Using the ${repository.name} package repository configured in ${existing}`);
+      return null;
+    }
+
+    const { command, paths } = renderRepository(repository, this.packageManager, context, minor);
+    this.emitOutput('stdout', `Adding the ${repository.name} package repository${minor ? ` for v${minor}` : ''}`);
+    const result = await this.executeCommand(command, { timeout: 120000 });
+    if (!result.success) {
+      return {
+        ...failure(result.error),
+        elevationDenied: result.elevationDenied,
+        output: result.output
+      };
+    }
+
+    recordEntry(repositoryEntry(repository, minor, paths));
+    return null;
+  }
+
+  // Notes a successful install in the uninstall ledger. Components that were already
+  // there ("already installed" from the package manager) are never recorded.
+  recordInstall(component, step, version) {
+    const installed = describeInstall(component, step, this.packageManager);
+    if (!installed) {
+      console.log(`No uninstall information for ${component.name} with ${this.packageManager}, not recording it`);
+      return;
+    }
+
+    recordEntry({
+      id: component.id,
+      kind: 'component',
+      component: component.id,
+      name: component.name,
+      version: version || null,
+      ...installed
+    });
+  }
+
+  emitOutput(stream, line) {
+    if (this.onOutput) this.onOutput({ stream, line });
+  }
+
+  // Lets cancelOperation abort in-flight downloads for this installer's operation
+  trackRequest() {
+    const operation = this.operation;
+    if (!operation) return undefined;
+    return (request) => {
+      operation.requests.add(request);
+      request.on('close', () => operation.requests.delete(request));
+    };
+  }
+
+  // Downloads a release artifact into a scratch directory, verifies its SHA-256 and
+  // only then runs the step's install command against it
+  async installDownload(step, version, options = {}) {
+    if (this.operation && this.operation.cancelled) {
+      return { success: false, cancelled: true, output: '', error: 'Operation cancelled' };
+    }
+
+    const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'k8s-installer-'));
+    try {
+      const release = await resolveRelease(step.download, version, this.trackRequest());
+      const arch = releaseArchitecture(this.architecture);
+      const values = downloadValues(step.download, release, release.replace(/^v/, ''), arch);
+      const urls = {
+        url: fillTemplate(step.download.url, values),
+        checksumUrl: fillTemplate(step.download.checksumUrl, values)
+      };
+
+      this.emitOutput('stdout', `Downloading ${urls.url}`);
+      const { file, sha256 } = await verifiedDownload(urls, directory, this.trackRequest());
+      this.emitOutput('stdout', `Verified SHA-256 ${sha256}`);
+
+      return await this.executeCommand(fillTemplate(step.command, { file, dir: directory, arch }), options);
+    } catch (error) {
+      console.log(`Download failed: ${error.message}`);
+      this.emitOutput('stderr', error.message);
+      return {
+        success: false,
+        cancelled: !!(this.operation && this.operation.cancelled),
+        checksumMismatch: error instanceof ChecksumMismatchError,
+        output: '',
+        error: error.message
+      };
+    } finally {
+      fs.rmSync(directory, { recursive: true, force: true });
+    }
+  }
+
+  // Installs a component from the offline bundle with the same command its download
+  // step would use, after re-checking the bundled file against its recorded digest
+  async installFromBundle(component, version) {
+    const entry = this.bundle.manifest.components[component.id];
+    if (!entry) {
+      return {
+        success: false,
+        message: `${component.name} is not in the offline bundle`,
+        output: '',
+        error: `Rebuild the bundle with ${component.id} included, or install ${component.name} from distribution media.`
+      };
+    }
+
+    if (version && version !== entry.version) {
+      return {
+        success: false,
+        message: `Offline bundle has ${component.name} ${entry.version}, not ${version}`,
+        output: '',
+        error: 'Rebuild the bundle with the pinned version.'
+      };
+    }
+
+    const step = resolveInstallStep(component, this.platform, this.packageManager, entry.version);
+    if (!step || typeof step === 'string') {
+      return {
+        success: false,
+        message: `${component.name} cannot be installed offline on ${this.platform}`,
+        output: '',
+        error: 'Offline bundles only carry Linux release binaries.'
+      };
+    }
+
+    const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'k8s-installer-'));
+    try {
+      this.emitOutput('stdout', `Installing ${component.name} ${entry.version} from offline bundle`);
+      const file = await verifyBundleFile(this.bundle, entry);
+      this.emitOutput('stdout', `Verified SHA-256 ${entry.sha256}`);
+
+      const arch = releaseArchitecture(this.architecture);
+      const result = await this.executeCommand(
+        fillTemplate(step.command, { file, dir: directory, arch }),
+        { timeout: component.installTimeout }
+      );
+      if (result.success) this.recordInstall(component, step, entry.version);
+      return {
+        success: result.success,
+        elevationDenied: result.elevationDenied,
+        message: result.success
+          ? `${component.name} ${entry.version} installed from offline bundle`
+          : result.elevationDenied
+            ? `${component.name} needs administrator privileges, which were not granted`
+            : `${component.name} installation failed`,
+        output: result.output,
+        error: result.error
+      };
+    } catch (error) {
+      this.emitOutput('stderr', error.message);
+      return {
+        success: false,
+        message: error instanceof ChecksumMismatchError
+          ? `${component.name} failed checksum verification`
+          : `${component.name} installation failed`,
+        output: '',
+        error: error.message
+      };
+    } finally {
+      fs.rmSync(directory, { recursive: true, force: true });
+    }
+  }
+
+  // Read-only queries. Checks never prompt, so with a runtime that needs root these
+  // only see its clusters when sudo doesn't ask for a password.
+  checkRuntimeCommand(command, runtime = this.containerRuntime) {
+    return this.checkCommand(runtime.rootful ? elevateCommand(command, 'sudo') : command);
+  }
+
+  // Every cluster of each type this platform has, whoever created them. A tool that
+  // isn't installed simply contributes no clusters.
+  async listClusters() {
+    const clusters = [];
+    for (const provider of clusterProviders(this.platform)) {
+      clusters.push(...(await provider.list(this)).map(cluster => ({ clusterType: provider.id, ...cluster })));
+    }
+
+    const context = await this.checkCommand('kubectl config current-context');
+    const currentContext = context.installed ? context.version : null;
+    const recorded = readLedger().map(entry => entry.id);
+
+    return {
+      currentContext,
+      clusters: clusters.map(cluster => {
+        const clusterContextName = clusterContext(cluster.clusterType, cluster.name);
+        return {
+          ...cluster,
+          id: `${cluster.clusterType}:${cluster.name}`,
+          context: clusterContextName,
+          current: clusterContextName === currentContext,
+          recorded: recorded.includes(clusterEntry(cluster.clusterType, cluster.name).id)
+        };
+      })
+    };
+  }
+
+  // Stops, starts or deletes an existing cluster. Deleting one the installer
+  // created also drops it from the ledger, so uninstalling won't try again.
+  async manageCluster(action, clusterType, name) {
+    const errors = validateCluster(clusterType, name);
+    if (errors.length > 0) {
+      return { success: false, message: 'Invalid cluster', error: errors.join('\n') };
+    }
+
+    const { name: label } = clusterEntry(clusterType, name);
+    const runtime = this.clusterRuntime(clusterType, name);
+    const { command, error } = await getClusterProvider(clusterType).command(this, action, name, runtime);
+    if (error) {
+      return { success: false, message: error };
+    }
+
+    const result = await this.executeCommand(command, { timeout: 600000 });
+    if (result.success && action === 'delete') removeEntry(clusterEntry(clusterType, name).id);
+
+    const done = { stop: 'stopped', start: 'started', delete: 'deleted' }[action];
+    return {
+      success: result.success,
+      message: result.success ? `${label} ${done}` : `Failed to ${action} ${label}`,
+      output: result.output,
+      error: result.error
+    };
+  }
+
+  // The container runtime a cluster's nodes run on: the one its ledger entry names for
+  // clusters the installer created (Docker for entries from before runtimes were
+  // recorded), otherwise the chosen one
+  clusterRuntime(clusterType, name) {
+    const { id } = clusterEntry(clusterType, name);
+    const entry = readLedger().find(existing => existing.id === id);
+    if (!entry) return this.containerRuntime;
+    return getContainerRuntime(entry.runtime || DEFAULT_CONTAINER_RUNTIME) || this.containerRuntime;
+  }
+
+  // Points kubectl at the cluster by switching the current kubeconfig context
+  async useClusterContext(clusterType, name) {
+    const errors = validateCluster(clusterType, name);
+    if (errors.length > 0) {
+      return { success: false, message: 'Invalid cluster', error: errors.join('\n') };
+    }
+
+    const context = clusterContext(clusterType, name);
+    const result = await this.executeCommand(`kubectl config use-context ${context}`);
+    return {
+      success: result.success,
+      message: result.success ? `kubectl now uses context ${context}` : `Failed to switch to context ${context}`,
+      output: result.output,
+      error: result.error
+    };
+  }
+
+  // Reverses one ledger entry: deletes the cluster or removes the component. The entry
+  // is only dropped from the ledger once its command has succeeded.
+  async uninstallEntry(entryId) {
+    const entry = readLedger().find(candidate => candidate.id === entryId);
+    if (!entry) {
+      return { success: false, message: `Nothing recorded for ${entryId}` };
+    }
+
+    const { command, error } = uninstallCommand(entry);
+    if (error) {
+      return { success: false, message: `Cannot uninstall ${entry.name}`, output: '', error };
+    }
+
+    const result = await this.executeCommand(command, { timeout: 600000 });
+    if (result.success) removeEntry(entry.id);
+
+    const verb = entry.kind === 'cluster' ? 'deleted' : entry.kind === 'repository' ? 'removed' : 'uninstalled';
+    return {
+      success: result.success,
+      elevationDenied: result.elevationDenied,
+      message: result.success
+        ? `${entry.name} ${verb}`
+        : result.elevationDenied
+          ? `Removing ${entry.name} needs administrator privileges, which were not granted`
+          : `Failed to remove ${entry.name}`,
+      output: result.output,
+      error: result.error
+    };
+  }
+
+  // Creates a cluster of `clusterType` through its provider (see cluster-providers.cjs);
+  // `options` holds the wizard's options keyed by cluster type
+  async startCluster(clusterType, options = {}) {
+    const provider = getClusterProvider(clusterType);
+    if (!provider) {
+      return { success: false, message: 'Unknown cluster type' };
+    }
+    if (!isProviderAvailableOn(provider, this.platform)) {
+      return { success: false, message: `${provider.name} clusters are not supported on ${this.platform}` };
+    }
+
+    return await provider.create(this, options[clusterType]);
+  }
+
+  // Dry run: the commands installing `componentIds` (in order) would run for whatever
+  // `checks` reports as missing or mismatched, plus the cluster start when
+  // `options.clusterType` is set. Nothing is executed or downloaded.
+  planInstallation(componentIds, checks, options = {}) {
+    const steps = [];
+    const pending = componentIds.filter(id => checks[id] && (!checks[id].installed || checks[id].versionMismatch));
+
+    if (options.homebrew && this.packageManager === 'homebrew' && pending.length > 0) {
+      steps.push({
+        id: 'homebrew',
+        title: 'Install Homebrew (if missing)',
+        command: `command -v brew >/dev/null || ${HOMEBREW_INSTALL_SCRIPT}`,
+        ...describeCommand(HOMEBREW_INSTALL_SCRIPT),
+        // The install script asks for the administrator password itself
+        elevated: true,
+        estimatedSeconds: 300
+      });
+    }
+
+    pending.forEach((id) => {
+      const component = getComponent(id);
+      const version = normalizeVersion(checks[id].pinnedVersion || '') || null;
+      steps.push(this.planComponent(component, version, checks[id].installed));
+    });
+
+    if (options.clusterType) {
+      steps.push(this.planClusterStart(options.clusterType, options));
+    }
+
+    return {
+      platform: this.platform,
+      arch: this.architecture,
+      packageManager: this.packageManager,
+      generatedAt: new Date().toISOString(),
+      steps,
+      estimatedSeconds: steps.reduce((total, step) => total + step.estimatedSeconds, 0)
+    };
+  }
+
+  planComponent(component, version, reinstall) {
+    const arch = releaseArchitecture(this.architecture);
+    const planned = {
+      id: component.id,
+      title: `${reinstall ? 'Reinstall' : 'Install'} ${component.name}${version ? ` ${version}` : ''}`,
+      command: null,
+      elevated: false,
+      urls: [],
+      packageManager: null,
+      estimatedSeconds: component.estimatedSeconds || 60
+    };
+
+    if (this.bundle) {
+      const entry = this.bundle.manifest.components[component.id];
+      const step = entry && resolveInstallStep(component, this.platform, this.packageManager, entry.version);
+      if (!entry || !step || typeof step === 'string') {
+        return { ...planned, error: `${component.name} is not in the offline bundle` };
+      }
+
+      const command = renderBundleInstall(step, bundlePath(this.bundle, entry.file), entry.sha256, arch);
+      return {
+        ...planned,
+        title: `Install ${component.name} ${entry.version} from offline bundle`,
+        command,
+        elevated: describeCommand(command).elevated
+      };
+    }
+
+    const { step, failure } = this.resolveComponentStep(component, version);
+    if (failure) {
+      return { ...planned, error: failure.error };
+    }
+
+    if (typeof step === 'string') {
+      const repository = this.planRepository(component, version);
+      if (repository.error) return { ...planned, error: repository.error };
+
+      const command = repository.command ? `${repository.command} &&\n${step}` : step;
+      // The repository file paths would otherwise read as a yum command
+      return { ...planned, command, ...describeCommand(command), packageManager: describeCommand(step).packageManager };
+    }
+
+    const { command, urls } = renderDownload(step, version, arch);
+    return { ...planned, command, urls, elevated: describeCommand(command).elevated };
+  }
+
+  // The command planComponent() puts before a package manager install to add its
+  // repository. Without a pin the script looks up the current minor version itself.
+  planRepository(component, version) {
+    const repository = componentRepository(component, this.packageManager);
+    if (!repository) return {};
+
+    const { context, error } = repositoryContext(repository, this.packageManager, this.distro);
+    if (error) return { error };
+
+    let minor = null;
+    let preamble = '';
+    if (repository.latestReleaseUrl) {
+      minor = version && minorVersion(version);
+      if (!minor) {
+        preamble = `minor=$(curl -fsSL ${repository.latestReleaseUrl} | cut -d. -f1,2 | tr -d v)\n`;
+      } else if (configuredRepository(repository, this.packageManager, context, minor)) {
+        return {};
+      }
+    } else if (configuredRepository(repository, this.packageManager, context, null)) {
+      return {};
+    }
+
+    const { command } = renderRepository(repository, this.packageManager, context, minor || '${minor}');
+    return { command: `${preamble}${command}` };
+  }
+
+  planClusterStart(clusterType, options = {}) {
+    const provider = getClusterProvider(clusterType);
+    const planned = {
+      id: clusterType,
+      title: `Start ${clusterType} cluster`,
+      command: null,
+      elevated: false,
+      urls: [],
+      packageManager: null,
+      estimatedSeconds: provider ? provider.estimatedSeconds : 0
+    };
+
+    if (!provider) return { ...planned, error: 'Unknown cluster type' };
+    if (!isProviderAvailableOn(provider, this.platform)) {
+      return { ...planned, error: `${provider.name} clusters are not supported on ${this.platform}` };
+    }
+
+    const { command, error } = provider.plan(this, options[clusterType]);
+    if (error) return { ...planned, error };
+    return { ...planned, command, elevated: describeCommand(command).elevated };
+  }
+
+  // Runs the host checks in preflight.cjs; the report's `passed` is false when a
+  // blocking check failed
+  async runPreflightChecks() {
+    return await runPreflightChecks(this);
+  }
+
+  // Runs the checks in verification.cjs against the current kubectl context;
+  // `options.skip` names checks that don't apply
+  async verifyInstallation(options = {}) {
+    return await runVerificationSuite(this, options);
+  }
+}
+
+module.exports = {
+  KubernetesInstaller,
+  createLineSplitter,
+  runningOperations,
+  runOperation,
+  cancelOperation
+};
@@ -0,0 +1,49 @@
+// Turns the wizard's k3d form into `k3d cluster create` flags. Values come from the
+// renderer, so each one is checked before it is placed on a command line.
+const { k3dCommand, k3dRefusal } = require('./runtimes.cjs');
+
+// k3d's own default when no name is given
+const DEFAULT_K3D_CLUSTER_NAME = 'k3s-default';
+const MAX_AGENTS = 10;
+const NAME_PATTERN = /^[a-z0-9]([-a-z0-9]*[a-z0-9])?$/;
+
+/**
+ * @typedef {Object} K3dClusterOptions
+ * @property {string} [name]     k3d's default ("k3s-default") if empty
+ * @property {number} [agents]   Agent (worker) nodes beside the server; none if unset
+ */
+
+// Returns a list of problems, empty when the options are safe to pass to k3d.
+// With `runtime` (see runtimes.cjs), k3d must be able to run nodes on it.
+function validateK3dOptions(options = {}, platform, runtime = null) {
+  const errors = [];
+
+  if (options.name && !NAME_PATTERN.test(options.name)) {
+    errors.push(`Invalid cluster name: ${options.name}`);
+  }
+  if (options.agents !== undefined &&
+      (!Number.isInteger(options.agents) || options.agents < 0 || options.agents > MAX_AGENTS)) {
+    errors.push(`Agent count must be between 0 and ${MAX_AGENTS}`);
+  }
+  const refusal = runtime && k3dRefusal(runtime, platform);
+  if (refusal) errors.push(refusal);
+
+  return errors;
+}
+
+// Assumes validateK3dOptions() passed. k3d merges the new context into the user's
+// kubeconfig and switches to it. Podman only serves the Docker API while its user
+// socket is active, so that is enabled first.
+function buildK3dCreateCommand(options = {}, runtime) {
+  const args = [`cluster create ${options.name || DEFAULT_K3D_CLUSTER_NAME}`];
+  if (options.agents) args.push(`--agents ${options.agents}`);
+
+  const socket = runtime.dockerSocket ? 'systemctl --user enable --now podman.socket && ' : '';
+  return `${socket}${k3dCommand(runtime, args.join(' '))}`;
+}
+
+module.exports = {
+  DEFAULT_K3D_CLUSTER_NAME,
+  validateK3dOptions,
+  buildK3dCreateCommand
+};
@@ -0,0 +1,141 @@
+// Builds the kind `Cluster` config (kind.x-k8s.io/v1alpha4) from the options the
+// wizard's kind editor collects. The renderer sends plain form values; everything is
+// validated here before it reaches a file or a command line.
+const net = require('net');
+const path = require('path');
+const { IMAGE_PATTERN } = require('./bundle.cjs');
+
+const DEFAULT_CLUSTER_NAME = 'kind';
+const MAX_WORKERS = 10;
+const PROTOCOLS = ['TCP', 'UDP', 'SCTP'];
+// kind prefixes node container names with the cluster name, so it must be a DNS label
+const CLUSTER_NAME_PATTERN = /^[a-z0-9]([-a-z0-9]{0,48}[a-z0-9])?$/;
+
+/**
+ * @typedef {Object} KindPortMapping
+ * @property {number} containerPort
+ * @property {number} hostPort
+ * @property {string} [protocol]       TCP (default), UDP or SCTP
+ * @property {string} [listenAddress]  Host address to bind, defaults to all
+ */
+
+/**
+ * @typedef {Object} KindMount
+ * @property {string} hostPath
+ * @property {string} containerPath
+ * @property {boolean} [readOnly]
+ */
+
+/**
+ * @typedef {Object} KindClusterOptions
+ * @property {string} [name]
+ * @property {number} [workers]        Worker nodes besides the control plane
+ * @property {string} [nodeImage]      e.g. kindest/node:v1.29.2; kind's default if empty
+ * @property {KindPortMapping[]} [portMappings]  Published from the control-plane node
+ * @property {KindMount[]} [mounts]    Mounted into every node
+ */
+
+function isPort(value) {
+  return Number.isInteger(value) && value >= 1 && value <= 65535;
+}
+
+// Returns a list of problems, empty when the options can be turned into a config
+function validateKindConfig(options = {}) {
+  const errors = [];
+  const name = options.name || DEFAULT_CLUSTER_NAME;
+  const workers = options.workers || 0;
+
+  if (!CLUSTER_NAME_PATTERN.test(name)) {
+    errors.push('Cluster name must be lowercase letters, digits and dashes (at most 50 characters)');
+  }
+  if (!Number.isInteger(workers) || workers < 0 || workers > MAX_WORKERS) {
+    errors.push(`Worker count must be between 0 and ${MAX_WORKERS}`);
+  }
+  if (options.nodeImage && !IMAGE_PATTERN.test(options.nodeImage)) {
+    errors.push(`Invalid node image: ${options.nodeImage}`);
+  }
+
+  const boundPorts = new Set();
+  (options.portMappings || []).forEach((mapping, index) => {
+    const label = `Port mapping ${index + 1}`;
+    if (!isPort(mapping.containerPort)) errors.push(`${label}: container port must be 1-65535`);
+    if (!isPort(mapping.hostPort)) errors.push(`${label}: host port must be 1-65535`);
+    if (mapping.protocol && !PROTOCOLS.includes(mapping.protocol)) {
+      errors.push(`${label}: protocol must be ${PROTOCOLS.join(', ')}`);
+    }
+    if (mapping.listenAddress && !net.isIP(mapping.listenAddress)) {
+      errors.push(`${label}: listen address must be an IP address`);
+    }
+
+    const binding = `${mapping.listenAddress || '0.0.0.0'}:${mapping.hostPort}/${mapping.protocol || 'TCP'}`;
+    if (boundPorts.has(binding)) errors.push(`${label}: host port ${mapping.hostPort} is already mapped`);
+    boundPorts.add(binding);
+  });
+
+  const containerPaths = new Set();
+  (options.mounts || []).forEach((mount, index) => {
+    const label = `Mount ${index + 1}`;
+    if (!mount.hostPath || !path.isAbsolute(mount.hostPath)) errors.push(`${label}: host path must be absolute`);
+    if (!mount.containerPath || !path.posix.isAbsolute(mount.containerPath)) {
+      errors.push(`${label}: container path must be an absolute Linux path`);
+    }
+    if (containerPaths.has(mount.containerPath)) errors.push(`${label}: ${mount.containerPath} is already mounted`);
+    containerPaths.add(mount.containerPath);
+  });
+
+  return errors;
+}
+
+// Strings are emitted as JSON, which is valid double-quoted YAML, so paths with
+// spaces, colons or quotes can't change the document's structure
+function renderNode(role, options, isControlPlane) {
+  const lines = [`- role: ${role}`];
+  if (options.nodeImage) lines.push(`  image: ${JSON.stringify(options.nodeImage)}`);
+
+  const portMappings = isControlPlane ? options.portMappings || [] : [];
+  if (portMappings.length > 0) {
+    lines.push('  extraPortMappings:');
+    portMappings.forEach((mapping) => {
+      lines.push(`  - containerPort: ${mapping.containerPort}`);
+      lines.push(`    hostPort: ${mapping.hostPort}`);
+      lines.push(`    protocol: ${mapping.protocol || 'TCP'}`);
+      if (mapping.listenAddress) lines.push(`    listenAddress: ${JSON.stringify(mapping.listenAddress)}`);
+    });
+  }
+
+  const mounts = options.mounts || [];
+  if (mounts.length > 0) {
+    lines.push('  extraMounts:');
+    mounts.forEach((mount) => {
+      lines.push(`  - hostPath: ${JSON.stringify(mount.hostPath)}`);
+      lines.push(`    containerPath: ${JSON.stringify(mount.containerPath)}`);
+      if (mount.readOnly) lines.push('    readOnly: true');
+    });
+  }
+
+  return lines;
+}
+
+// Renders validated options as a kind config document
+function renderKindConfig(options = {}) {
+  const lines = [
+    'kind: Cluster',
+    'apiVersion: kind.x-k8s.io/v1alpha4',
+    `name: ${options.name || DEFAULT_CLUSTER_NAME}`,
+    'nodes:',
+    ...renderNode('control-plane', options, true)
+  ];
+
+  for (let i = 0; i < (options.workers || 0); i++) {
+    lines.push(...renderNode('worker', options, false));
+  }
+
+  return `${lines.join('\n')}\n`;
+}
+
+module.exports = {
+  DEFAULT_CLUSTER_NAME,
+  MAX_WORKERS,
+  validateKindConfig,
+  renderKindConfig
+};
@@ -0,0 +1,177 @@
+// Record of what the installer put on this machine, so it can be taken off again.
+// Shared by the wizard and the CLI through a JSON file next to the version pins:
+//
+// {
+//   "formatVersion": 1,
+//   "entries": [
+//     { "id": "kubectl", "kind": "component", "component": "kubectl", "name": "kubectl",
+//       "version": "1.29.3", "method": "binary", "packages": [], "paths": ["/usr/local/bin/kubectl"],
+//       "recordedAt": "2026-01-01T00:00:00.000Z" },
+//     { "id": "repository:kubernetes", "kind": "repository", "repository": "kubernetes",
+//       "name": "Kubernetes package repository", "version": "1.29",
+//       "method": "repository", "paths": ["/etc/apt/keyrings/k8s-installer-kubernetes.asc", ...], ... },
+//     { "id": "cluster:kind:dev", "kind": "cluster", "clusterType": "kind", "cluster": "dev",
+//       "name": "Kind cluster \"dev\"", "runtime": "podman", ... }
+//   ]
+// }
+//
+// Entries hold facts (package names, paths), never commands; uninstallCommand() builds
+// the reversal from them after validating each one, so editing the file can't smuggle
+// a command in.
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+const { DEFAULT_CONTAINER_RUNTIME, getContainerRuntime } = require('./runtimes.cjs');
+const { validateCluster, clusterCommand } = require('./clusters.cjs');
+
+const LEDGER_FILE = path.join(os.homedir(), '.k8s-installer', 'ledger.json');
+const LEDGER_FORMAT_VERSION = 1;
+
+const PACKAGE_PATTERN = /^[\w.+-]+$/;
+// Binaries are only placed directly on Linux (release downloads and offline bundles)
+const PATH_PATTERN = /^\/[\w.\-/]+$/;
+// Repository files the installer wrote itself (see repositories.cjs), never anyone else's
+const REPOSITORY_PATH_PATTERN = /^\/etc\/(apt\/sources\.list\.d|apt\/keyrings|yum\.repos\.d|zypp\/repos\.d)\/k8s-installer-[\w.-]+$/;
+
+/**
+ * @typedef {Object} LedgerEntry
+ * @property {string} id                 Component ID, "repository:<id>" or "cluster:<type>:<name>"
+ * @property {'component'|'repository'|'cluster'} kind
+ * @property {string} name               Human readable name
+ * @property {string} recordedAt
+ * @property {string} [component]        Component ID (components)
+ * @property {string|null} [version]
+ * @property {string} [method]           Package manager ID, "homebrew-cask", "binary" or "repository"
+ * @property {string[]} [packages]       Package names for package manager installs
+ * @property {string[]} [paths]          Files placed directly, for "binary" and "repository"
+ * @property {string} [repository]       Repository ID (repositories)
+ * @property {string} [clusterType]      "kind", "minikube", "k3d" or "k3s" (clusters)
+ * @property {string} [cluster]          Cluster or profile name (clusters)
+ * @property {string} [runtime]          Container runtime ID its nodes run on (kind and k3d
+ *                                       clusters); Docker when absent
+ */
+
+// Reversal per install method; each takes the validated package list
+const REMOVE_PACKAGES = {
+  apt: packages => `sudo apt-get remove -y ${packages.join(' ')}`,
+  dnf: packages => `sudo dnf remove -y ${packages.join(' ')}`,
+  yum: packages => `sudo yum remove -y ${packages.join(' ')}`,
+  pacman: packages => `sudo pacman -R --noconfirm ${packages.join(' ')}`,
+  zypper: packages => `sudo zypper --non-interactive remove ${packages.join(' ')}`,
+  apk: packages => `sudo apk del ${packages.join(' ')}`,
+  homebrew: packages => `brew uninstall ${packages.join(' ')}`,
+  'homebrew-cask': packages => `brew uninstall --cask ${packages.join(' ')}`,
+  winget: packages => packages.map(id => `winget uninstall --id ${id} --silent`).join(' && '),
+  choco: packages => `choco uninstall ${packages.join(' ')} -y`
+};
+
+function lookup(table, key) {
+  return Object.prototype.hasOwnProperty.call(table, key) ? table[key] : null;
+}
+
+function readLedger(file = LEDGER_FILE) {
+  if (!fs.existsSync(file)) return [];
+  try {
+    const ledger = JSON.parse(fs.readFileSync(file, 'utf8'));
+    if (ledger.formatVersion !== LEDGER_FORMAT_VERSION || !Array.isArray(ledger.entries)) {
+      console.log(`Ignoring ledger ${file}: unsupported format`);
+      return [];
+    }
+    return ledger.entries;
+  } catch (error) {
+    console.log(`Failed to read ledger ${file}: ${error.message}`);
+    return [];
+  }
+}
+
+function writeLedger(entries, file) {
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(file, `${JSON.stringify({ formatVersion: LEDGER_FORMAT_VERSION, entries }, null, 2)}\n`);
+}
+
+// Adds an entry, replacing any earlier one with the same ID (a reinstall or a
+// recreated cluster)
+function recordEntry(entry, file = LEDGER_FILE) {
+  const entries = readLedger(file).filter(existing => existing.id !== entry.id);
+  try {
+    writeLedger([...entries, { ...entry, recordedAt: new Date().toISOString() }], file);
+  } catch (error) {
+    // Losing the record only costs an automatic uninstall later; don't fail the install
+    console.log(`Failed to record ${entry.id} in ledger: ${error.message}`);
+  }
+}
+
+function removeEntry(id, file = LEDGER_FILE) {
+  const entries = readLedger(file);
+  const remaining = entries.filter(entry => entry.id !== id);
+  if (remaining.length !== entries.length) writeLedger(remaining, file);
+}
+
+const CLUSTER_TYPE_NAMES = { kind: 'Kind', minikube: 'Minikube', k3d: 'k3d', k3s: 'k3s' };
+
+// `runtime` is the container runtime a kind or k3d cluster was created on; deleting it
+// later has to go through the same one
+function clusterEntry(clusterType, cluster, runtime = null) {
+  return {
+    id: `cluster:${clusterType}:${cluster}`,
+    kind: 'cluster',
+    clusterType,
+    cluster,
+    name: `${CLUSTER_TYPE_NAMES[clusterType]} cluster "${cluster}"`,
+    ...(runtime ? { runtime } : {})
+  };
+}
+
+// Builds the command that undoes an entry, or explains why it can't
+function uninstallCommand(entry) {
+  if (entry.kind === 'cluster') {
+    const runtime = getContainerRuntime(entry.runtime || DEFAULT_CONTAINER_RUNTIME);
+    if (!runtime || validateCluster(entry.clusterType, entry.cluster).length > 0) {
+      return { error: `Unrecognized cluster entry ${entry.id}` };
+    }
+    return { command: clusterCommand(entry.clusterType, 'delete', entry.cluster, [], runtime) };
+  }
+
+  if (entry.kind === 'repository') {
+    const paths = entry.paths || [];
+    if (paths.length === 0 || !paths.every(file => REPOSITORY_PATH_PATTERN.test(file))) {
+      return { error: `Unrecognized repository files for ${entry.name}` };
+    }
+    return { command: `sudo rm -f ${paths.map(file => `"${file}"`).join(' ')}` };
+  }
+
+  if (entry.method === 'binary') {
+    const paths = entry.paths || [];
+    if (paths.length === 0 || !paths.every(file => PATH_PATTERN.test(file))) {
+      return { error: `Unrecognized file list for ${entry.name}` };
+    }
+    return { command: `sudo rm -f ${paths.map(file => `"${file}"`).join(' ')}` };
+  }
+
+  const removePackages = lookup(REMOVE_PACKAGES, entry.method);
+  const packages = entry.packages || [];
+  if (!removePackages || packages.length === 0 || !packages.every(name => PACKAGE_PATTERN.test(name))) {
+    return { error: `Don't know how to uninstall ${entry.name} (installed with ${entry.method})` };
+  }
+  return { command: removePackages(packages) };
+}
+
+// Clusters go first while the tools that delete them are still there, then
+// components in the reverse of the order they went in
+function uninstallOrder(entries) {
+  const newestFirst = [...entries].reverse();
+  return [
+    ...newestFirst.filter(entry => entry.kind === 'cluster'),
+    ...newestFirst.filter(entry => entry.kind !== 'cluster')
+  ];
+}
+
+module.exports = {
+  LEDGER_FILE,
+  readLedger,
+  recordEntry,
+  removeEntry,
+  clusterEntry,
+  uninstallCommand,
+  uninstallOrder
+};
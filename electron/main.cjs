@@ -8,582 +8,31 @@ if (electronSquirrelStart) {
 
 // Only import Electron modules after checking squirrel events
 const { app, BrowserWindow, ipcMain, dialog } = require('electron');
-const { exec, spawn } = require('child_process');
 const os = require('os');
 const fs = require('fs');
 const path = require('path');
 const Store = require('electron-store');
+const { releaseArchitecture, resolveInstallPlan } = require('./components.cjs');
+const { loadVersionPins, saveVersionPins } = require('./version-pins.cjs');
+const { openBundle, describeBundle } = require('./bundle.cjs');
+const { validateKindConfig, renderKindConfig } = require('./kind-config.cjs');
+const { validateMinikubeOptions, withRuntimeDriver, buildMinikubeStartCommand } = require('./minikube-options.cjs');
+const { validateK3dOptions, buildK3dCreateCommand } = require('./k3d-options.cjs');
+const { DEFAULT_CONTAINER_RUNTIME, getContainerRuntime } = require('./runtimes.cjs');
+const { KubernetesInstaller, runningOperations, runOperation, cancelOperation } = require('./installer.cjs');
+const { renderScript } = require('./plan.cjs');
+const { COMMAND_TIMEOUT, validateCommand, buildCommand } = require('./command-registry.cjs');
+const { configureAuditLog, recordAudit } = require('./audit-log.cjs');
+const { readLedger, uninstallCommand, uninstallOrder } = require('./ledger.cjs');
+const { commandHistory } = require('./command-history.cjs');
+const { buildDiagnostics, writeDiagnosticsArchive } = require('./diagnostics.cjs');
 
 const store = new Store();
+// The only settings the renderer reads and writes directly; the rest of the store
+// (container runtime, offline bundle) goes through handlers that validate it
+const RENDERER_CONFIG_KEYS = ['wizardSession'];
 let mainWindow = null;
 
-class KubernetesInstaller {
-  constructor() {
-    this.platform = os.platform();
-    this.architecture = os.arch();
-    this.packageManager = this.detectPackageManager();
-    this.installationSteps = [];
-    this.currentStep = 0;
-  }
-
-  detectPackageManager() {
-    switch(this.platform) {
-      case 'darwin':
-        return 'homebrew';
-      case 'win32':
-        // On Windows, check for winget first, then chocolatey
-        return this.checkCommandSync('winget --version') ? 'winget' : 
-               this.checkCommandSync('choco --version') ? 'choco' : 'unknown';
-      case 'linux':
-        return this.detectLinuxPackageManager();
-      default:
-        return 'unknown';
-    }
-  }
-
-  detectLinuxPackageManager() {
-    if (fs.existsSync('/etc/debian_version')) return 'apt';
-    if (fs.existsSync('/etc/redhat-release')) return 'yum';
-    if (fs.existsSync('/etc/arch-release')) return 'pacman';
-    if (this.checkCommandSync('dnf --version')) return 'dnf';
-    return 'unknown';
-  }
-
-  checkCommandSync(command) {
-    try {
-      let fullCommand, shell, windowsVerbatimArguments;
-      
-      if (this.platform === 'win32') {
-        // On Windows, use cmd.exe with /c flag for better compatibility
-        // Escape special characters in the command
-        const escapedCommand = command.replace(/&/g, '^&').replace(/</g, '^<').replace(/>/g, '^>');
-        fullCommand = `cmd /c ${escapedCommand}`;
-        shell = 'cmd.exe';
-        windowsVerbatimArguments = true;
-      } else {
-        fullCommand = command;
-        shell = this.platform === 'win32' ? 'cmd.exe' : 'bash';
-      }
-      console.log(`Executing sync command: ${fullCommand}`);
-      require('child_process').execSync(fullCommand, { 
-        stdio: 'pipe',
-        shell: shell,
-        windowsVerbatimArguments: windowsVerbatimArguments,
-        env: { ...process.env }
-      });
-      return true;
-    } catch (error) {
-      console.log(`Sync command failed: ${error.message}`);
-      return false;
-    }
-  }
-
-  async checkCommand(command) {
-    return new Promise((resolve) => {
-      let fullCommand, shell, windowsVerbatimArguments;
-      
-      if (this.platform === 'win32') {
-        // On Windows, use cmd.exe with /c flag for better compatibility
-        // Escape special characters in the command
-        const escapedCommand = command.replace(/&/g, '^&').replace(/</g, '^<').replace(/>/g, '^>');
-        fullCommand = `cmd /c ${escapedCommand}`;
-        shell = 'cmd.exe';
-        windowsVerbatimArguments = true;
-      } else {
-        fullCommand = command;
-        shell = this.platform === 'win32' ? 'cmd.exe' : 'bash';
-      }
-      
-      console.log(`Executing async check command: ${fullCommand}`);
-
-      // Enhance environment for macOS to include Homebrew paths for check commands too
-      let enhancedEnv = { ...process.env };
-      if (this.platform === 'darwin') {
-        // Add common Homebrew paths to PATH
-        const homebrewPaths = [
-          '/opt/homebrew/bin',  // Apple Silicon Homebrew
-          '/usr/local/bin',     // Intel Homebrew
-          '/opt/homebrew/sbin',
-          '/usr/local/sbin'
-        ];
-        
-        let newPath = enhancedEnv.PATH || enhancedEnv.Path || '';
-        homebrewPaths.forEach(homebrewPath => {
-          if (!newPath.includes(homebrewPath)) {
-            newPath = `${homebrewPath}:${newPath}`;
-          }
-        });
-        enhancedEnv.PATH = newPath;
-        enhancedEnv.Path = newPath; // For compatibility
-      }
-
-      exec(fullCommand, { 
-        shell: shell,
-        windowsVerbatimArguments: windowsVerbatimArguments,
-        timeout: 10000, // Increased timeout for Windows commands
-        env: enhancedEnv // Enhanced environment with Homebrew paths
-      }, (error, stdout, stderr) => {
-        console.log(`Check command result: success=${!error}, version="${stdout.trim()}", error="${error ? stderr : null}"`);
-        resolve({
-          installed: !error,
-          version: error ? null : stdout.trim(),
-          error: error ? stderr : null
-        });
-      });
-    });
-  }
-
-  async checkPrerequisites() {
-    const checks = {
-      docker: await this.checkCommand('docker --version'),
-      kubectl: await this.checkCommand('kubectl version --client'),
-      helm: await this.checkCommand('helm version'),
-      git: await this.checkCommand('git --version'),
-      minikube: await this.checkCommand('minikube version'),
-      kind: await this.checkCommand('kind version')
-    };
-    return checks;
- }
-
-  async executeCommand(command, options = {}) {
-    return new Promise((resolve) => {
-      let fullCommand, shell, windowsVerbatimArguments;
-
-      if (this.platform === 'win32') {
-        // On Windows, use cmd.exe with /c flag for better compatibility
-        // Also escape special characters and use proper quoting
-        fullCommand = `cmd /c ${command}`;
-        shell = 'cmd.exe';
-        windowsVerbatimArguments = true;
-      } else {
-        fullCommand = command;
-        shell = this.platform === 'win32' ? 'cmd.exe' : 'bash';
-      }
-
-      console.log(`Executing command: ${fullCommand}`);
-
-      // Enhance environment for macOS to include Homebrew paths
-      let enhancedEnv = { ...process.env };
-      if (this.platform === 'darwin') {
-        // Add common Homebrew paths to PATH
-        const homebrewPaths = [
-          '/opt/homebrew/bin',  // Apple Silicon Homebrew
-          '/usr/local/bin',     // Intel Homebrew
-          '/opt/homebrew/sbin',
-          '/usr/local/sbin'
-        ];
-        
-        let newPath = enhancedEnv.PATH || enhancedEnv.Path || '';
-        homebrewPaths.forEach(homebrewPath => {
-          if (!newPath.includes(homebrewPath)) {
-            newPath = `${homebrewPath}:${newPath}`;
-          }
-        });
-        enhancedEnv.PATH = newPath;
-        enhancedEnv.Path = newPath; // For compatibility
-      }
-
-      const child = exec(fullCommand, {
-        shell: shell,
-        windowsVerbatimArguments: windowsVerbatimArguments,
-        maxBuffer: 1024 * 1024 * 10,
-        timeout: options.timeout || 300000, // Increased default timeout to 5 minutes
-        env: enhancedEnv, // Enhanced environment with Homebrew paths
-        ...options
-      }, (error, stdout, stderr) => {
-        console.log(`Command completed. Success: ${!error}, Error: ${error ? error.message : 'none'}`);
-        console.log(`Stdout: ${stdout.substring(0, 500)}...`); // Limit output length
-        if (stderr) console.log(`Stderr: ${stderr.substring(0, 500)}...`); // Limit output length
-
-        resolve({
-          success: !error,
-          output: stdout,
-          error: stderr,
-          code: error ? error.code : 0
-        });
-      });
-
-      if (options.onData) {
-        child.stdout.on('data', (data) => {
-          console.log(`Command output: ${data.toString().substring(0, 200)}...`);
-          options.onData(data.toString());
-        });
-        child.stderr.on('data', (data) => {
-          console.error(`Command error: ${data.toString().substring(0, 200)}...`);
-          options.onData(data.toString());
-        });
-      }
-    });
-  }
-
-  async installHomebrew() {
-    if (this.platform !== 'darwin') {
-      return { success: true, skip: true, message: 'Not macOS, skipping Homebrew installation' };
-    }
-
-    const homebrewCheck = await this.checkCommand('brew --version');
-    if (homebrewCheck.installed) {
-      return { success: true, skip: true, message: 'Homebrew already installed' };
-    }
-
-    const script = '/bin/bash -c "$(curl -fsSL https://raw.githubusercontent.com/Homebrew/install/HEAD/install.sh)"';
-    const result = await this.executeCommand(script, { timeout: 600000 });
-
-    return {
-      success: result.success,
-      message: result.success ? 'Homebrew installed successfully' : 'Homebrew installation failed',
-      output: result.output,
-      error: result.error
-    };
-  }
-
-  async updatePackageManager() {
-    let command = '';
-
-    switch(this.packageManager) {
-      case 'homebrew':
-        command = 'brew update';
-        break;
-      case 'apt':
-        command = 'sudo apt update';
-        break;
-      case 'yum':
-        command = 'sudo yum update -y';
-        break;
-      case 'dnf':
-        command = 'sudo dnf update -y';
-        break;
-      case 'pacman':
-        command = 'sudo pacman -Sy';
-        break;
-      case 'winget':
-        command = 'winget upgrade --all --silent'; // Added silent flag for better Windows experience
-        break;
-      case 'choco':
-        command = 'choco upgrade all -y';
-        break;
-      default:
-        return { success: false, message: 'Unknown package manager' };
-    }
-
-    const result = await this.executeCommand(command);
-    return {
-      success: result.success,
-      message: result.success ? 'Package manager updated' : 'Failed to update package manager',
-      output: result.output,
-      error: result.error
-    };
-  }
-
-  async installDocker() {
-    let command = '';
-
-    // Log the detected OS for debugging
-    console.log(`Installing Docker for platform: ${this.platform}`);
-
-    switch(this.platform) {
-      case 'darwin': // macOS
-        console.log('Using Homebrew to install Docker Desktop for Mac...');
-        command = 'brew install --cask docker';
-        break;
-      case 'win32': // Windows
-        console.log(`Using ${this.packageManager} to install Docker Desktop for Windows...`);
-        // Use more specific package IDs and handle already installed case
-        // Note: winget doesn't have --overwrite, so we just use --force
-        command = this.packageManager === 'winget'
-          ? 'winget install --id Docker.DockerDesktop --accept-package-agreements --accept-source-agreements --silent --force'
-          : 'choco install docker-desktop -y --force';
-        break;
-      case 'linux': // Linux
-        console.log('Downloading and installing Docker for Linux...');
-        command = 'curl -fsSL https://get.docker.com -o get-docker.sh && sudo sh get-docker.sh && rm get-docker.sh';
-        break;
-      default:
-        return {
-          success: false,
-          message: `Unsupported platform: ${this.platform}`,
-          output: '',
-          error: `Installation not supported on ${this.platform}`
-        };
-    }
-
-    const result = await this.executeCommand(command, { timeout: 600000 });
-
-    // Check if the failure was due to already installed package
-    if (!result.success) {
-      if (result.error && (
-        result.error.includes("already installed") || 
-        result.error.includes("No available upgrade") ||
-        result.error.includes("already an App at") ||
-        result.error.includes("/Applications/Docker.app")
-      )) {
-        console.log("Docker is already installed, treating as success");
-        return {
-          success: true,
-          message: 'Docker is already installed',
-          output: result.output,
-          error: result.error
-        };
-      }
-    }
-
-    return {
-      success: result.success,
-      message: result.success ? 'Docker installed successfully' : 'Docker installation failed',
-      output: result.output,
-      error: result.error
-    };
-  }
-
-  async installKubectl() {
-    let command = '';
-
-    // Log the detected OS for debugging
-    console.log(`Installing kubectl for platform: ${this.platform}`);
-
-    switch(this.platform) {
-      case 'darwin': // macOS
-        console.log('Using Homebrew to install kubectl for Mac...');
-        command = 'brew install kubectl';
-        break;
-      case 'win32': // Windows
-        console.log(`Using ${this.packageManager} to install kubectl for Windows...`);
-        // Use more specific installation commands for Windows
-        // Note: winget doesn't have --overwrite, so we just use --force
-        command = this.packageManager === 'winget'
-          ? 'winget install --id Kubernetes.kubectl --accept-package-agreements --accept-source-agreements --silent --force'
-          : 'choco install kubernetes-cli -y';
-        break;
-      case 'linux': // Linux
-        console.log('Downloading and installing kubectl for Linux...');
-        if (this.packageManager === 'apt') {
-          command = 'sudo apt-get update && sudo apt-get install -y kubectl';
-        } else {
-          command = 'curl -LO "https://dl.k8s.io/release/$(curl -L -s https://dl.k8s.io/release/stable.txt)/bin/linux/amd64/kubectl" && chmod +x kubectl && sudo install kubectl /usr/local/bin/ && rm kubectl';
-        }
-        break;
-      default:
-        return {
-          success: false,
-          message: `Unsupported platform: ${this.platform}`,
-          output: '',
-          error: `Installation not supported on ${this.platform}`
-        };
-    }
-
-    const result = await this.executeCommand(command);
-    
-    // Check if the failure was due to already installed package
-    if (!result.success) {
-      if (result.error && (result.error.includes("already installed") || result.error.includes("No available upgrade"))) {
-        console.log("kubectl is already installed, treating as success");
-        return {
-          success: true,
-          message: 'kubectl is already installed',
-          output: result.output,
-          error: result.error
-        };
-      }
-    }
-    
-    return {
-      success: result.success,
-      message: result.success ? 'kubectl installed successfully' : 'kubectl installation failed',
-      output: result.output,
-      error: result.error
-    };
-  }
-
-  async installMinikube() {
-    let command = '';
-
-    // Log the detected OS for debugging
-    console.log(`Installing Minikube for platform: ${this.platform}`);
-
-    switch(this.platform) {
-      case 'darwin': // macOS
-        console.log('Using Homebrew to install Minikube for Mac...');
-        command = 'brew install minikube';
-        break;
-      case 'win32': // Windows
-        console.log(`Using ${this.packageManager} to install Minikube for Windows...`);
-        // Use more specific installation commands for Windows
-        // Note: winget doesn't have --overwrite, so we just use --force
-        command = this.packageManager === 'winget'
-          ? 'winget install --id Kubernetes.minikube --accept-package-agreements --accept-source-agreements --silent --force'
-          : 'choco install minikube -y';
-        break;
-      case 'linux': // Linux
-        console.log('Downloading and installing Minikube for Linux...');
-        command = 'curl -LO https://storage.googleapis.com/minikube/releases/latest/minikube-linux-amd64 && chmod +x minikube-linux-amd64 && sudo install minikube-linux-amd64 /usr/local/bin/minikube && rm minikube-linux-amd64';
-        break;
-      default:
-        return {
-          success: false,
-          message: `Unsupported platform: ${this.platform}`,
-          output: '',
-          error: `Installation not supported on ${this.platform}`
-        };
-    }
-
-    const result = await this.executeCommand(command);
-    
-    // Check if the failure was due to already installed package
-    if (!result.success) {
-      if (result.error && (result.error.includes("already installed") || result.error.includes("No available upgrade"))) {
-        console.log("Minikube is already installed, treating as success");
-        return {
-          success: true,
-          message: 'Minikube is already installed',
-          output: result.output,
-          error: result.error
-        };
-      }
-    }
-    
-    return {
-      success: result.success,
-      message: result.success ? 'Minikube installed successfully' : 'Minikube installation failed',
-      output: result.output,
-      error: result.error
-    };
-  }
-
-  async installKind() {
-    let command = '';
-
-    // Log the detected OS for debugging
-    console.log(`Installing Kind for platform: ${this.platform}`);
-
-    switch(this.platform) {
-      case 'darwin': // macOS
-        console.log('Using Homebrew to install Kind for Mac...');
-        command = 'brew install kind';
-        break;
-      case 'win32': // Windows
-        console.log(`Using ${this.packageManager} to install Kind for Windows...`);
-        // Use more specific installation commands for Windows
-        // Note: winget doesn't have --overwrite, so we just use --force
-        command = this.packageManager === 'winget'
-          ? 'winget install --id Kubernetes.Kind --accept-package-agreements --accept-source-agreements --silent --force'
-          : 'choco install kind -y';
-        break;
-      case 'linux': // Linux
-        console.log('Downloading and installing Kind for Linux...');
-        command = 'curl -Lo kind "https://kind.sigs.k8s.io/dl/latest/kind-linux-amd64" && chmod +x kind && sudo install kind /usr/local/bin/ && rm kind';
-        break;
-      default:
-        return {
-          success: false,
-          message: `Unsupported platform: ${this.platform}`,
-          output: '',
-          error: `Installation not supported on ${this.platform}`
-        };
-    }
-
-    const result = await this.executeCommand(command);
-    
-    // Check if the failure was due to already installed package
-    if (!result.success) {
-      if (result.error && (result.error.includes("already installed") || result.error.includes("No available upgrade"))) {
-        console.log("Kind is already installed, treating as success");
-        return {
-          success: true,
-          message: 'Kind is already installed',
-          output: result.output,
-          error: result.error
-        };
-      }
-    }
-    
-    return {
-      success: result.success,
-      message: result.success ? 'Kind installed successfully' : 'Kind installation failed',
-      output: result.output,
-      error: result.error
-    };
-  }
-
-  async installHelm() {
-    let command = '';
-
-    // Log the detected OS for debugging
-    console.log(`Installing Helm for platform: ${this.platform}`);
-
-    switch(this.platform) {
-      case 'darwin': // macOS
-        console.log('Using Homebrew to install Helm for Mac...');
-        command = 'brew install helm';
-        break;
-      case 'win32': // Windows
-        console.log(`Using ${this.packageManager} to install Helm for Windows...`);
-        // Use more specific installation commands for Windows
-        // Note: winget doesn't have --overwrite, so we just use --force
-        command = this.packageManager === 'winget'
-          ? 'winget install --id Helm.Helm --accept-package-agreements --accept-source-agreements --silent --force'
-          : 'choco install kubernetes-helm -y';
-        break;
-      case 'linux': // Linux
-        console.log('Downloading and installing Helm for Linux...');
-        command = 'curl https://raw.githubusercontent.com/helm/helm/main/scripts/get-helm-3 | bash';
-        break;
-      default:
-        return {
-          success: false,
-          message: `Unsupported platform: ${this.platform}`,
-          output: '',
-          error: `Installation not supported on ${this.platform}`
-        };
-    }
-
-    const result = await this.executeCommand(command);
-    
-    // Check if the failure was due to already installed package
-    if (!result.success) {
-      if (result.error && (result.error.includes("already installed") || result.error.includes("No available upgrade"))) {
-        console.log("Helm is already installed, treating as success");
-        return {
-          success: true,
-          message: 'Helm is already installed',
-          output: result.output,
-          error: result.error
-        };
-      }
-    }
-    
-    return {
-      success: result.success,
-      message: result.success ? 'Helm installed successfully' : 'Helm installation failed',
-      output: result.output,
-      error: result.error
-    };
-  }
-
-  async startMinikube() {
-    const result = await this.executeCommand('minikube start', { timeout: 600000 });
-    return {
-      success: result.success,
-      message: result.success ? 'Minikube cluster started' : 'Failed to start Minikube',
-      output: result.output,
-      error: result.error
-    };
-  }
-
-  async verifyInstallation() {
-    const checks = await this.checkPrerequisites();
-    const results = {
-      docker: checks.docker.installed,
-      kubectl: checks.kubectl.installed,
-      cluster: false
-    };
-
-    const clusterCheck = await this.executeCommand('kubectl cluster-info');
-    results.cluster = clusterCheck.success;
-
-    return results;
-  }
-}
-
 function createWindow() {
   mainWindow = new BrowserWindow({
     width: 1200,
@@ -625,6 +74,7 @@ function createWindow() {
 
 // Initialize Electron app
 app.whenReady().then(() => {
+  configureAuditLog(path.join(app.getPath('userData'), 'audit.log'));
   createWindow();
 
   app.on('activate', () => {
@@ -634,6 +84,13 @@ app.whenReady().then(() => {
   });
 });
 
+// Don't leave installs running in the background once the window is gone
+app.on('before-quit', () => {
+  pendingPasswordRequests.forEach(resolve => resolve(null));
+  pendingPasswordRequests.clear();
+  runningOperations.forEach((operation, operationId) => cancelOperation(operationId));
+});
+
 app.on('window-all-closed', () => {
   if (process.platform !== 'darwin') {
     app.quit();
@@ -656,70 +113,441 @@ ipcMain.handle('detect-package-manager', async () => {
   const installer = new KubernetesInstaller();
   return {
     packageManager: installer.packageManager,
-    platform: installer.platform
+    platform: installer.platform,
+    distro: installer.distro,
+    packageManagers: installer.packageManagers
   };
 });
 
+// The offline bundle chosen in the wizard. Opened lazily and kept until the stored
+// path changes; a bundle that can no longer be opened is treated as absent.
+let openedBundle = null;
+
+function getActiveBundle() {
+  const bundleLocation = store.get('offlineBundle');
+  if (!bundleLocation) return null;
+  if (openedBundle && openedBundle.path === bundleLocation) return openedBundle;
+
+  try {
+    openedBundle = openBundle(bundleLocation);
+  } catch (error) {
+    console.log(`Failed to open offline bundle: ${error.message}`);
+    openedBundle = null;
+  }
+  return openedBundle;
+}
+
+// The container runtime chosen in the wizard (see runtimes.cjs); Docker until one is chosen
+function getContainerRuntimeId() {
+  const id = store.get('containerRuntime');
+  return getContainerRuntime(id) ? id : DEFAULT_CONTAINER_RUNTIME;
+}
+
+ipcMain.handle('get-container-runtime', async () => {
+  const id = store.get('containerRuntime');
+  return getContainerRuntime(id) ? id : null;
+});
+
+ipcMain.handle('set-container-runtime', async (event, id) => {
+  const runtime = getContainerRuntime(id);
+  if (!runtime) {
+    return { success: false, message: `Unknown container runtime: ${id}` };
+  }
+  store.set('containerRuntime', id);
+  return { success: true, message: `Clusters will run on ${runtime.name}` };
+});
+
 ipcMain.handle('check-prerequisites', async () => {
   const installer = new KubernetesInstaller();
-  return await installer.checkPrerequisites();
+  const bundle = getActiveBundle();
+  // In offline mode the bundle's versions are the pins
+  const versionPins = bundle ? describeBundle(bundle).components : loadVersionPins(store);
+  return await installer.checkPrerequisites(versionPins);
 });
 
-ipcMain.handle('install-homebrew', async () => {
-  const installer = new KubernetesInstaller();
-  return await installer.installHomebrew();
+ipcMain.handle('resolve-install-plan', async (event, selected, installed) => {
+  try {
+    return { success: true, message: 'Plan resolved', plan: resolveInstallPlan(selected, installed) };
+  } catch (error) {
+    return { success: false, message: error.message, plan: [] };
+  }
 });
 
-ipcMain.handle('update-package-manager', async () => {
-  const installer = new KubernetesInstaller();
-  return await installer.updatePackageManager();
+// The same plan options the CLI uses: Homebrew first when it's the package manager,
+// and the cluster the wizard will create, with the options chosen for it
+function planOptions(options = {}) {
+  return {
+    homebrew: true,
+    clusterType: options.clusterType,
+    kind: options.kind,
+    minikube: options.minikube,
+    k3d: options.k3d
+  };
+}
+
+// Dry run of the installation step: nothing is executed, only described
+ipcMain.handle('plan-installation', async (event, componentIds, checks, options) => {
+  const installer = new KubernetesInstaller({ bundle: getActiveBundle(), containerRuntime: getContainerRuntimeId() });
+  return installer.planInstallation(componentIds, checks, planOptions(options));
 });
 
-ipcMain.handle('install-component', async (event, component) => {
-  const installer = new KubernetesInstaller();
+// The script is rendered here from the same plan rather than accepted from the
+// renderer, so what gets saved is exactly what the installer would run
+ipcMain.handle('export-plan-script', async (event, componentIds, checks, options) => {
+  const installer = new KubernetesInstaller({ bundle: getActiveBundle(), containerRuntime: getContainerRuntimeId() });
+  const plan = installer.planInstallation(componentIds, checks, planOptions(options));
+  const extension = plan.platform === 'win32' ? 'cmd' : 'sh';
 
-  switch(component) {
-    case 'docker':
-      return await installer.installDocker();
-    case 'kubectl':
-      return await installer.installKubectl();
-    case 'minikube':
-      return await installer.installMinikube();
-    case 'kind':
-      return await installer.installKind();
-    case 'helm':
-      return await installer.installHelm();
-    default:
-      return { success: false, message: 'Unknown component' };
+  const selection = await dialog.showSaveDialog(mainWindow, {
+    defaultPath: `k8s-install-plan.${extension}`,
+    filters: [{ name: 'Scripts', extensions: [extension] }]
+  });
+  if (selection.canceled || !selection.filePath) {
+    return { success: false, skip: true, message: 'Export cancelled' };
+  }
+
+  try {
+    fs.writeFileSync(selection.filePath, renderScript(plan), { mode: 0o755 });
+  } catch (error) {
+    return { success: false, message: `Failed to save plan: ${error.message}` };
   }
+  return { success: true, message: `Plan saved to ${selection.filePath}` };
 });
 
-ipcMain.handle('start-cluster', async (event, clusterType) => {
- const installer = new KubernetesInstaller();
+ipcMain.handle('get-offline-bundle', async () => {
+  const bundle = getActiveBundle();
+  return bundle ? describeBundle(bundle) : null;
+});
+
+ipcMain.handle('select-offline-bundle', async (event, kind) => {
+  const selection = await dialog.showOpenDialog(mainWindow, kind === 'archive'
+    ? { properties: ['openFile'], filters: [{ name: 'Bundle archives', extensions: ['tar', 'gz', 'tgz'] }] }
+    : { properties: ['openDirectory'] });
+
+  if (selection.canceled || selection.filePaths.length === 0) {
+    return { success: false, skip: true, message: 'No bundle selected' };
+  }
 
-  if (clusterType === 'minikube') {
-    return await installer.startMinikube();
-  } else if (clusterType === 'kind') {
-    const result = await installer.executeCommand('kind create cluster');
+  let bundle;
+  try {
+    bundle = openBundle(selection.filePaths[0]);
+  } catch (error) {
+    return { success: false, message: error.message };
+  }
+
+  const hostArch = releaseArchitecture(os.arch());
+  if (bundle.manifest.platform !== os.platform() || bundle.manifest.arch !== hostArch) {
     return {
-      success: result.success,
-      message: result.success ? 'Kind cluster created' : 'Failed to create Kind cluster',
-      output: result.output,
-      error: result.error
+      success: false,
+      message: `Bundle was built for ${bundle.manifest.platform}/${bundle.manifest.arch}, this machine is ${os.platform()}/${hostArch}`
     };
   }
 
-  return { success: false, message: 'Unknown cluster type' };
+  store.set('offlineBundle', bundle.path);
+  openedBundle = bundle;
+  return { success: true, message: 'Offline bundle selected', bundle: describeBundle(bundle) };
+});
+
+ipcMain.handle('clear-offline-bundle', async () => {
+  store.delete('offlineBundle');
+  openedBundle = null;
+  return { success: true, message: 'Offline bundle cleared' };
+});
+
+ipcMain.handle('load-version-pins', async () => {
+  return loadVersionPins(store);
+});
+
+ipcMain.handle('save-version-pins', async (event, pins) => {
+  return saveVersionPins(store, pins);
+});
+
+// Relays command output to the renderer that started the operation, tagged with
+// the component (or cluster type) that produced it and the operation's ID
+function forwardOutput(event, component, operationId) {
+  return ({ stream, line }) => {
+    if (event.sender.isDestroyed()) return;
+    event.sender.send('command-output', { component, operationId: operationId || null, stream, line });
+  };
+}
+
+// Password prompts shown in the renderer and not yet answered, keyed by request ID
+const pendingPasswordRequests = new Map();
+let nextPasswordRequestId = 1;
+
+// Asks the renderer that started the operation for the sudo password. Resolves with
+// null when the user cancels or the window is gone. The password only ever travels
+// renderer -> main; it is never sent back or logged.
+function requestPasswordFrom(event, component) {
+  return ({ attempt, error }) => new Promise((resolve) => {
+    if (event.sender.isDestroyed()) {
+      resolve(null);
+      return;
+    }
+    const requestId = nextPasswordRequestId++;
+    pendingPasswordRequests.set(requestId, resolve);
+    event.sender.send('elevation-request', { requestId, component, attempt, error });
+  });
+}
+
+ipcMain.handle('respond-to-elevation', async (event, requestId, password) => {
+  const resolve = pendingPasswordRequests.get(requestId);
+  if (!resolve) {
+    return { success: false, message: `No pending password request with ID ${requestId}` };
+  }
+
+  pendingPasswordRequests.delete(requestId);
+  resolve(typeof password === 'string' ? password : null);
+  return { success: true, message: typeof password === 'string' ? 'Password submitted' : 'Password prompt cancelled' };
+});
+
+ipcMain.handle('install-homebrew', async (event, options = {}) => {
+  return await runOperation(options.operationId, 'Homebrew installation', async (operation) => {
+    const installer = new KubernetesInstaller({
+      onOutput: forwardOutput(event, 'homebrew', options.operationId),
+      requestPassword: requestPasswordFrom(event, 'homebrew'),
+      operation
+    });
+    return await installer.installHomebrew();
+  });
+});
+
+ipcMain.handle('update-package-manager', async () => {
+  const installer = new KubernetesInstaller({ bundle: getActiveBundle() });
+  return await installer.updatePackageManager();
+});
+
+ipcMain.handle('install-component', async (event, component, options = {}) => {
+  return await runOperation(options.operationId, `${component} installation`, async (operation) => {
+    const installer = new KubernetesInstaller({
+      onOutput: forwardOutput(event, component, options.operationId),
+      requestPassword: requestPasswordFrom(event, component),
+      operation,
+      bundle: getActiveBundle()
+    });
+    return await installer.installComponent(component, { version: options.version });
+  });
+});
+
+ipcMain.handle('start-cluster', async (event, clusterType, options = {}) => {
+  return await runOperation(options.operationId, `${clusterType} cluster start`, async (operation) => {
+    const installer = new KubernetesInstaller({
+      onOutput: forwardOutput(event, clusterType, options.operationId),
+      requestPassword: requestPasswordFrom(event, clusterType),
+      operation,
+      bundle: getActiveBundle(),
+      containerRuntime: getContainerRuntimeId()
+    });
+    return await installer.startCluster(clusterType, { kind: options.kind, minikube: options.minikube, k3d: options.k3d });
+  });
+});
+
+// Clusters already on this machine, for the cluster manager. Status comes from the
+// tools themselves, so clusters created outside the installer show up too.
+ipcMain.handle('list-clusters', async () => {
+  const installer = new KubernetesInstaller({ containerRuntime: getContainerRuntimeId() });
+  return await installer.listClusters();
+});
+
+// Stop, start and delete stream their output tagged with the cluster's ID
+function manageCluster(event, action, clusterType, name, options = {}) {
+  const id = `${clusterType}:${name}`;
+  return runOperation(options.operationId, `${id} ${action}`, async (operation) => {
+    const installer = new KubernetesInstaller({
+      onOutput: forwardOutput(event, id, options.operationId),
+      requestPassword: requestPasswordFrom(event, id),
+      operation,
+      containerRuntime: getContainerRuntimeId()
+    });
+    return await installer.manageCluster(action, clusterType, name);
+  });
+}
+
+ipcMain.handle('stop-cluster', async (event, clusterType, name, options) => {
+  return await manageCluster(event, 'stop', clusterType, name, options);
+});
+
+ipcMain.handle('start-existing-cluster', async (event, clusterType, name, options) => {
+  return await manageCluster(event, 'start', clusterType, name, options);
+});
+
+ipcMain.handle('delete-cluster', async (event, clusterType, name, options) => {
+  return await manageCluster(event, 'delete', clusterType, name, options);
+});
+
+ipcMain.handle('use-cluster-context', async (event, clusterType, name) => {
+  const installer = new KubernetesInstaller();
+  return await installer.useClusterContext(clusterType, name);
+});
+
+// Everything the installer recorded, in the order uninstalling would remove it, with
+// the command that would do it (or why there isn't one)
+ipcMain.handle('get-install-ledger', async () => {
+  return uninstallOrder(readLedger()).map(entry => ({ ...entry, ...uninstallCommand(entry) }));
+});
+
+ipcMain.handle('uninstall-entry', async (event, entryId, options = {}) => {
+  return await runOperation(options.operationId, `${entryId} uninstall`, async (operation) => {
+    const installer = new KubernetesInstaller({
+      onOutput: forwardOutput(event, entryId, options.operationId),
+      requestPassword: requestPasswordFrom(event, entryId),
+      operation
+    });
+    return await installer.uninstallEntry(entryId);
+  });
+});
+
+ipcMain.handle('preview-kind-config', async (event, kindOptions) => {
+  const errors = validateKindConfig(kindOptions);
+  return { errors, yaml: errors.length === 0 ? renderKindConfig(kindOptions) : null };
+});
+
+ipcMain.handle('preview-minikube-start', async (event, minikubeOptions) => {
+  const runtime = getContainerRuntime(getContainerRuntimeId());
+  const options = withRuntimeDriver(minikubeOptions, runtime);
+  const errors = validateMinikubeOptions(options, os.platform(), runtime);
+  return { errors, command: errors.length === 0 ? buildMinikubeStartCommand(options, os.platform()) : null };
+});
+
+ipcMain.handle('preview-k3d-create', async (event, k3dOptions) => {
+  const runtime = getContainerRuntime(getContainerRuntimeId());
+  const errors = validateK3dOptions(k3dOptions, os.platform(), runtime);
+  return { errors, command: errors.length === 0 ? buildK3dCreateCommand(k3dOptions, runtime) : null };
+});
+
+ipcMain.handle('cancel-operation', async (event, operationId) => {
+  return cancelOperation(operationId);
+});
+
+// The log panel's contents, formatted by the renderer
+ipcMain.handle('save-log', async (event, contents) => {
+  if (typeof contents !== 'string') return { success: false, message: 'Nothing to save' };
+
+  const timestamp = new Date().toISOString().replace(/[-:]/g, '').replace('T', '-').slice(0, 15);
+  const selection = await dialog.showSaveDialog(mainWindow, {
+    defaultPath: `k8s-installer-${timestamp}.log`,
+    filters: [{ name: 'Log files', extensions: ['log', 'txt'] }]
+  });
+  if (selection.canceled || !selection.filePath) {
+    return { success: false, skip: true, message: 'Save cancelled' };
+  }
+
+  try {
+    fs.writeFileSync(selection.filePath, contents);
+  } catch (error) {
+    return { success: false, message: `Failed to save log: ${error.message}` };
+  }
+  return { success: true, message: `Log saved to ${selection.filePath}` };
+});
+
+// Kept for diagnostics exports
+let lastPreflight = null;
+let lastVerification = null;
+
+// Before a runtime is chosen the checks run for the stored one; Review Plan runs them
+// again for the runtime the plan installs
+ipcMain.handle('run-preflight-checks', async (event, runtimeId) => {
+  const containerRuntime = getContainerRuntime(runtimeId) ? runtimeId : getContainerRuntimeId();
+  const installer = new KubernetesInstaller({ containerRuntime });
+  lastPreflight = await installer.runPreflightChecks();
+  return lastPreflight;
 });
 
 ipcMain.handle('verify-installation', async () => {
+  const installer = new KubernetesInstaller({ containerRuntime: getContainerRuntimeId() });
+  lastVerification = await installer.verifyInstallation();
+  return lastVerification;
+});
+
+// The renderer supplies what only the wizard knows (what it detected, its log); the
+// command history, verification report and environment come from here. Everything
+// is redacted before it's written.
+ipcMain.handle('export-diagnostics', async (event, report = {}) => {
+  const timestamp = new Date().toISOString().replace(/[-:]/g, '').replace('T', '-').slice(0, 15);
+  const selection = await dialog.showSaveDialog(mainWindow, {
+    defaultPath: `k8s-installer-diagnostics-${timestamp}.tar.gz`,
+    filters: [{ name: 'Archives', extensions: ['tar.gz', 'tgz'] }]
+  });
+  if (selection.canceled || !selection.filePath) {
+    return { success: false, skip: true, message: 'Export cancelled' };
+  }
+
+  try {
+    writeDiagnosticsArchive(selection.filePath, buildDiagnostics({
+      system: { osInfo: report.osInfo || null, packageManager: report.pmInfo || null },
+      appVersion: app.getVersion(),
+      prerequisites: report.prerequisites || null,
+      logs: Array.isArray(report.logs) ? report.logs : [],
+      commands: commandHistory(),
+      preflight: lastPreflight,
+      verification: lastVerification,
+      env: process.env
+    }));
+  } catch (error) {
+    return { success: false, message: `Failed to export diagnostics: ${error.message}` };
+  }
+  return { success: true, message: `Diagnostics saved to ${selection.filePath}` };
+});
+
+// Runs one of the named operations in command-registry.cjs. Requests that don't
+// match the registry are refused and recorded, since they can only come from
+// something other than the wizard's own code.
+ipcMain.handle('run-command', async (event, name, args = {}) => {
+  const errors = validateCommand(name, args);
+  if (errors.length > 0) {
+    recordAudit({ source: 'renderer', operation: name, rejected: errors.join('; ') });
+    return { success: false, message: `Command ${name} refused`, error: errors.join('\n') };
+  }
+
   const installer = new KubernetesInstaller();
-  return await installer.verifyInstallation();
+  const result = await installer.executeCommand(buildCommand(name, args), {
+    timeout: COMMAND_TIMEOUT,
+    audit: { source: 'renderer', operation: name }
+  });
+  return {
+    success: result.success,
+    message: result.success ? `${name} succeeded` : `${name} failed`,
+    output: result.output,
+    error: result.error
+  };
+});
+
+// Free-form shell for troubleshooting. Off until the user agrees in a native dialog,
+// which the renderer can't answer on its own, and only until the app quits.
+let advancedShellEnabled = false;
+
+ipcMain.handle('enable-advanced-shell', async () => {
+  if (advancedShellEnabled) return { success: true, message: 'Advanced shell already enabled' };
+
+  const { response } = await dialog.showMessageBox(mainWindow, {
+    type: 'warning',
+    buttons: ['Cancel', 'Enable'],
+    defaultId: 0,
+    cancelId: 0,
+    title: 'Enable Advanced Shell',
+    message: 'Allow the installer window to run any shell command?',
+    detail: 'Commands run as your user until the installer quits, and each one is recorded in the audit log. ' +
+      'Only enable this if you need it for troubleshooting.'
+  });
+  advancedShellEnabled = response === 1;
+  recordAudit({ source: 'renderer', operation: 'enable-advanced-shell', granted: advancedShellEnabled });
+
+  return advancedShellEnabled
+    ? { success: true, message: 'Advanced shell enabled for this session' }
+    : { success: false, message: 'Advanced shell not enabled' };
 });
 
-ipcMain.handle('execute-command', async (event, command) => {
+ipcMain.handle('run-shell-command', async (event, command) => {
+  if (!advancedShellEnabled) {
+    recordAudit({ source: 'renderer', operation: 'advanced-shell', command, rejected: 'advanced shell not enabled' });
+    return { success: false, message: 'Advanced shell is not enabled' };
+  }
+  if (typeof command !== 'string' || !command.trim()) {
+    return { success: false, message: 'No command given' };
+  }
+
   const installer = new KubernetesInstaller();
-  return await installer.executeCommand(command);
+  return await installer.executeCommand(command, { audit: { source: 'renderer', operation: 'advanced-shell' } });
 });
 
 ipcMain.handle('show-dialog', async (event, options) => {
@@ -727,10 +555,13 @@ ipcMain.handle('show-dialog', async (event, options) => {
 });
 
 ipcMain.handle('save-config', async (event, key, value) => {
+  if (!RENDERER_CONFIG_KEYS.includes(key)) {
+    return { success: false, message: `Unknown setting: ${key}` };
+  }
   store.set(key, value);
   return { success: true };
 });
 
 ipcMain.handle('load-config', async (event, key) => {
-  return store.get(key);
+  return RENDERER_CONFIG_KEYS.includes(key) ? store.get(key) : undefined;
 });
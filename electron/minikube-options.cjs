@@ -0,0 +1,108 @@
+// Turns the wizard's minikube form into `minikube start` flags. Values come from the
+// renderer, so each one is checked against what minikube accepts before it is placed
+// on a command line.
+const { normalizeVersion } = require('./version-pins.cjs');
+const { driverRefusal } = require('./runtimes.cjs');
+
+const DRIVERS = ['docker', 'podman', 'kvm2', 'none'];
+// Drivers that only exist on Linux hosts
+const LINUX_ONLY_DRIVERS = ['kvm2', 'none'];
+const CONTAINER_RUNTIMES = ['containerd', 'docker', 'cri-o'];
+const ADDON_PATTERN = /^[a-z0-9][a-z0-9-]*$/;
+const PROFILE_PATTERN = /^[a-z0-9]([-a-z0-9]*[a-z0-9])?$/;
+
+// minikube refuses to start below these
+const MIN_CPUS = 2;
+const MIN_MEMORY_MB = 1800;
+
+/**
+ * @typedef {Object} MinikubeStartOptions
+ * @property {string} [profile]            minikube's default profile ("minikube") if empty
+ * @property {string} [driver]
+ * @property {number} [cpus]
+ * @property {number} [memory]             Megabytes
+ * @property {string} [kubernetesVersion]  e.g. "1.29.3"; minikube's default if empty
+ * @property {string} [containerRuntime]
+ * @property {string[]} [addons]
+ */
+
+// On Linux the podman driver runs rootless (see buildMinikubeStartCommand)
+function isRootless(options, platform) {
+  return options.driver === 'podman' && platform === 'linux';
+}
+
+// Returns a list of problems, empty when the options are safe to pass to minikube.
+// With `runtime` (see runtimes.cjs), container drivers must match it.
+function validateMinikubeOptions(options = {}, platform, runtime = null) {
+  const errors = [];
+
+  if (options.profile && !PROFILE_PATTERN.test(options.profile)) {
+    errors.push(`Invalid profile name: ${options.profile}`);
+  }
+
+  if (options.driver && !DRIVERS.includes(options.driver)) {
+    errors.push(`Unknown driver: ${options.driver}`);
+  } else if (LINUX_ONLY_DRIVERS.includes(options.driver) && platform !== 'linux') {
+    errors.push(`The ${options.driver} driver is only available on Linux`);
+  }
+  const refusal = runtime && driverRefusal(runtime, options.driver);
+  if (refusal) errors.push(refusal);
+
+  if (options.cpus !== undefined && (!Number.isInteger(options.cpus) || options.cpus < MIN_CPUS)) {
+    errors.push(`CPUs must be a whole number of at least ${MIN_CPUS}`);
+  }
+  if (options.memory !== undefined && (!Number.isInteger(options.memory) || options.memory < MIN_MEMORY_MB)) {
+    errors.push(`Memory must be at least ${MIN_MEMORY_MB} MB`);
+  }
+  if (options.kubernetesVersion && !normalizeVersion(options.kubernetesVersion)) {
+    errors.push(`Invalid Kubernetes version: ${options.kubernetesVersion}`);
+  }
+  if (options.containerRuntime && !CONTAINER_RUNTIMES.includes(options.containerRuntime)) {
+    errors.push(`Unknown container runtime: ${options.containerRuntime}`);
+  } else if (options.containerRuntime === 'docker' && isRootless(options, platform)) {
+    errors.push('Rootless Podman can\'t run the docker container runtime; use containerd or cri-o');
+  }
+
+  const invalidAddons = (options.addons || []).filter(addon => !ADDON_PATTERN.test(addon));
+  if (invalidAddons.length > 0) {
+    errors.push(`Invalid addon name: ${invalidAddons.join(', ')}`);
+  }
+
+  return errors;
+}
+
+// Fills in the driver that runs nodes on `runtime`, and what runs inside them, when the
+// form left them to minikube
+function withRuntimeDriver(options = {}, runtime) {
+  return {
+    ...options,
+    driver: options.driver || runtime.minikubeDriver,
+    containerRuntime: options.containerRuntime || runtime.minikubeContainerRuntime
+  };
+}
+
+// Builds the start command for validated options; unset options are left to minikube,
+// except that rootless Podman needs containerd (or cri-o) inside the node
+function buildMinikubeStartCommand(options = {}, platform) {
+  const rootless = isRootless(options, platform);
+  const args = [...(rootless ? ['MINIKUBE_ROOTLESS=true'] : []), 'minikube', 'start'];
+  const containerRuntime = options.containerRuntime || (rootless ? 'containerd' : null);
+
+  if (options.profile) args.push(`-p ${options.profile}`);
+  if (options.driver) args.push(`--driver=${options.driver}`);
+  if (options.cpus) args.push(`--cpus=${options.cpus}`);
+  if (options.memory) args.push(`--memory=${options.memory}mb`);
+  if (options.kubernetesVersion) args.push(`--kubernetes-version=v${normalizeVersion(options.kubernetesVersion)}`);
+  if (containerRuntime) args.push(`--container-runtime=${containerRuntime}`);
+  (options.addons || []).forEach(addon => args.push(`--addons=${addon}`));
+
+  return args.join(' ');
+}
+
+module.exports = {
+  DRIVERS,
+  CONTAINER_RUNTIMES,
+  validateMinikubeOptions,
+  withRuntimeDriver,
+  buildMinikubeStartCommand
+};
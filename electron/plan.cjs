@@ -0,0 +1,130 @@
+// Dry-run support: describes the commands an installation would run without running
+// them, and renders that description as a script a reviewer can read or execute.
+const { fillTemplate, downloadValues } = require('./components.cjs');
+
+const URL_PATTERN = /https?:\/\/[^\s"'`)]+/g;
+const ELEVATION_PATTERN = /\bsudo\b|\bchoco\b|\bwinget\b/;
+const PACKAGE_MANAGER_PATTERN = /\b(brew|winget|choco|apt-get|apt|dnf|yum|pacman|zypper|apk)\b/;
+
+/**
+ * One step of a dry-run plan.
+ * @typedef {Object} PlannedCommand
+ * @property {string} id                 Component ID, "homebrew", or the cluster type
+ * @property {string} title
+ * @property {string|null} command       Shell snippet; null when the step can't run here
+ * @property {boolean} elevated          Runs as root/administrator (or may prompt for it)
+ * @property {string[]} urls             URLs fetched directly
+ * @property {string|null} packageManager Package manager whose repositories are used
+ * @property {number} estimatedSeconds
+ * @property {string} [error]            Why the step would fail, when it can't run
+ */
+
+// What a plain shell command touches, read off the command itself
+function describeCommand(command) {
+  const packageManager = command.match(PACKAGE_MANAGER_PATTERN);
+  return {
+    elevated: ELEVATION_PATTERN.test(command),
+    urls: [...new Set(command.match(URL_PATTERN) || [])],
+    packageManager: packageManager ? packageManager[1].replace('apt-get', 'apt') : null
+  };
+}
+
+function fileName(url) {
+  return url.slice(url.lastIndexOf('/') + 1);
+}
+
+// Shell equivalent of KubernetesInstaller.installDownload(): resolve the release,
+// download, check the published SHA-256, then run the install command
+function renderDownload(step, version, arch) {
+  const { download } = step;
+  const values = downloadValues(download, '${release}', '${release#v}', arch);
+  const url = fillTemplate(download.url, values);
+  const checksumUrl = fillTemplate(download.checksumUrl, values);
+  const file = `$tmp/${fileName(url)}`;
+
+  let release;
+  const urls = [];
+  if (version) {
+    release = `release=v${version}`;
+  } else if (download.latestRelease) {
+    release = `release=${download.latestRelease}`;
+  } else {
+    release = `release=$(curl -fsSL ${download.latestReleaseUrl})`;
+    urls.push(download.latestReleaseUrl);
+  }
+
+  const shownRelease = version ? `v${version}` : download.latestRelease || '<latest>';
+  const shown = text => text.split('${release}').join(shownRelease).split('${release#v}').join(shownRelease.replace(/^v/, ''));
+  urls.push(shown(url), shown(checksumUrl));
+
+  const command = [
+    'tmp=$(mktemp -d)',
+    release,
+    `curl -fsSLo "${file}" "${url}"`,
+    // Checksum files listing several artifacts have a line per file; ours wins
+    `echo "$(curl -fsSL "${checksumUrl}" | awk -v name="${fileName(url)}" ` +
+      `'NR == 1 {first = $1} {sub(/^[*]/, "", $2); sub(/.*[/]/, "", $2)} $2 == name {print $1; found = 1; exit} ` +
+      `END {if (!found) print first}')` +
+      `  ${file}" | sha256sum -c -`,
+    fillTemplate(step.command, { file, dir: '$tmp', arch }),
+    'rm -rf "$tmp"'
+  ].join('\n');
+
+  return { command, urls };
+}
+
+// Shell equivalent of KubernetesInstaller.installFromBundle()
+function renderBundleInstall(step, file, sha256, arch) {
+  return [
+    `echo "${sha256}  ${file}" | sha256sum -c -`,
+    'tmp=$(mktemp -d)',
+    fillTemplate(step.command, { file, dir: '$tmp', arch }),
+    'rm -rf "$tmp"'
+  ].join('\n');
+}
+
+function formatDuration(seconds) {
+  if (seconds < 60) return `${seconds}s`;
+  return `${Math.round(seconds / 60)} min`;
+}
+
+// Renders a plan as a bash script (or a batch file on Windows). Steps that can't run
+// here are kept as comments so the script still shows the whole picture.
+function renderScript(plan) {
+  const windows = plan.platform === 'win32';
+  const comment = windows ? 'REM' : '#';
+  const header = windows
+    ? ['@echo off']
+    : ['#!/usr/bin/env bash', 'set -euo pipefail'];
+
+  const lines = [
+    ...header,
+    `${comment} Kubernetes Installer plan for ${plan.platform}/${plan.arch} (${plan.packageManager})`,
+    `${comment} Generated ${plan.generatedAt}; estimated ${formatDuration(plan.estimatedSeconds)}`,
+    ''
+  ];
+
+  plan.steps.forEach((step) => {
+    lines.push(`${comment} ${step.title}${step.elevated ? ' (requires elevation)' : ''}`);
+    if (!step.command) {
+      lines.push(`${comment} Skipped: ${step.error}`, '');
+      return;
+    }
+
+    if (windows) {
+      lines.push(step.command, 'if errorlevel 1 exit /b 1', '');
+    } else {
+      lines.push(step.command, '');
+    }
+  });
+
+  return lines.join(windows ? '\r\n' : '\n');
+}
+
+module.exports = {
+  describeCommand,
+  renderDownload,
+  renderBundleInstall,
+  renderScript,
+  formatDuration
+};
@@ -0,0 +1,405 @@
+// Host checks run before anything is installed, in order, by runPreflightChecks().
+// Like verification.cjs each check is a plain object; `blocking` checks that fail
+// stop the wizard (and the CLI) from going further, everything else is advice.
+// Checks limited to other platforms or container runtimes are left out of the report.
+const fs = require('fs');
+const net = require('net');
+const os = require('os');
+const path = require('path');
+const { redactText } = require('./redact.cjs');
+
+/**
+ * @typedef {Object} PreflightCheck
+ * @property {string} id
+ * @property {string} title
+ * @property {string[]} [platforms]     Platforms the check applies to; all when omitted
+ * @property {string[]} [runtimes]      Container runtimes (see runtimes.cjs) it applies to; all when omitted
+ * @property {boolean} [blocking]       A failure stops the installation
+ * @property {function(KubernetesInstaller): Promise<import('./verification.cjs').CheckOutcome>} run
+ */
+
+/**
+ * @typedef {Object} PreflightResult
+ * @property {string} id
+ * @property {string} title
+ * @property {'pass'|'warn'|'fail'} status
+ * @property {boolean} blocking        Failed and stops the installation
+ * @property {number} durationMs
+ * @property {string} evidence
+ * @property {string} [remediation]
+ */
+
+const GB = 1024 * 1024 * 1024;
+// Node images, the cluster's own images and a few workloads
+const MIN_DISK_GB = 5;
+const RECOMMENDED_DISK_GB = 20;
+// The control plane alone needs about 2 GB; minikube refuses to start with less
+const MIN_MEMORY_GB = 2;
+const RECOMMENDED_MEMORY_GB = 4;
+const MIN_CPUS = 2;
+// API server (kubeadm, k3s and extraPortMappings) and ingress
+const CLUSTER_PORTS = [6443, 80, 443];
+const PORT_TIMEOUT = 1000;
+// What NO_PROXY needs so kubectl and the node can reach the cluster directly
+const NO_PROXY_ENTRIES = ['localhost', '127.0.0.1'];
+const SUGGESTED_NO_PROXY = 'localhost,127.0.0.1,10.96.0.0/12,10.244.0.0/16,192.168.49.0/24,172.18.0.0/16,.svc,.cluster.local';
+
+function readFile(file) {
+  try {
+    return fs.readFileSync(file, 'utf8');
+  } catch (error) {
+    return null;
+  }
+}
+
+function formatGb(bytes) {
+  return `${(bytes / GB).toFixed(1)} GB`;
+}
+
+// The container runtime's data root only exists on the host on Linux. Docker Desktop
+// and Podman's machine keep their disk image in the user's profile, so that's the disk
+// that fills up elsewhere.
+async function runtimeDataRoot(installer) {
+  const runtime = installer.containerRuntime;
+  if (installer.platform === 'darwin') {
+    return runtime.id === 'docker' ? path.join(os.homedir(), 'Library', 'Containers') : os.homedir();
+  }
+  if (installer.platform === 'win32') return process.env.LOCALAPPDATA || os.homedir();
+  if (!runtime.dataRootFormat) return runtime.defaultDataRoot;
+
+  const result = await installer.checkCommand(`${runtime.cli} info --format "${runtime.dataRootFormat}"`);
+  return (result.installed && result.version) || runtime.defaultDataRoot;
+}
+
+// Lines of /etc/subuid or /etc/subgid ("user:start:count") for `user`
+function subordinateRanges(file, user) {
+  return (readFile(file) || '').split('\n').filter(line => line.startsWith(`${user}:`));
+}
+
+// statfs needs a path that exists; before the runtime is installed its data root doesn't
+function nearestExistingPath(target) {
+  let current = path.resolve(target);
+  while (!fs.existsSync(current) && path.dirname(current) !== current) {
+    current = path.dirname(current);
+  }
+  return current;
+}
+
+// Connecting rather than listening, since binding 80 or 443 needs root
+function portInUse(port) {
+  return new Promise((resolve) => {
+    const socket = net.connect({ host: '127.0.0.1', port });
+    const finish = (inUse) => {
+      socket.destroy();
+      resolve(inUse);
+    };
+    socket.setTimeout(PORT_TIMEOUT, () => finish(false));
+    socket.once('connect', () => finish(true));
+    socket.once('error', () => finish(false));
+  });
+}
+
+function proxyVariable(env, name) {
+  return env[name] || env[name.toLowerCase()] || '';
+}
+
+/** @type {PreflightCheck[]} */
+const PREFLIGHT_CHECKS = [
+  {
+    id: 'resources',
+    title: 'Memory and CPUs',
+    blocking: true,
+    run: async () => {
+      const memory = os.totalmem();
+      const cpus = os.cpus().length;
+      const evidence = `${formatGb(memory)} RAM, ${cpus} CPUs`;
+
+      if (memory < MIN_MEMORY_GB * GB * 0.9) {
+        return {
+          status: 'fail',
+          evidence,
+          remediation: `A cluster needs at least ${MIN_MEMORY_GB} GB of RAM. Use a machine or VM with more memory.`
+        };
+      }
+      if (memory < RECOMMENDED_MEMORY_GB * GB * 0.9 || cpus < MIN_CPUS) {
+        return {
+          status: 'warn',
+          evidence,
+          remediation: `${RECOMMENDED_MEMORY_GB} GB of RAM and ${MIN_CPUS} CPUs are recommended; minikube won't start ` +
+            `with fewer than ${MIN_CPUS} CPUs. kind runs with less, but workloads may be slow or evicted.`
+        };
+      }
+      return { status: 'pass', evidence };
+    }
+  },
+  {
+    id: 'disk-space',
+    title: 'Free disk space for container images',
+    blocking: true,
+    run: async (installer) => {
+      const root = await runtimeDataRoot(installer);
+      const stats = fs.statfsSync(nearestExistingPath(root));
+      const free = stats.bavail * stats.bsize;
+      const evidence = `${formatGb(free)} free for ${root}`;
+
+      if (free < MIN_DISK_GB * GB) {
+        return {
+          status: 'fail',
+          evidence,
+          remediation: `At least ${MIN_DISK_GB} GB is needed for node and system images. Free up space, ` +
+            `or remove unused images with "${installer.containerRuntime.cli} system prune".`
+        };
+      }
+      if (free < RECOMMENDED_DISK_GB * GB) {
+        return {
+          status: 'warn',
+          evidence,
+          remediation: `${RECOMMENDED_DISK_GB} GB is recommended; pulling workload images may fill the disk.`
+        };
+      }
+      return { status: 'pass', evidence };
+    }
+  },
+  {
+    id: 'virtualization',
+    title: 'CPU virtualization',
+    run: async (installer) => {
+      if (installer.platform === 'linux') {
+        const flags = /^flags\s*:.*\b(vmx|svm)\b/m.exec(readFile('/proc/cpuinfo') || '');
+        if (!flags) {
+          return {
+            status: 'warn',
+            evidence: 'The CPU reports neither vmx nor svm',
+            remediation: 'minikube\'s VM drivers (kvm2, virtualbox) won\'t work; the docker driver and kind don\'t need ' +
+              'virtualization. In a VM, enable nested virtualization to use them.'
+          };
+        }
+        return fs.existsSync('/dev/kvm')
+          ? { status: 'pass', evidence: `The CPU supports ${flags[1] === 'vmx' ? 'Intel VT-x' : 'AMD-V'} and /dev/kvm is present` }
+          : {
+            status: 'warn',
+            evidence: `The CPU supports ${flags[1] === 'vmx' ? 'Intel VT-x' : 'AMD-V'}, but /dev/kvm is missing`,
+            remediation: 'Load the kvm module ("sudo modprobe kvm_intel" or "kvm_amd") to use minikube\'s kvm2 driver.'
+          };
+      }
+
+      if (installer.platform === 'darwin') {
+        const result = await installer.checkCommand('sysctl -n kern.hv_support');
+        return result.installed && result.version === '1'
+          ? { status: 'pass', evidence: 'Hypervisor.framework is supported' }
+          : {
+            status: 'warn',
+            evidence: 'Hypervisor.framework is not supported',
+            remediation: 'Docker Desktop and minikube\'s VM drivers need hardware virtualization.'
+          };
+      }
+
+      // A running hypervisor (WSL 2, Hyper-V) hides the firmware flag, so check it first
+      const result = await installer.checkCommand(
+        'powershell -NoProfile -Command "(Get-CimInstance Win32_ComputerSystem).HypervisorPresent; ' +
+        '(Get-CimInstance Win32_Processor).VirtualizationFirmwareEnabled"'
+      );
+      const [hypervisor, firmware] = (result.version || '').split(/\r?\n/).map(line => line.trim());
+      if (hypervisor === 'True') return { status: 'pass', evidence: 'A hypervisor (WSL 2 or Hyper-V) is running' };
+      if (firmware === 'True') return { status: 'pass', evidence: 'Virtualization is enabled in firmware' };
+      return {
+        status: firmware === 'False' ? 'fail' : 'warn',
+        evidence: firmware === 'False' ? 'Virtualization is disabled in firmware' : 'Could not read the virtualization state',
+        remediation: 'Docker Desktop needs WSL 2, which needs virtualization (Intel VT-x or AMD-V) enabled in the ' +
+          'BIOS/UEFI settings.'
+      };
+    }
+  },
+  {
+    id: 'cgroups',
+    title: 'Control groups',
+    platforms: ['linux'],
+    blocking: true,
+    run: async () => {
+      if (fs.existsSync('/sys/fs/cgroup/cgroup.controllers')) {
+        return { status: 'pass', evidence: 'cgroup v2 (unified hierarchy)' };
+      }
+      if (fs.existsSync('/sys/fs/cgroup/memory') || fs.existsSync('/sys/fs/cgroup/unified')) {
+        return {
+          status: 'warn',
+          evidence: 'cgroup v1',
+          remediation: 'Kubernetes 1.31 moved cgroup v1 support to maintenance mode and recent kind releases expect ' +
+            'v2. Boot with "systemd.unified_cgroup_hierarchy=1" on the kernel command line to switch.'
+        };
+      }
+      return {
+        status: 'fail',
+        evidence: 'No cgroup filesystem at /sys/fs/cgroup',
+        remediation: 'Containers can\'t run without cgroups. Mount the cgroup filesystem, or use a kernel and init ' +
+          'system that provide it.'
+      };
+    }
+  },
+  {
+    id: 'docker-group',
+    title: 'docker group membership',
+    platforms: ['linux'],
+    runtimes: ['docker'],
+    run: async (installer) => {
+      if (process.getuid && process.getuid() === 0) return { status: 'pass', evidence: 'Running as root' };
+
+      const user = os.userInfo().username;
+      const groups = await installer.checkCommand('id -nG');
+      if (groups.installed && groups.version.split(/\s+/).includes('docker')) {
+        return { status: 'pass', evidence: `${user} is in the docker group` };
+      }
+
+      const entry = (readFile('/etc/group') || '').split('\n').find(line => line.startsWith('docker:'));
+      const members = entry ? (entry.split(':')[3] || '').split(',') : [];
+      if (members.includes(user)) {
+        return {
+          status: 'warn',
+          evidence: `${user} was added to the docker group after this session started`,
+          remediation: 'Log out and back in (or run "newgrp docker") so kind and minikube can use Docker without sudo.'
+        };
+      }
+      return {
+        status: 'warn',
+        evidence: entry ? `${user} is not in the docker group` : 'There is no docker group yet',
+        remediation: `${entry ? '' : 'Once Docker is installed, '}run "sudo usermod -aG docker ${user}", then log out and ` +
+          'back in. kind and minikube need Docker without sudo.'
+      };
+    }
+  },
+  {
+    id: 'subordinate-ids',
+    title: 'Subordinate user and group IDs',
+    platforms: ['linux'],
+    runtimes: ['podman'],
+    run: async () => {
+      if (process.getuid && process.getuid() === 0) return { status: 'pass', evidence: 'Running as root' };
+
+      const user = os.userInfo().username;
+      const missing = ['/etc/subuid', '/etc/subgid'].filter(file => subordinateRanges(file, user).length === 0);
+      if (missing.length === 0) {
+        return { status: 'pass', evidence: `${user} has ranges in /etc/subuid and /etc/subgid` };
+      }
+      return {
+        status: 'warn',
+        evidence: `${user} has no range in ${missing.join(' or ')}`,
+        remediation: `Rootless Podman maps container users onto these. Run "sudo usermod --add-subuids 100000-165535 ` +
+          `--add-subgids 100000-165535 ${user}", then "podman system migrate".`
+      };
+    }
+  },
+  {
+    id: 'swap',
+    title: 'Swap',
+    platforms: ['linux'],
+    run: async () => {
+      const devices = (readFile('/proc/swaps') || '').trim().split('\n').slice(1).filter(Boolean);
+      if (devices.length === 0) return { status: 'pass', evidence: 'Swap is off' };
+      return {
+        status: 'warn',
+        evidence: `Swap is on (${devices.map(line => line.split(/\s+/)[0]).join(', ')})`,
+        remediation: 'kind and minikube tolerate swap, but kubeadm and k3s clusters expect it off. Run "sudo swapoff -a" ' +
+          'and comment out the swap entries in /etc/fstab to keep it off.'
+      };
+    }
+  },
+  {
+    id: 'ports',
+    title: 'Cluster ports free',
+    run: async () => {
+      const inUse = [];
+      for (const port of CLUSTER_PORTS) {
+        if (await portInUse(port)) inUse.push(port);
+      }
+      if (inUse.length === 0) return { status: 'pass', evidence: `${CLUSTER_PORTS.join(', ')} are free` };
+      return {
+        status: 'warn',
+        evidence: `Already in use: ${inUse.join(', ')}`,
+        remediation: 'Another cluster or web server is listening. kind and minikube pick their own API server port, ' +
+          'but port mappings and ingress on these ports will fail. Stop the other service, or map different ports.'
+      };
+    }
+  },
+  {
+    id: 'security-modules',
+    title: 'SELinux and AppArmor',
+    platforms: ['linux'],
+    run: async (installer) => {
+      const selinux = await installer.checkCommand('getenforce');
+      const apparmor = (readFile('/sys/module/apparmor/parameters/enabled') || '').trim() === 'Y';
+      const modes = [
+        selinux.installed ? `SELinux ${selinux.version}` : null,
+        apparmor ? 'AppArmor enabled' : null
+      ].filter(Boolean);
+      const evidence = modes.length > 0 ? modes.join(', ') : 'Neither SELinux nor AppArmor is active';
+
+      if (selinux.installed && selinux.version === 'Enforcing') {
+        return {
+          status: 'warn',
+          evidence,
+          remediation: 'Docker, kind and minikube work with SELinux enforcing, but host directories mounted into ' +
+            'containers need the ":z" option and Podman or k3s need the container-selinux package.'
+        };
+      }
+      return { status: 'pass', evidence };
+    }
+  },
+  {
+    id: 'proxy',
+    title: 'Proxy settings',
+    run: async () => {
+      const env = process.env;
+      const proxies = ['HTTP_PROXY', 'HTTPS_PROXY']
+        .map(name => [name, proxyVariable(env, name)])
+        .filter(([, value]) => value);
+      if (proxies.length === 0) return { status: 'pass', evidence: 'No proxy variables set' };
+
+      const evidence = proxies.map(([name, value]) => `${name}=${redactText(value)}`).join(', ');
+      const noProxy = proxyVariable(env, 'NO_PROXY').split(',').map(entry => entry.trim());
+      const missing = NO_PROXY_ENTRIES.filter(entry => !noProxy.includes(entry));
+      if (missing.length === 0) return { status: 'pass', evidence: `${evidence}; NO_PROXY covers localhost` };
+      return {
+        status: 'warn',
+        evidence: `${evidence}; NO_PROXY is missing ${missing.join(', ')}`,
+        remediation: 'kubectl would send requests for the local cluster through the proxy. Set ' +
+          `NO_PROXY=${SUGGESTED_NO_PROXY} (and no_proxy), and configure the same proxy in Docker.`
+      };
+    }
+  }
+];
+
+// Runs every check for this platform. A check that throws counts as a warning: a
+// problem with the check itself shouldn't stop the installation.
+async function runPreflightChecks(installer, checks = PREFLIGHT_CHECKS) {
+  const results = [];
+
+  for (const check of checks) {
+    if (check.platforms && !check.platforms.includes(installer.platform)) continue;
+    if (check.runtimes && !check.runtimes.includes(installer.containerRuntime.id)) continue;
+
+    const startedAt = Date.now();
+    let outcome;
+    try {
+      outcome = await check.run(installer);
+    } catch (error) {
+      outcome = { status: 'warn', evidence: `Check failed to run: ${error.message}` };
+    }
+
+    results.push({
+      id: check.id,
+      title: check.title,
+      durationMs: Date.now() - startedAt,
+      ...outcome,
+      blocking: !!check.blocking && outcome.status === 'fail'
+    });
+  }
+
+  return {
+    passed: results.every(result => !result.blocking),
+    results
+  };
+}
+
+module.exports = {
+  PREFLIGHT_CHECKS,
+  runPreflightChecks
+};
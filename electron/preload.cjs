@@ -7,17 +7,71 @@ contextBridge.exposeInMainWorld('electronAPI', {
 
   checkPrerequisites: () => ipcRenderer.invoke('check-prerequisites'),
 
-  installHomebrew: () => ipcRenderer.invoke('install-homebrew'),
+  resolveInstallPlan: (selected, installed) => ipcRenderer.invoke('resolve-install-plan', selected, installed),
+  planInstallation: (componentIds, checks, options) => ipcRenderer.invoke('plan-installation', componentIds, checks, options),
+  exportPlanScript: (componentIds, checks, options) => ipcRenderer.invoke('export-plan-script', componentIds, checks, options),
+  getOfflineBundle: () => ipcRenderer.invoke('get-offline-bundle'),
+
+  selectOfflineBundle: (kind) => ipcRenderer.invoke('select-offline-bundle', kind),
+
+  clearOfflineBundle: () => ipcRenderer.invoke('clear-offline-bundle'),
+
+  loadVersionPins: () => ipcRenderer.invoke('load-version-pins'),
+
+  saveVersionPins: (pins) => ipcRenderer.invoke('save-version-pins', pins),
+
+  getContainerRuntime: () => ipcRenderer.invoke('get-container-runtime'),
+
+  setContainerRuntime: (id) => ipcRenderer.invoke('set-container-runtime', id),
+
+  installHomebrew: (options) => ipcRenderer.invoke('install-homebrew', options),
 
   updatePackageManager: () => ipcRenderer.invoke('update-package-manager'),
 
-  installComponent: (component) => ipcRenderer.invoke('install-component', component),
+  installComponent: (component, options) => ipcRenderer.invoke('install-component', component, options),
+
+  startCluster: (clusterType, options) => ipcRenderer.invoke('start-cluster', clusterType, options),
+  previewKindConfig: (kindOptions) => ipcRenderer.invoke('preview-kind-config', kindOptions),
+  previewMinikubeStart: (minikubeOptions) => ipcRenderer.invoke('preview-minikube-start', minikubeOptions),
+  previewK3dCreate: (k3dOptions) => ipcRenderer.invoke('preview-k3d-create', k3dOptions),
+
+  listClusters: () => ipcRenderer.invoke('list-clusters'),
+  stopCluster: (clusterType, name, options) => ipcRenderer.invoke('stop-cluster', clusterType, name, options),
+  startExistingCluster: (clusterType, name, options) => ipcRenderer.invoke('start-existing-cluster', clusterType, name, options),
+  deleteCluster: (clusterType, name, options) => ipcRenderer.invoke('delete-cluster', clusterType, name, options),
+  useClusterContext: (clusterType, name) => ipcRenderer.invoke('use-cluster-context', clusterType, name),
 
-  startCluster: (clusterType) => ipcRenderer.invoke('start-cluster', clusterType),
+  getInstallLedger: () => ipcRenderer.invoke('get-install-ledger'),
+  uninstallEntry: (entryId, options) => ipcRenderer.invoke('uninstall-entry', entryId, options),
 
+  cancelOperation: (operationId) => ipcRenderer.invoke('cancel-operation', operationId),
+
+  onCommandOutput: (callback) => {
+    const listener = (event, payload) => callback(payload);
+    ipcRenderer.on('command-output', listener);
+    return () => ipcRenderer.removeListener('command-output', listener);
+  },
+
+  onElevationRequest: (callback) => {
+    const listener = (event, request) => callback(request);
+    ipcRenderer.on('elevation-request', listener);
+    return () => ipcRenderer.removeListener('elevation-request', listener);
+  },
+
+  respondToElevation: (requestId, password) => ipcRenderer.invoke('respond-to-elevation', requestId, password),
+
+  runPreflightChecks: (runtimeId) => ipcRenderer.invoke('run-preflight-checks', runtimeId),
   verifyInstallation: () => ipcRenderer.invoke('verify-installation'),
 
-  executeCommand: (command) => ipcRenderer.invoke('execute-command', command),
+  exportDiagnostics: (report) => ipcRenderer.invoke('export-diagnostics', report),
+
+  saveLog: (contents) => ipcRenderer.invoke('save-log', contents),
+
+  runCommand: (name, args) => ipcRenderer.invoke('run-command', name, args),
+
+  enableAdvancedShell: () => ipcRenderer.invoke('enable-advanced-shell'),
+
+  runShellCommand: (command) => ipcRenderer.invoke('run-shell-command', command),
 
   showDialog: (options) => ipcRenderer.invoke('show-dialog', options),
 
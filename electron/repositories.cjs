@@ -0,0 +1,255 @@
+// Vendor package repositories that apt, dnf, yum and zypper installs depend on:
+// kubectl from pkgs.k8s.io (one repository per Kubernetes minor version), Docker CE
+// from download.docker.com and Helm from its apt repository. Components name theirs
+// in components.cjs (`repository`); the engine adds it before the install step runs
+// unless the machine already has it, and records what it wrote in the ledger.
+//
+// Everything the installer writes is prefixed "k8s-installer-", so a repository the
+// user set up themselves is reused but never overwritten or removed.
+const fs = require('fs');
+const path = require('path');
+const { fillTemplate } = require('./components.cjs');
+
+const FILE_PREFIX = 'k8s-installer-';
+const APT_KEYRINGS = '/etc/apt/keyrings';
+const APT_SOURCES = '/etc/apt/sources.list.d';
+// Repository definition directory per rpm package manager
+const RPM_REPOS = {
+  dnf: '/etc/yum.repos.d',
+  yum: '/etc/yum.repos.d',
+  zypper: '/etc/zypp/repos.d'
+};
+
+/**
+ * URLs may contain {minor} ("1.30"), {distro} (Docker's name for the distribution)
+ * and {codename} placeholders. rpm URLs can also use the package manager's own
+ * $releasever and $basearch variables.
+ * @typedef {Object} RepositoryDefinition
+ * @property {string} id
+ * @property {string} name
+ * @property {string[]} packageManagers
+ * @property {string} [latestReleaseUrl]   Versioned repositories: names the latest release
+ * @property {{ url: string, suite: string, components: string, keyUrl: string }} [apt]
+ * @property {{ url: string, keyUrl: string }} [rpm]
+ */
+
+/** @type {Object.<string, RepositoryDefinition>} */
+const REPOSITORIES = {
+  kubernetes: {
+    id: 'kubernetes',
+    name: 'Kubernetes',
+    packageManagers: ['apt', 'dnf', 'yum', 'zypper'],
+    latestReleaseUrl: 'https://dl.k8s.io/release/stable.txt',
+    apt: {
+      url: 'https://pkgs.k8s.io/core:/stable:/v{minor}/deb/',
+      suite: '/',
+      components: '',
+      keyUrl: 'https://pkgs.k8s.io/core:/stable:/v{minor}/deb/Release.key'
+    },
+    rpm: {
+      url: 'https://pkgs.k8s.io/core:/stable:/v{minor}/rpm/',
+      keyUrl: 'https://pkgs.k8s.io/core:/stable:/v{minor}/rpm/repodata/repomd.xml.key'
+    }
+  },
+  docker: {
+    id: 'docker',
+    name: 'Docker CE',
+    // openSUSE, Arch and Alpine package Docker themselves
+    packageManagers: ['apt', 'dnf', 'yum'],
+    apt: {
+      url: 'https://download.docker.com/linux/{distro}',
+      suite: '{codename}',
+      components: 'stable',
+      keyUrl: 'https://download.docker.com/linux/{distro}/gpg'
+    },
+    rpm: {
+      url: 'https://download.docker.com/linux/{distro}/$releasever/$basearch/stable',
+      keyUrl: 'https://download.docker.com/linux/{distro}/gpg'
+    }
+  },
+  helm: {
+    id: 'helm',
+    name: 'Helm',
+    packageManagers: ['apt'],
+    apt: {
+      url: 'https://packages.buildkite.com/helm-linux/helm-debian/any/',
+      suite: 'any',
+      components: 'main',
+      keyUrl: 'https://packages.buildkite.com/helm-linux/helm-debian/gpgkey'
+    }
+  }
+};
+
+function shellQuote(value) {
+  return `"${value.replace(/(["\\$`])/g, '\\$1')}"`;
+}
+
+// The repository a component's install needs with this package manager, or null
+function componentRepository(component, packageManager) {
+  const repository = component.repository && REPOSITORIES[component.repository];
+  return repository && repository.packageManagers.includes(packageManager) ? repository : null;
+}
+
+// "v1.30.2", "1.30.2" or "1.31.0-rc.1" -> "1.30"
+function minorVersion(version) {
+  const match = /^v?(\d+\.\d+)\./.exec((version || '').trim());
+  return match ? match[1] : null;
+}
+
+// Docker only publishes for some distributions; derivatives use their parent's
+function dockerDistro(packageManager, distro) {
+  const ids = [distro.id, ...distro.idLike];
+  if (packageManager === 'apt') {
+    return ['ubuntu', 'debian', 'raspbian'].find(id => ids.includes(id)) || null;
+  }
+  if (distro.id === 'fedora' || distro.id === 'rhel') return distro.id;
+  return distro.family === 'rhel' ? 'centos' : null;
+}
+
+// Fills in what the URLs need besides the minor version, or explains what's missing
+function repositoryContext(repository, packageManager, distro) {
+  if (repository.id !== 'docker') return { context: {} };
+
+  const name = distro && dockerDistro(packageManager, distro);
+  if (!name) {
+    return { error: `Docker doesn't publish packages for ${distro ? distro.name : 'this distribution'}` };
+  }
+  if (packageManager === 'apt' && !distro.codename) {
+    return { error: `${distro.name} doesn't name its release codename in /etc/os-release` };
+  }
+  return { context: { distro: name, codename: distro.codename } };
+}
+
+function repositoryFiles(repository, packageManager) {
+  if (packageManager === 'apt') {
+    return {
+      key: `${APT_KEYRINGS}/${FILE_PREFIX}${repository.id}.asc`,
+      source: `${APT_SOURCES}/${FILE_PREFIX}${repository.id}.list`
+    };
+  }
+  return { source: `${RPM_REPOS[packageManager]}/${FILE_PREFIX}${repository.id}.repo` };
+}
+
+// `minor` may be a shell expression, as in dry-run scripts where the latest release
+// is looked up when the script runs. Placeholders other than {minor} are filled before
+// quoting and {minor} after, so a "${minor}" stays expandable while the rpm variables
+// ($releasever) are escaped for the package manager to expand. `root` places the files
+// in a fixture tree; what they say still refers to the machine's own paths.
+function renderRepository(repository, packageManager, context, minor, root = '/') {
+  const files = repositoryFiles(repository, packageManager);
+  const under = file => path.join(root, file);
+  const fill = template => fillTemplate(template, context);
+  const line = text => fillTemplate(shellQuote(fill(text)), { minor });
+
+  let commands;
+  if (packageManager === 'apt') {
+    const { url, suite, components, keyUrl } = repository.apt;
+    const entry = `deb [signed-by=${files.key}] ${url} ${suite}${components ? ` ${components}` : ''}`;
+    commands = [
+      `sudo install -d -m 0755 ${under(APT_KEYRINGS)}`,
+      `curl -fsSL ${line(keyUrl)} | sudo tee ${under(files.key)} > /dev/null`,
+      `echo ${line(entry)} | sudo tee ${under(files.source)} > /dev/null`
+    ];
+  } else {
+    const { url, keyUrl } = repository.rpm;
+    const id = `${FILE_PREFIX}${repository.id}`;
+    const lines = [
+      `[${id}]`,
+      `name=${repository.name} (added by Kubernetes Installer)`,
+      `baseurl=${url}`,
+      'enabled=1',
+      'gpgcheck=1',
+      `gpgkey=${keyUrl}`,
+      ...(packageManager === 'zypper' ? ['type=rpm-md', 'autorefresh=1'] : [])
+    ];
+    commands = [`printf '%s\\n' ${lines.map(line).join(' ')} | sudo tee ${under(files.source)} > /dev/null`];
+  }
+
+  return { command: commands.join(' &&\n'), paths: Object.values(files).map(under) };
+}
+
+function normalizeUrl(url) {
+  return url.replace(/\/+$/, '');
+}
+
+function readLines(file) {
+  try {
+    return fs.readFileSync(file, 'utf8').split(/\r?\n/).map(line => line.trim());
+  } catch (error) {
+    return [];
+  }
+}
+
+function listFiles(directory, extensions) {
+  try {
+    return fs.readdirSync(directory)
+      .filter(name => extensions.some(extension => name.endsWith(extension)))
+      .map(name => path.join(directory, name));
+  } catch (error) {
+    return [];
+  }
+}
+
+// URLs a sources file points at: one-line "deb [options] url suite" entries, and
+// deb822 "URIs:" fields in .sources files
+function aptUrls(file) {
+  return readLines(file).flatMap((line) => {
+    if (line.startsWith('#')) return [];
+    const deb = /^deb\s+(\[[^\]]*\]\s+)?(\S+)/.exec(line);
+    if (deb) return [deb[2]];
+    const uris = /^URIs:\s*(.+)$/i.exec(line);
+    return uris ? uris[1].split(/\s+/) : [];
+  });
+}
+
+function rpmUrls(file) {
+  return readLines(file)
+    .map(line => /^baseurl\s*=\s*(\S+)/.exec(line))
+    .filter(Boolean)
+    .map(match => match[1]);
+}
+
+// The file that already configures the repository, or null. `root` is "/" except
+// when pointed at a fixture tree.
+function configuredRepository(repository, packageManager, context, minor, root = '/') {
+  const under = directory => path.join(root, directory);
+  let candidates;
+  let urlsIn;
+  let url;
+
+  if (packageManager === 'apt') {
+    candidates = [under('/etc/apt/sources.list'), ...listFiles(under(APT_SOURCES), ['.list', '.sources'])];
+    urlsIn = aptUrls;
+    url = repository.apt.url;
+  } else {
+    candidates = listFiles(under(RPM_REPOS[packageManager]), ['.repo']);
+    urlsIn = rpmUrls;
+    url = repository.rpm.url;
+  }
+
+  const wanted = normalizeUrl(fillTemplate(url, { ...context, minor }));
+  return candidates.find(file => urlsIn(file).some(candidate => normalizeUrl(candidate) === wanted)) || null;
+}
+
+function repositoryEntry(repository, minor, paths) {
+  return {
+    id: `repository:${repository.id}`,
+    kind: 'repository',
+    repository: repository.id,
+    name: `${repository.name} package repository`,
+    version: minor || null,
+    method: 'repository',
+    packages: [],
+    paths
+  };
+}
+
+module.exports = {
+  REPOSITORIES,
+  componentRepository,
+  minorVersion,
+  repositoryContext,
+  renderRepository,
+  configuredRepository,
+  repositoryEntry
+};
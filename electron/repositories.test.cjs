@@ -0,0 +1,163 @@
+// Adds package repositories to copies of the fixture trees in fixtures/repositories:
+// "present" already has the installer's own file, "vendor" has the repository set up
+// by hand under the vendor's file name, and "missing" has neither
+const { test } = require('node:test');
+const assert = require('node:assert/strict');
+const { execFileSync } = require('child_process');
+const fs = require('fs');
+const path = require('path');
+const { REPOSITORIES, configuredRepository, renderRepository } = require('./repositories.cjs');
+const { scratchDirectory } = require('./fixtures/scratch.cjs');
+
+const FIXTURES = path.join(__dirname, 'fixtures', 'repositories');
+const MINOR = '1.30';
+const KEY = 'fixture key';
+
+const scratch = scratchDirectory();
+const shims = path.join(scratch, 'bin');
+
+// sudo runs the command as is, and curl only ever fetches signing keys here
+fs.mkdirSync(shims);
+fs.writeFileSync(path.join(shims, 'sudo'), '#!/bin/sh\nexec "$@"\n', { mode: 0o755 });
+fs.writeFileSync(path.join(shims, 'curl'), `#!/bin/sh\necho '${KEY}'\n`, { mode: 0o755 });
+
+function fixtureTree(packageManager, name) {
+  const root = path.join(scratch, `${packageManager}-${name}-${Date.now()}`);
+  fs.cpSync(path.join(FIXTURES, packageManager === 'yum' ? 'dnf' : packageManager, name), root, { recursive: true });
+  return root;
+}
+
+function listTree(root) {
+  return fs.readdirSync(root, { recursive: true }).sort();
+}
+
+// What the engine does before a package manager install: reuse a configured
+// repository, otherwise write the installer's own files. Returns the file reused.
+function addRepository(root, repository, packageManager, context) {
+  const existing = configuredRepository(repository, packageManager, context, MINOR, root);
+  if (existing) return existing;
+
+  const { command } = renderRepository(repository, packageManager, context, MINOR, root);
+  execFileSync('sh', ['-c', command], { env: { ...process.env, PATH: `${shims}:${process.env.PATH}` } });
+  return null;
+}
+
+function read(root, file) {
+  return fs.readFileSync(path.join(root, file), 'utf8');
+}
+
+const KUBERNETES_RPM = [
+  '[k8s-installer-kubernetes]',
+  'name=Kubernetes (added by Kubernetes Installer)',
+  'baseurl=https://pkgs.k8s.io/core:/stable:/v1.30/rpm/',
+  'enabled=1',
+  'gpgcheck=1',
+  'gpgkey=https://pkgs.k8s.io/core:/stable:/v1.30/rpm/repodata/repomd.xml.key'
+];
+
+test('apt: reuses the installer\'s own repository without writing anything', () => {
+  const root = fixtureTree('apt', 'present');
+  const files = listTree(root);
+
+  const existing = addRepository(root, REPOSITORIES.kubernetes, 'apt', {});
+
+  assert.equal(existing, path.join(root, 'etc/apt/sources.list.d/k8s-installer-kubernetes.list'));
+  assert.deepEqual(listTree(root), files);
+});
+
+test('apt: writes the source and signing key when the repository is missing', () => {
+  const root = fixtureTree('apt', 'missing');
+
+  assert.equal(addRepository(root, REPOSITORIES.kubernetes, 'apt', {}), null);
+  assert.equal(
+    read(root, 'etc/apt/sources.list.d/k8s-installer-kubernetes.list'),
+    'deb [signed-by=/etc/apt/keyrings/k8s-installer-kubernetes.asc] https://pkgs.k8s.io/core:/stable:/v1.30/deb/ /\n'
+  );
+  assert.equal(read(root, 'etc/apt/keyrings/k8s-installer-kubernetes.asc'), `${KEY}\n`);
+});
+
+test('apt: reuses repositories added by hand, in one-line and deb822 files', () => {
+  const root = fixtureTree('apt', 'vendor');
+  const files = listTree(root);
+
+  assert.equal(
+    addRepository(root, REPOSITORIES.kubernetes, 'apt', {}),
+    path.join(root, 'etc/apt/sources.list.d/kubernetes.list')
+  );
+  assert.equal(
+    addRepository(root, REPOSITORIES.docker, 'apt', { distro: 'ubuntu', codename: 'noble' }),
+    path.join(root, 'etc/apt/sources.list.d/docker.sources')
+  );
+  assert.deepEqual(listTree(root), files);
+});
+
+for (const packageManager of ['dnf', 'yum']) {
+  test(`${packageManager}: reuses the installer's own repository without writing anything`, () => {
+    const root = fixtureTree(packageManager, 'present');
+    const files = listTree(root);
+
+    const existing = addRepository(root, REPOSITORIES.kubernetes, packageManager, {});
+
+    assert.equal(existing, path.join(root, 'etc/yum.repos.d/k8s-installer-kubernetes.repo'));
+    assert.deepEqual(listTree(root), files);
+  });
+
+  test(`${packageManager}: writes the .repo file when the repository is missing`, () => {
+    const root = fixtureTree(packageManager, 'missing');
+
+    assert.equal(addRepository(root, REPOSITORIES.kubernetes, packageManager, {}), null);
+    assert.equal(read(root, 'etc/yum.repos.d/k8s-installer-kubernetes.repo'), `${KUBERNETES_RPM.join('\n')}\n`);
+  });
+
+  test(`${packageManager}: reuses repositories added by hand`, () => {
+    const root = fixtureTree(packageManager, 'vendor');
+    const files = listTree(root);
+
+    assert.equal(
+      addRepository(root, REPOSITORIES.kubernetes, packageManager, {}),
+      path.join(root, 'etc/yum.repos.d/kubernetes.repo')
+    );
+    assert.equal(
+      addRepository(root, REPOSITORIES.docker, packageManager, { distro: 'fedora' }),
+      path.join(root, 'etc/yum.repos.d/docker-ce.repo')
+    );
+    assert.deepEqual(listTree(root), files);
+  });
+}
+
+test('zypper: reuses the installer\'s own repository without writing anything', () => {
+  const root = fixtureTree('zypper', 'present');
+  const files = listTree(root);
+
+  const existing = addRepository(root, REPOSITORIES.kubernetes, 'zypper', {});
+
+  assert.equal(existing, path.join(root, 'etc/zypp/repos.d/k8s-installer-kubernetes.repo'));
+  assert.deepEqual(listTree(root), files);
+});
+
+test('zypper: writes the .repo file when the repository is missing', () => {
+  const root = fixtureTree('zypper', 'missing');
+
+  assert.equal(addRepository(root, REPOSITORIES.kubernetes, 'zypper', {}), null);
+  assert.equal(
+    read(root, 'etc/zypp/repos.d/k8s-installer-kubernetes.repo'),
+    `${[...KUBERNETES_RPM, 'type=rpm-md', 'autorefresh=1'].join('\n')}\n`
+  );
+});
+
+test('zypper: reuses a repository added by hand', () => {
+  const root = fixtureTree('zypper', 'vendor');
+  const files = listTree(root);
+
+  assert.equal(
+    addRepository(root, REPOSITORIES.kubernetes, 'zypper', {}),
+    path.join(root, 'etc/zypp/repos.d/kubernetes.repo')
+  );
+  assert.deepEqual(listTree(root), files);
+});
+
+test('a repository for another Kubernetes minor version is not reused', () => {
+  const root = fixtureTree('dnf', 'vendor');
+
+  assert.equal(configuredRepository(REPOSITORIES.kubernetes, 'dnf', {}, '1.31', root), null);
+});
@@ -0,0 +1,133 @@
+// Container runtimes that kind, minikube and k3d can run cluster nodes on. Each is a
+// component providing the container-runtime capability (see components.cjs); this
+// module says how the cluster tools, verification and preflight reach it. The user
+// picks one, and the engine is constructed with its ID.
+const os = require('os');
+const path = require('path');
+
+const DEFAULT_CONTAINER_RUNTIME = 'docker';
+
+/**
+ * @typedef {Object} ContainerRuntime
+ * @property {string} id                   Component ID of the runtime
+ * @property {string} name
+ * @property {string} cli                  Docker-compatible client; with sudo when it needs root
+ * @property {string|null} kindProvider    KIND_EXPERIMENTAL_PROVIDER; null for kind's default (Docker)
+ * @property {string} minikubeDriver       minikube driver that runs on it
+ * @property {string} minikubeContainerRuntime  What runs inside minikube's node
+ * @property {boolean} k3d                 k3d can run nodes on it (k3d only speaks the Docker API)
+ * @property {string|null} dockerSocket    Docker API socket k3d is pointed at; null for Docker's own
+ * @property {boolean} rootful             kind itself has to run as root to reach it
+ * @property {string} versionFormat        `<cli> info` template printing the engine version
+ * @property {string|null} dataRootFormat  `<cli> info` template printing where images are kept
+ * @property {string} defaultDataRoot      Where images are kept when `<cli> info` can't say
+ */
+
+/** @type {Object.<string, ContainerRuntime>} */
+const CONTAINER_RUNTIMES = {
+  docker: {
+    id: 'docker',
+    name: 'Docker',
+    cli: 'docker',
+    kindProvider: null,
+    minikubeDriver: 'docker',
+    minikubeContainerRuntime: 'docker',
+    k3d: true,
+    dockerSocket: null,
+    rootful: false,
+    versionFormat: '{{.ServerVersion}}',
+    dataRootFormat: '{{.DockerRootDir}}',
+    defaultDataRoot: '/var/lib/docker'
+  },
+  // Rootless: containers and images belong to the user, so neither kind nor
+  // minikube needs sudo. k3d reaches it through the user's API socket (Linux only).
+  podman: {
+    id: 'podman',
+    name: 'Podman',
+    cli: 'podman',
+    kindProvider: 'podman',
+    minikubeDriver: 'podman',
+    minikubeContainerRuntime: 'containerd',
+    k3d: true,
+    dockerSocket: '${XDG_RUNTIME_DIR:-/run/user/$(id -u)}/podman/podman.sock',
+    rootful: false,
+    versionFormat: '{{.Version.Version}}',
+    dataRootFormat: '{{.Store.GraphRoot}}',
+    defaultDataRoot: path.join(os.homedir(), '.local', 'share', 'containers', 'storage')
+  },
+  // containerd's system daemon, reached through nerdctl as root. minikube has no
+  // driver for it, so its node runs on the host with the none driver, on containerd
+  // like nerdctl's; k3d needs a Docker API it doesn't have.
+  nerdctl: {
+    id: 'nerdctl',
+    name: 'nerdctl (containerd)',
+    cli: 'sudo nerdctl',
+    kindProvider: 'nerdctl',
+    minikubeDriver: 'none',
+    minikubeContainerRuntime: 'containerd',
+    k3d: false,
+    dockerSocket: null,
+    rootful: true,
+    versionFormat: '{{.ServerVersion}}',
+    dataRootFormat: null,
+    defaultDataRoot: '/var/lib/containerd'
+  }
+};
+
+// minikube drivers that run nodes as containers, and so need that runtime
+const CONTAINER_DRIVERS = ['docker', 'podman'];
+
+function getContainerRuntime(id) {
+  return Object.prototype.hasOwnProperty.call(CONTAINER_RUNTIMES, id) ? CONTAINER_RUNTIMES[id] : null;
+}
+
+// The kubeconfig kubectl reads: the first file in KUBECONFIG, otherwise ~/.kube/config
+function kubeconfigPath(env = process.env) {
+  return (env.KUBECONFIG || '').split(path.delimiter).find(Boolean) || path.join(os.homedir(), '.kube', 'config');
+}
+
+// A kind invocation that uses `runtime` for its nodes. Run as root, kind would put the
+// cluster's context in root's kubeconfig, so commands that change contexts (create,
+// delete) are pointed at the user's.
+function kindCommand(runtime, args, changesContexts = false) {
+  const provider = runtime.kindProvider ? `KIND_EXPERIMENTAL_PROVIDER=${runtime.kindProvider} ` : '';
+  if (!runtime.rootful) return `${provider}kind ${args}`;
+  // `env` rather than sudo's own VAR=value, which sudoers may refuse
+  return `sudo env ${provider}kind ${args}${changesContexts ? ` --kubeconfig "${kubeconfigPath()}"` : ''}`;
+}
+
+// A k3d invocation that uses `runtime` for its nodes. DOCKER_SOCK is the socket k3d
+// mounts into its helper containers.
+function k3dCommand(runtime, args) {
+  if (!runtime.dockerSocket) return `k3d ${args}`;
+  return `DOCKER_HOST=unix://${runtime.dockerSocket} DOCKER_SOCK=${runtime.dockerSocket} k3d ${args}`;
+}
+
+// Explains why k3d can't run nodes on `runtime`, or returns null
+function k3dRefusal(runtime, platform) {
+  if (!runtime.k3d) return `k3d can't run nodes on ${runtime.name}; use kind, or Docker or Podman`;
+  if (runtime.dockerSocket && platform !== 'linux') {
+    return `k3d only reaches ${runtime.name} through its socket on Linux; use Docker`;
+  }
+  return null;
+}
+
+// Explains why a minikube driver can't be used with `runtime`, or returns null. Only
+// container drivers depend on the runtime.
+function driverRefusal(runtime, driver) {
+  if (!CONTAINER_DRIVERS.includes(driver) || driver === runtime.minikubeDriver) return null;
+
+  return `The ${driver} driver needs ${driver === 'docker' ? 'Docker' : 'Podman'}, but the container runtime is ` +
+    `${runtime.name}; use the ${runtime.minikubeDriver} driver`;
+}
+
+module.exports = {
+  DEFAULT_CONTAINER_RUNTIME,
+  CONTAINER_RUNTIMES,
+  getContainerRuntime,
+  kubeconfigPath,
+  kindCommand,
+  k3dCommand,
+  k3dRefusal,
+  driverRefusal
+};
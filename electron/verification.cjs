@@ -0,0 +1,301 @@
+// Post-install checks, run in order by runVerificationSuite(). Each check is a plain
+// object, so adding one means adding an entry to VERIFICATION_CHECKS; the wizard and
+// the CLI render whatever the list produces.
+
+/**
+ * @typedef {Object} CheckOutcome
+ * @property {'pass'|'warn'|'fail'} status
+ * @property {string} evidence          What was observed, in one line
+ * @property {string} [remediation]     What to do about a warning or failure
+ */
+
+/**
+ * @typedef {Object} VerificationCheck
+ * @property {string} id
+ * @property {string} title
+ * @property {string[]} [requires]      Checks that must not have failed; otherwise skipped
+ * @property {function(KubernetesInstaller): Promise<CheckOutcome>} run
+ */
+
+/**
+ * @typedef {Object} VerificationResult
+ * @property {string} id
+ * @property {string} title
+ * @property {'pass'|'warn'|'fail'|'skip'} status
+ * @property {number} durationMs
+ * @property {string} evidence
+ * @property {string} [remediation]
+ */
+
+// Small, public and multi-arch; offline clusters need it loaded before verifying
+const TEST_IMAGE = 'busybox:1.36';
+const POD_TIMEOUT = 180000;
+// kubectl supports servers one minor version older or newer than itself
+const MAX_VERSION_SKEW = 1;
+
+function firstLine(text) {
+  return (text || '').trim().split(/\r?\n/)[0] || 'no output';
+}
+
+// Unique per run so a pod left behind by an interrupted run can't collide
+function testPodName(purpose) {
+  return `k8s-installer-${purpose}-${Date.now().toString(36)}`;
+}
+
+// Runs a short-lived pod and returns its output. `--rm` deletes it when it finishes;
+// the explicit delete covers runs that fail before kubectl gets that far.
+async function runTestPod(installer, purpose, args) {
+  const name = testPodName(purpose);
+  const result = await installer.executeCommand(
+    `kubectl run ${name} --image=${TEST_IMAGE} --restart=Never --rm -i --quiet --pod-running-timeout=2m --command -- ${args}`,
+    { timeout: POD_TIMEOUT }
+  );
+  if (!result.success) {
+    await installer.executeCommand(`kubectl delete pod ${name} --ignore-not-found --wait=false`, { timeout: 30000 });
+  }
+  return { ...result, name };
+}
+
+function dockerRemediation(platform, error) {
+  if (/permission denied/i.test(error || '')) {
+    return 'Add your user to the docker group with "sudo usermod -aG docker $USER", then log out and back in.';
+  }
+  if (/not found|not recognized/i.test(error || '')) {
+    return 'Docker is not installed; install it from the component selection step.';
+  }
+  return platform === 'linux'
+    ? 'Start the daemon with "sudo systemctl start docker".'
+    : 'Start Docker Desktop and wait until it reports that it is running.';
+}
+
+function podmanRemediation(platform, error) {
+  if (/not found|not recognized/i.test(error || '')) {
+    return 'Podman is not installed; install it from the component selection step.';
+  }
+  return platform === 'linux'
+    ? 'Rootless Podman needs subordinate IDs for your user: check that /etc/subuid and /etc/subgid have an entry, ' +
+      'then run "podman system migrate".'
+    : 'Start the Podman machine with "podman machine start".';
+}
+
+function nerdctlRemediation(error) {
+  if (/not found|not recognized/i.test(error || '')) {
+    return 'nerdctl is not installed; install it from the component selection step.';
+  }
+  return 'Start containerd with "sudo systemctl start containerd".';
+}
+
+function runtimeRemediation(runtime, platform, error) {
+  if (runtime.id === 'podman') return podmanRemediation(platform, error);
+  if (runtime.id === 'nerdctl') return nerdctlRemediation(error);
+  return dockerRemediation(platform, error);
+}
+
+function parseVersion(gitVersion) {
+  const match = /^v?(\d+)\.(\d+)\.(\d+)/.exec(gitVersion || '');
+  return match ? { major: Number(match[1]), minor: Number(match[2]), text: match[0] } : null;
+}
+
+function parseJson(output) {
+  try {
+    return JSON.parse(output);
+  } catch (error) {
+    return null;
+  }
+}
+
+// Healthy means finished, or running with every container ready
+function podProblem(pod) {
+  const phase = pod.status && pod.status.phase;
+  if (phase === 'Succeeded') return null;
+
+  const containers = (pod.status && pod.status.containerStatuses) || [];
+  if (phase === 'Running' && containers.length > 0 && containers.every(container => container.ready)) return null;
+
+  const waiting = containers.find(container => container.state && container.state.waiting);
+  return (waiting && waiting.state.waiting.reason) || phase || 'Unknown';
+}
+
+/** @type {VerificationCheck[]} */
+const VERIFICATION_CHECKS = [
+  {
+    id: 'container-runtime',
+    title: 'Container runtime reachable',
+    run: async (installer) => {
+      const runtime = installer.containerRuntime;
+      const result = await installer.executeCommand(
+        `${runtime.cli} info --format "${runtime.versionFormat}"`,
+        { timeout: 30000 }
+      );
+      return result.success
+        ? { status: 'pass', evidence: `${runtime.name} ${firstLine(result.output)} is running` }
+        : {
+          status: 'fail',
+          evidence: firstLine(result.error),
+          remediation: runtimeRemediation(runtime, installer.platform, result.error)
+        };
+    }
+  },
+  {
+    id: 'kubectl-version',
+    title: 'kubectl and API server versions',
+    run: async (installer) => {
+      // Exits non-zero when the server can't be reached, but still reports the client
+      const result = await installer.executeCommand('kubectl version -o json', { timeout: 30000 });
+      const versions = parseJson(result.output) || {};
+      const client = parseVersion(versions.clientVersion && versions.clientVersion.gitVersion);
+      const server = parseVersion(versions.serverVersion && versions.serverVersion.gitVersion);
+
+      if (!client) {
+        return {
+          status: 'fail',
+          evidence: firstLine(result.error),
+          remediation: 'kubectl is not installed or not on PATH; install it from the component selection step.'
+        };
+      }
+      if (!server) {
+        return {
+          status: 'fail',
+          evidence: `kubectl ${client.text} can't reach the API server: ${firstLine(result.error)}`,
+          remediation: 'Start the cluster (Manage Clusters, or the cluster setup step) and check that ' +
+            '"kubectl config current-context" names it.'
+        };
+      }
+
+      const skew = Math.abs(client.minor - server.minor);
+      const evidence = `kubectl ${client.text}, server ${server.text}`;
+      return skew <= MAX_VERSION_SKEW && client.major === server.major
+        ? { status: 'pass', evidence }
+        : {
+          status: 'warn',
+          evidence: `${evidence}: ${skew} minor versions apart`,
+          remediation: `kubectl supports servers within ${MAX_VERSION_SKEW} minor version of itself. ` +
+            `Pin kubectl to a ${server.major}.${server.minor} release and reinstall it.`
+        };
+    }
+  },
+  {
+    id: 'nodes-ready',
+    title: 'All nodes Ready',
+    requires: ['kubectl-version'],
+    run: async (installer) => {
+      const result = await installer.executeCommand('kubectl get nodes -o json', { timeout: 30000 });
+      const nodes = (parseJson(result.output) || {}).items;
+      if (!result.success || !Array.isArray(nodes)) {
+        return { status: 'fail', evidence: firstLine(result.error), remediation: 'Check "kubectl get nodes".' };
+      }
+      if (nodes.length === 0) {
+        return { status: 'fail', evidence: 'The cluster has no nodes', remediation: 'Recreate the cluster.' };
+      }
+
+      const notReady = nodes.filter(node => !((node.status && node.status.conditions) || [])
+        .some(condition => condition.type === 'Ready' && condition.status === 'True'))
+        .map(node => node.metadata.name);
+      return notReady.length === 0
+        ? { status: 'pass', evidence: `${nodes.length}/${nodes.length} nodes Ready` }
+        : {
+          status: 'fail',
+          evidence: `Not Ready: ${notReady.join(', ')}`,
+          remediation: `Nodes can take a minute to become Ready after a start. If this persists, see "kubectl describe node ${notReady[0]}".`
+        };
+    }
+  },
+  {
+    id: 'kube-system-pods',
+    title: 'kube-system pods healthy',
+    requires: ['kubectl-version'],
+    run: async (installer) => {
+      const result = await installer.executeCommand('kubectl get pods -n kube-system -o json', { timeout: 30000 });
+      const pods = (parseJson(result.output) || {}).items;
+      if (!result.success || !Array.isArray(pods)) {
+        return { status: 'fail', evidence: firstLine(result.error), remediation: 'Check "kubectl get pods -n kube-system".' };
+      }
+
+      const unhealthy = pods
+        .map(pod => ({ name: pod.metadata.name, problem: podProblem(pod) }))
+        .filter(pod => pod.problem);
+      return unhealthy.length === 0
+        ? { status: 'pass', evidence: `${pods.length}/${pods.length} pods running or completed` }
+        : {
+          status: 'fail',
+          evidence: `Unhealthy: ${unhealthy.map(pod => `${pod.name} (${pod.problem})`).join(', ')}`,
+          remediation: `See "kubectl describe pod -n kube-system ${unhealthy[0].name}" and its logs.`
+        };
+    }
+  },
+  {
+    id: 'coredns',
+    title: 'Cluster DNS resolving',
+    requires: ['nodes-ready'],
+    run: async (installer) => {
+      const result = await runTestPod(installer, 'dns', 'nslookup kubernetes.default.svc.cluster.local');
+      // busybox's nslookup can exit non-zero over a missing AAAA record, so go by the answer
+      const answer = /Name:\s+kubernetes\.default\.svc\.cluster\.local\s+Address:?\s*(\S+)/.exec(result.output);
+      return answer
+        ? { status: 'pass', evidence: `kubernetes.default resolved to ${answer[1]} from pod ${result.name}` }
+        : {
+          status: 'fail',
+          evidence: firstLine(result.error || result.output),
+          remediation: 'Check the CoreDNS pods with "kubectl get pods -n kube-system -l k8s-app=kube-dns". ' +
+            `The test pulls ${TEST_IMAGE}, which offline clusters need loaded first.`
+        };
+    }
+  },
+  {
+    id: 'smoke-test',
+    title: 'Test pod scheduled and ran',
+    requires: ['nodes-ready'],
+    run: async (installer) => {
+      const marker = 'k8s-installer-smoke-test-ok';
+      const result = await runTestPod(installer, 'smoke', `echo ${marker}`);
+      return result.output.includes(marker)
+        ? { status: 'pass', evidence: `Pod ${result.name} ran ${TEST_IMAGE} to completion` }
+        : {
+          status: 'fail',
+          evidence: firstLine(result.error || result.output),
+          remediation: `Check "kubectl get events" for scheduling or image pull errors. The test pulls ${TEST_IMAGE}, ` +
+            'which offline clusters need loaded first (kind load docker-image, or minikube image load).'
+        };
+    }
+  }
+];
+
+// Runs `checks` in order. `options.skip` lists check IDs that don't apply to this
+// installation (the CLI's --cluster none, say). A check that throws counts as failed
+// rather than ending the suite.
+async function runVerificationSuite(installer, options = {}, checks = VERIFICATION_CHECKS) {
+  const skip = options.skip || [];
+  const results = [];
+
+  for (const check of checks) {
+    const startedAt = Date.now();
+    const failedRequirement = (check.requires || [])
+      .map(id => results.find(result => result.id === id))
+      .find(result => result && (result.status === 'fail' || result.status === 'skip'));
+
+    let outcome;
+    if (skip.includes(check.id)) {
+      outcome = { status: 'skip', evidence: 'Not part of this installation' };
+    } else if (failedRequirement) {
+      outcome = { status: 'skip', evidence: `Skipped because "${failedRequirement.title}" did not pass` };
+    } else {
+      try {
+        outcome = await check.run(installer);
+      } catch (error) {
+        outcome = { status: 'fail', evidence: `Check failed to run: ${error.message}` };
+      }
+    }
+
+    results.push({ id: check.id, title: check.title, durationMs: Date.now() - startedAt, ...outcome });
+  }
+
+  return {
+    passed: results.every(result => result.status !== 'fail'),
+    results
+  };
+}
+
+module.exports = {
+  VERIFICATION_CHECKS,
+  runVerificationSuite
+};
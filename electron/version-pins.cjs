@@ -0,0 +1,72 @@
+// Exact component versions the user wants installed instead of "latest". Pins come
+// from two places: a team-shareable JSON file ({ "kubectl": "1.29.3", ... }) and the
+// wizard, which saves to electron-store. Wizard pins win over the file.
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+
+const PINS_FILE = path.join(os.homedir(), '.k8s-installer', 'versions.json');
+const STORE_KEY = 'versionPins';
+
+// Versions end up inside shell commands, so anything beyond semver is rejected
+const VERSION_PATTERN = /^v?(\d+\.\d+\.\d+(?:-[0-9A-Za-z.]+)?)$/;
+
+// Strips a leading "v" and returns null for anything that isn't a plain version
+function normalizeVersion(version) {
+  if (typeof version !== 'string') return null;
+  const match = version.trim().match(VERSION_PATTERN);
+  return match ? match[1] : null;
+}
+
+function sanitizePins(pins) {
+  const sanitized = {};
+  if (!pins || typeof pins !== 'object') return sanitized;
+
+  Object.entries(pins).forEach(([component, version]) => {
+    const normalized = normalizeVersion(version);
+    if (normalized) {
+      sanitized[component] = normalized;
+    } else if (version) {
+      console.log(`Ignoring invalid version pin for ${component}: ${version}`);
+    }
+  });
+  return sanitized;
+}
+
+function readPinsFile(filePath = PINS_FILE) {
+  if (!fs.existsSync(filePath)) return {};
+  try {
+    return sanitizePins(JSON.parse(fs.readFileSync(filePath, 'utf8')));
+  } catch (error) {
+    console.log(`Failed to read version pins from ${filePath}: ${error.message}`);
+    return {};
+  }
+}
+
+function loadVersionPins(store, filePath = PINS_FILE) {
+  return {
+    ...readPinsFile(filePath),
+    ...sanitizePins(store.get(STORE_KEY))
+  };
+}
+
+function saveVersionPins(store, pins) {
+  const invalid = Object.entries(pins || {})
+    .filter(([, version]) => version && !normalizeVersion(version))
+    .map(([component]) => component);
+
+  if (invalid.length > 0) {
+    return { success: false, message: `Invalid version for ${invalid.join(', ')}` };
+  }
+
+  store.set(STORE_KEY, sanitizePins(pins));
+  return { success: true, message: 'Version pins saved' };
+}
+
+module.exports = {
+  PINS_FILE,
+  normalizeVersion,
+  readPinsFile,
+  loadVersionPins,
+  saveVersionPins
+};
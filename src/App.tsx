@@ -1,34 +1,182 @@
-import React, { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { ProgressBar } from './components/ProgressBar';
 import { InstallationLog } from './components/InstallationLog';
+import { ElevationDialog } from './components/ElevationDialog';
+import { UninstallView } from './components/UninstallView';
+import { ClusterManagerView } from './components/ClusterManagerView';
 import { WelcomeStep } from './components/steps/WelcomeStep';
 import { OSDetectionStep } from './components/steps/OSDetectionStep';
 import { PrerequisitesStep } from './components/steps/PrerequisitesStep';
+import { ComponentSelectionStep } from './components/steps/ComponentSelectionStep';
+import { PlanReviewStep } from './components/steps/PlanReviewStep';
 import { InstallationStep } from './components/steps/InstallationStep';
 import { ClusterSetupStep } from './components/steps/ClusterSetupStep';
 import { VerificationStep } from './components/steps/VerificationStep';
-import { OSInfo, PackageManagerInfo, PrerequisitesCheck } from './types';
-import { ChevronLeft } from 'lucide-react';
+import { ClusterType, ContainerRuntimeId, ElevationRequest, LogContext, LogEntry, LogLevel, OSInfo, PackageManagerInfo, PrerequisitesCheck, WizardSession } from './types';
+import { clearSession, loadSession, saveSession } from './session';
+import { createLogEntry, formatLogEntry } from './logs';
+import { ChevronLeft, Download, History } from 'lucide-react';
 
 const STEPS = [
   { id: 1, title: 'Welcome', description: 'Introduction' },
   { id: 2, title: 'OS Detection', description: 'System check' },
   { id: 3, title: 'Prerequisites', description: 'Check components' },
-  { id: 4, title: 'Installation', description: 'Install tools' },
-  { id: 5, title: 'Cluster Setup', description: 'Start cluster' },
-  { id: 6, title: 'Verification', description: 'Verify setup' }
+  { id: 4, title: 'Components', description: 'Choose tools' },
+  { id: 5, title: 'Review Plan', description: 'Preview commands' },
+  { id: 6, title: 'Installation', description: 'Install tools' },
+  { id: 7, title: 'Cluster Setup', description: 'Start cluster' },
+  { id: 8, title: 'Verification', description: 'Verify setup' }
 ];
 
+const VIEW_TITLES: Record<string, string> = {
+  uninstall: 'Uninstall',
+  clusters: 'Clusters'
+};
+
 function App() {
   const [currentStep, setCurrentStep] = useState(1);
-  const [logs, setLogs] = useState<string[]>([]);
+  const [logs, setLogs] = useState<LogEntry[]>([]);
   const [osInfo, setOSInfo] = useState<OSInfo | null>(null);
   const [pmInfo, setPMInfo] = useState<PackageManagerInfo | null>(null);
   const [prerequisites, setPrerequisites] = useState<PrerequisitesCheck | null>(null);
+  const [installPlan, setInstallPlan] = useState<string[] | null>(null);
+  const [completedComponents, setCompletedComponents] = useState<string[]>([]);
+  // Chosen on the plan review so the plan covers it; Cluster Setup starts from it
+  const [plannedCluster, setPlannedCluster] = useState<ClusterType | null>(null);
+  // Kept by the main process rather than the session, since it outlives the wizard
+  const [containerRuntime, setContainerRuntime] = useState<ContainerRuntimeId | null>(null);
+  const [resumableSession, setResumableSession] = useState<WizardSession | null>(null);
+  // Saving waits until any saved session has been resumed or discarded, so a fresh
+  // start can't overwrite it before the user decides
+  const [sessionReady, setSessionReady] = useState(false);
+  const [elevationRequest, setElevationRequest] = useState<ElevationRequest | null>(null);
+  // Screens shown in place of the current wizard step
+  const [view, setView] = useState<'wizard' | 'uninstall' | 'clusters'>('wizard');
+
+  const addLog = (message: string, level: LogLevel = 'info', context: LogContext = {}) => {
+    setLogs(prev => [...prev, createLogEntry(message, level, context)]);
+  };
+
+  useEffect(() => {
+    if (!window.electronAPI) return;
+
+    return window.electronAPI.onCommandOutput(({ component, operationId, stream, line }) => {
+      const entry = createLogEntry(line, 'debug', { source: component, operationId });
+      setLogs(prev => [...prev, { ...entry, stream }]);
+    });
+  }, []);
+
+  useEffect(() => {
+    if (!window.electronAPI) return;
+
+    return window.electronAPI.onElevationRequest((request) => {
+      setElevationRequest(request);
+      if (request.attempt === 1) addLog(`Administrator privileges requested for ${request.component}`, 'info', { source: request.component });
+    });
+  }, []);
+
+  useEffect(() => {
+    if (!window.electronAPI) return;
+
+    let current = true;
+    window.electronAPI.getContainerRuntime().then((runtime) => {
+      if (current) setContainerRuntime(runtime);
+    });
+    return () => {
+      current = false;
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!window.electronAPI) return;
+
+    const restore = async () => {
+      const currentOS = await window.electronAPI!.detectOS();
+      const { session, discarded } = await loadSession(STEPS.length, currentOS);
+      if (discarded) addLog(`Starting a new session: ${discarded}`, 'warning');
+      if (session) {
+        setResumableSession(session);
+      } else {
+        setSessionReady(true);
+      }
+    };
+    restore();
+  }, []);
+
+  // Debounced so streamed command output doesn't rewrite the store on every line.
+  // Reaching verification means the installation is done; nothing is left to resume.
+  useEffect(() => {
+    if (!sessionReady) return;
+
+    const timer = setTimeout(() => {
+      if (currentStep === STEPS.length) {
+        clearSession();
+      } else {
+        saveSession({ currentStep, osInfo, pmInfo, prerequisites, installPlan, plannedCluster, completedComponents, logs });
+      }
+    }, 1000);
+    return () => clearTimeout(timer);
+  }, [sessionReady, currentStep, osInfo, pmInfo, prerequisites, installPlan, plannedCluster, completedComponents, logs]);
+
+  const handleResume = async () => {
+    if (!resumableSession || !window.electronAPI) return;
+
+    const session = resumableSession;
+    let checks = session.prerequisites;
+    // Whatever was installed before the restart (Docker Desktop, say) should be
+    // detected now, so don't trust the saved checks for the installation step onward
+    if (session.currentStep >= 5) {
+      checks = await window.electronAPI.checkPrerequisites();
+    }
+
+    setLogs(session.logs);
+    setOSInfo(session.osInfo);
+    setPMInfo(session.pmInfo);
+    setPrerequisites(checks);
+    setInstallPlan(session.installPlan);
+    setPlannedCluster(session.plannedCluster);
+    setCompletedComponents(session.completedComponents);
+    setCurrentStep(session.currentStep);
+    setResumableSession(null);
+    setSessionReady(true);
+    addLog(`Resumed previous session at step ${session.currentStep}: ${STEPS[session.currentStep - 1].title}`);
+  };
+
+  const handleStartOver = async () => {
+    await clearSession();
+    setResumableSession(null);
+    setSessionReady(true);
+  };
+
+  const handleElevationResponse = (password: string | null) => {
+    if (!elevationRequest || !window.electronAPI) return;
+
+    if (password === null) {
+      addLog(`Administrator password prompt cancelled for ${elevationRequest.component}`, 'warning', { source: elevationRequest.component });
+    }
+    window.electronAPI.respondToElevation(elevationRequest.requestId, password);
+    setElevationRequest(null);
+  };
+
+  // Whatever was removed invalidates the checks and plan, so start over from the welcome screen
+  const handleUninstallClosed = () => {
+    setView('wizard');
+    setPrerequisites(null);
+    setInstallPlan(null);
+    setPlannedCluster(null);
+    setCompletedComponents([]);
+    setCurrentStep(1);
+  };
+
+  const handleExportDiagnostics = async () => {
+    if (!window.electronAPI) return;
+
+    const result = await window.electronAPI.exportDiagnostics({ osInfo, pmInfo, prerequisites, logs: logs.map(formatLogEntry) });
+    if (!result.skip) addLog(result.message, result.success ? 'success' : 'error');
+  };
 
-  const addLog = (message: string) => {
-    const timestamp = new Date().toLocaleTimeString();
-    setLogs(prev => [...prev, `[${timestamp}] ${message}`]);
+  const handleComponentInstalled = (key: string) => {
+    setCompletedComponents(prev => (prev.includes(key) ? prev : [...prev, key]));
   };
 
   const handleNext = () => {
@@ -49,6 +197,7 @@ function App() {
     setOSInfo(os);
     setPMInfo(pm);
     addLog(`Detected OS: ${os.platform} (${os.arch})`);
+    if (pm.distro) addLog(`Distribution: ${pm.distro.name} (${pm.distro.family || 'unrecognized'} family)`);
     addLog(`Package Manager: ${pm.packageManager}`);
   };
 
@@ -75,9 +224,15 @@ function App() {
   const renderStep = () => {
     switch (currentStep) {
       case 1:
-        return <WelcomeStep onNext={handleNext} />;
+        return (
+          <WelcomeStep
+            onNext={handleNext}
+            onUninstall={() => setView('uninstall')}
+            onManageClusters={() => setView('clusters')}
+          />
+        );
       case 2:
-        return <OSDetectionStep onNext={handleNext} onOSDetected={handleOSDetected} />;
+        return <OSDetectionStep onNext={handleNext} onOSDetected={handleOSDetected} onLog={addLog} />;
       case 3:
         return (
           <PrerequisitesStep
@@ -86,18 +241,54 @@ function App() {
           />
         );
       case 4:
-        return prerequisites && osInfo ? (
-          <InstallationStep
+        return prerequisites ? (
+          <ComponentSelectionStep
             onNext={handleNext}
             onLog={addLog}
             prerequisites={prerequisites}
-            platform={osInfo.platform}
+            onPlanned={setInstallPlan}
+            containerRuntime={containerRuntime}
+            onContainerRuntimeChosen={setContainerRuntime}
           />
         ) : null;
       case 5:
-        return <ClusterSetupStep onNext={handleNext} onLog={addLog} />;
+        return prerequisites && installPlan ? (
+          <PlanReviewStep
+            onNext={handleNext}
+            onLog={addLog}
+            prerequisites={prerequisites}
+            plan={installPlan}
+            osInfo={osInfo}
+            containerRuntime={containerRuntime}
+            cluster={plannedCluster}
+            onClusterChosen={setPlannedCluster}
+          />
+        ) : null;
       case 6:
-        return <VerificationStep onLog={addLog} />;
+        return prerequisites && osInfo && installPlan ? (
+          <InstallationStep
+            onNext={handleNext}
+            onLog={addLog}
+            prerequisites={prerequisites}
+            plan={installPlan}
+            platform={osInfo.platform}
+            completedComponents={completedComponents}
+            onComponentInstalled={handleComponentInstalled}
+            onRollback={() => setView('uninstall')}
+          />
+        ) : null;
+      case 7:
+        return (
+          <ClusterSetupStep
+            onNext={handleNext}
+            onLog={addLog}
+            osInfo={osInfo}
+            containerRuntime={containerRuntime}
+            initialCluster={plannedCluster}
+          />
+        );
+      case 8:
+        return <VerificationStep onLog={addLog} onManageClusters={() => setView('clusters')} />;
       default:
         return null;
     }
@@ -105,6 +296,14 @@ function App() {
 
   return (
     <div className="w-screen h-screen bg-gradient-to-br from-blue-50 via-white to-purple-50 overflow-hidden">
+      {elevationRequest && (
+        <ElevationDialog
+          key={`${elevationRequest.requestId}`}
+          request={elevationRequest}
+          onSubmit={handleElevationResponse}
+          onCancel={() => handleElevationResponse(null)}
+        />
+      )}
       <div className="w-full h-full flex flex-col">
         <div className="bg-gradient-to-r from-blue-600 to-purple-600 text-white px-6 py-4 flex-shrink-0">
           <div className="flex items-center justify-between">
@@ -118,7 +317,7 @@ function App() {
             </div>
             <div className="text-right">
               <div className="text-xs text-blue-10">Step {currentStep} of {STEPS.length}</div>
-              <div className="text-base font-semibold">{STEPS[currentStep - 1].title}</div>
+              <div className="text-base font-semibold">{VIEW_TITLES[view] || STEPS[currentStep - 1].title}</div>
             </div>
           </div>
         </div>
@@ -130,12 +329,49 @@ function App() {
         <div className="flex-grow p-4 overflow-y-auto">
           <div className="bg-white rounded-lg shadow-lg h-full overflow-hidden">
             <div className="p-6 h-full overflow-y-auto">
-              {renderStep()}
+              {currentStep === 1 && resumableSession && view === 'wizard' && (
+                <div className="max-w-2xl mx-auto mb-6 bg-blue-50 border border-blue-200 rounded-lg p-4 flex items-center justify-between gap-4">
+                  <div className="flex items-start gap-3">
+                    <History size={20} className="text-blue-600 flex-shrink-0 mt-0.5" />
+                    <div>
+                      <p className="font-semibold text-gray-900">Unfinished installation found</p>
+                      <p className="text-sm text-gray-600">
+                        Saved {new Date(resumableSession.savedAt).toLocaleString()} at step {resumableSession.currentStep}:{' '}
+                        {STEPS[resumableSession.currentStep - 1].title}
+                      </p>
+                    </div>
+                  </div>
+                  <div className="flex gap-2 flex-shrink-0">
+                    <button
+                      onClick={handleStartOver}
+                      className="px-4 py-2 rounded-lg font-semibold text-gray-700 hover:bg-gray-200 text-sm"
+                    >
+                      Start Over
+                    </button>
+                    <button
+                      onClick={handleResume}
+                      className="bg-blue-600 text-white px-4 py-2 rounded-lg font-semibold hover:bg-blue-700 transition-colors text-sm"
+                    >
+                      Resume
+                    </button>
+                  </div>
+                </div>
+              )}
+              {view === 'uninstall' && <UninstallView onClose={handleUninstallClosed} onLog={addLog} />}
+              {view === 'clusters' && (
+                <ClusterManagerView
+                  onClose={() => setView('wizard')}
+                  onLog={addLog}
+                  osInfo={osInfo}
+                  containerRuntime={containerRuntime}
+                />
+              )}
+              {view === 'wizard' && renderStep()}
             </div>
           </div>
         </div>
 
-        {currentStep > 1 && currentStep < 6 && (
+        {(view !== 'wizard' || (currentStep > 1 && currentStep < STEPS.length)) && (
           <div className="px-4 pb-3 flex-shrink-0">
             <div className="bg-white rounded-lg shadow-lg p-3">
               <InstallationLog logs={logs} />
@@ -146,15 +382,15 @@ function App() {
         <div className="bg-gray-50 px-4 py-3 flex justify-between border-t border-gray-200 flex-shrink-0">
           <button
             onClick={handlePrevious}
-            disabled={currentStep === 1 || currentStep === 6}
+            disabled={currentStep === 1 || currentStep === STEPS.length}
             className="flex items-center gap-2 px-4 py-2 rounded-lg font-semibold transition-colors disabled:opacity-50 disabled:cursor-not-allowed text-gray-700 hover:bg-gray-200 text-sm"
           >
             <ChevronLeft size={16} />
             Previous
           </button>
 
-          <div className="text-xs text-gray-500">
-            {currentStep === 6 ? (
+          <div className="text-xs text-gray-500 self-center">
+            {currentStep === STEPS.length ? (
               <span>Installation Complete</span>
             ) : (
               <span>
@@ -162,6 +398,14 @@ function App() {
               </span>
             )}
           </div>
+
+          <button
+            onClick={handleExportDiagnostics}
+            className="flex items-center gap-2 px-4 py-2 rounded-lg font-semibold transition-colors text-gray-700 hover:bg-gray-200 text-sm"
+          >
+            <Download size={16} />
+            Export Diagnostics
+          </button>
         </div>
       </div>
     </div>
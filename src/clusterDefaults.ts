@@ -0,0 +1,33 @@
+import { ContainerRuntimeId, K3dClusterOptions, KindClusterOptions, MinikubeStartOptions, OSInfo } from './types';
+import { CONTAINER_RUNTIMES, DEFAULT_CONTAINER_RUNTIME } from './runtimes';
+
+// Same as a plain `kind create cluster`
+export const DEFAULT_KIND_CONFIG: KindClusterOptions = {
+  name: 'kind',
+  workers: 0,
+  nodeImage: '',
+  portMappings: [],
+  mounts: []
+};
+
+// Same as a plain `k3d cluster create`
+export const DEFAULT_K3D_OPTIONS: K3dClusterOptions = {
+  name: '',
+  agents: 0
+};
+
+// Half the machine, within what minikube needs and what a dev cluster benefits from.
+// Low-memory hosts still get minikube's minimum; the editor warns when that's too much.
+// Nodes run on the chosen container runtime.
+export const defaultMinikubeOptions = (
+  osInfo: OSInfo | null,
+  runtime: ContainerRuntimeId = DEFAULT_CONTAINER_RUNTIME
+): MinikubeStartOptions => ({
+  profile: '',
+  driver: CONTAINER_RUNTIMES[runtime].minikubeDriver,
+  cpus: osInfo ? Math.max(2, Math.min(4, Math.floor(osInfo.cpus / 2))) : 2,
+  memory: osInfo ? Math.max(2048, Math.min(8192, Math.floor((osInfo.memory * 1024) / 2))) : 2048,
+  kubernetesVersion: '',
+  containerRuntime: CONTAINER_RUNTIMES[runtime].minikubeContainerRuntime,
+  addons: []
+});
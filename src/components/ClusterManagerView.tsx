@@ -0,0 +1,417 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Server, Loader, Plus, RefreshCw } from 'lucide-react';
+import {
+  ClusterInfo,
+  ClusterList,
+  ClusterType,
+  ContainerRuntimeId,
+  InstallationResult,
+  K3dClusterOptions,
+  K3dCreatePreview,
+  KindClusterOptions,
+  KindConfigPreview,
+  LogFn,
+  MinikubeStartOptions,
+  MinikubeStartPreview,
+  OSInfo
+} from '../types';
+import { KindConfigEditor } from './KindConfigEditor';
+import { MinikubeOptionsEditor } from './MinikubeOptionsEditor';
+import { K3dOptionsEditor } from './K3dOptionsEditor';
+import { DEFAULT_K3D_OPTIONS, DEFAULT_KIND_CONFIG, defaultMinikubeOptions } from '../clusterDefaults';
+import { CONTAINER_RUNTIMES, DEFAULT_CONTAINER_RUNTIME } from '../runtimes';
+
+interface ClusterManagerViewProps {
+  onClose: () => void;
+  onLog: LogFn;
+  osInfo: OSInfo | null;
+  containerRuntime: ContainerRuntimeId | null;
+}
+
+type ClusterAction = 'stop' | 'start' | 'delete';
+
+// Number of streamed output lines kept visible while an action runs
+const OUTPUT_TAIL_LENGTH = 8;
+
+const STATUS_BADGES: Record<ClusterInfo['status'], string> = {
+  running: 'bg-green-100 text-green-800',
+  stopped: 'bg-gray-100 text-gray-800',
+  degraded: 'bg-yellow-100 text-yellow-800',
+  unknown: 'bg-red-100 text-red-800'
+};
+
+const CLUSTER_TYPE_NAMES: Record<ClusterType, string> = {
+  kind: 'Kind',
+  minikube: 'Minikube',
+  k3d: 'k3d',
+  k3s: 'k3s'
+};
+
+const ACTION_LABELS: Record<ClusterAction, string> = {
+  stop: 'Stopping',
+  start: 'Starting',
+  delete: 'Deleting'
+};
+
+export const ClusterManagerView: React.FC<ClusterManagerViewProps> = ({ onClose, onLog, osInfo, containerRuntime }) => {
+  const runtime = CONTAINER_RUNTIMES[containerRuntime || DEFAULT_CONTAINER_RUNTIME];
+  const [clusterList, setClusterList] = useState<ClusterList | null>(null);
+  const [refreshing, setRefreshing] = useState(false);
+  // Output tag of the operation in progress: a cluster ID, or the cluster type being created
+  const [busy, setBusy] = useState<string | null>(null);
+  const [outputLines, setOutputLines] = useState<string[]>([]);
+  const [confirmingDelete, setConfirmingDelete] = useState<string | null>(null);
+  const [showCreate, setShowCreate] = useState(false);
+  const [createType, setCreateType] = useState<ClusterType>('kind');
+  const [kindConfig, setKindConfig] = useState<KindClusterOptions>(DEFAULT_KIND_CONFIG);
+  const [kindPreview, setKindPreview] = useState<KindConfigPreview | null>(null);
+  const [minikubeOptions, setMinikubeOptions] = useState<MinikubeStartOptions>(
+    () => defaultMinikubeOptions(osInfo, runtime.id)
+  );
+  const [minikubePreview, setMinikubePreview] = useState<MinikubeStartPreview | null>(null);
+  const [k3dOptions, setK3dOptions] = useState<K3dClusterOptions>(DEFAULT_K3D_OPTIONS);
+  const [k3dPreview, setK3dPreview] = useState<K3dCreatePreview | null>(null);
+  const operationIdRef = useRef<string | null>(null);
+
+  const refresh = async () => {
+    if (!window.electronAPI) return;
+
+    setRefreshing(true);
+    setClusterList(await window.electronAPI.listClusters());
+    setRefreshing(false);
+  };
+
+  useEffect(() => {
+    refresh();
+  }, []);
+
+  useEffect(() => {
+    if (!window.electronAPI || !showCreate || createType !== 'kind') return;
+
+    let current = true;
+    window.electronAPI.previewKindConfig(kindConfig).then((preview) => {
+      if (current) setKindPreview(preview);
+    });
+    return () => {
+      current = false;
+    };
+  }, [showCreate, createType, kindConfig]);
+
+  useEffect(() => {
+    if (!window.electronAPI || !showCreate || createType !== 'minikube') return;
+
+    let current = true;
+    window.electronAPI.previewMinikubeStart(minikubeOptions).then((preview) => {
+      if (current) setMinikubePreview(preview);
+    });
+    return () => {
+      current = false;
+    };
+  }, [showCreate, createType, minikubeOptions]);
+
+  useEffect(() => {
+    if (!window.electronAPI || !showCreate || createType !== 'k3d') return;
+
+    let current = true;
+    window.electronAPI.previewK3dCreate(k3dOptions).then((preview) => {
+      if (current) setK3dPreview(preview);
+    });
+    return () => {
+      current = false;
+    };
+  }, [showCreate, createType, k3dOptions]);
+
+  useEffect(() => {
+    if (!window.electronAPI || !busy) return;
+
+    return window.electronAPI.onCommandOutput(({ component, line }) => {
+      if (component !== busy) return;
+      setOutputLines(prev => [...prev, line].slice(-OUTPUT_TAIL_LENGTH));
+    });
+  }, [busy]);
+
+  // Runs one operation at a time, then re-reads the list since any of them can
+  // change what's there
+  const runOperation = async (tag: string, task: (operationId: string) => Promise<InstallationResult>) => {
+    const operationId = `${tag}-${Date.now()}`;
+    operationIdRef.current = operationId;
+    setBusy(tag);
+    setOutputLines([]);
+
+    const result = await task(operationId);
+    operationIdRef.current = null;
+    setBusy(null);
+
+    const context = { source: tag, operationId };
+    onLog(result.message, result.success ? 'success' : result.cancelled ? 'warning' : 'error', context);
+    if (result.error && !result.success && !result.cancelled) onLog(`Error details: ${result.error}`, 'error', context);
+    await refresh();
+    return result;
+  };
+
+  const handleAction = async (cluster: ClusterInfo, action: ClusterAction) => {
+    if (!window.electronAPI) return;
+
+    setConfirmingDelete(null);
+    onLog(`${ACTION_LABELS[action]} ${cluster.clusterType} cluster ${cluster.name}...`, 'info', { source: cluster.id });
+    const api = window.electronAPI;
+    await runOperation(cluster.id, (operationId) => {
+      switch (action) {
+        case 'stop':
+          return api.stopCluster(cluster.clusterType, cluster.name, { operationId });
+        case 'start':
+          return api.startExistingCluster(cluster.clusterType, cluster.name, { operationId });
+        case 'delete':
+          return api.deleteCluster(cluster.clusterType, cluster.name, { operationId });
+      }
+    });
+  };
+
+  const handleUseContext = async (cluster: ClusterInfo) => {
+    if (!window.electronAPI) return;
+
+    const result = await window.electronAPI.useClusterContext(cluster.clusterType, cluster.name);
+    onLog(result.message, result.success ? 'success' : 'error', { source: cluster.id });
+    if (result.error && !result.success) onLog(`Error details: ${result.error}`, 'error', { source: cluster.id });
+    await refresh();
+  };
+
+  const handleCreate = async () => {
+    if (!window.electronAPI) return;
+
+    onLog(`Creating ${createType} cluster...`, 'info', { source: createType });
+    const api = window.electronAPI;
+    const result = await runOperation(createType, operationId => api.startCluster(createType, {
+      operationId,
+      kind: createType === 'kind' ? kindConfig : undefined,
+      minikube: createType === 'minikube' ? minikubeOptions : undefined,
+      k3d: createType === 'k3d' ? k3dOptions : undefined
+    }));
+    if (result.success) setShowCreate(false);
+  };
+
+  const handleCancel = async () => {
+    if (!window.electronAPI || !operationIdRef.current) return;
+
+    const result = await window.electronAPI.cancelOperation(operationIdRef.current);
+    if (!result.success) onLog(result.message, 'error');
+  };
+
+  const createInvalid = createType === 'kind'
+    ? !kindPreview || kindPreview.errors.length > 0
+    : createType === 'minikube'
+      ? !minikubePreview || minikubePreview.errors.length > 0
+      : createType === 'k3d' && (!k3dPreview || k3dPreview.errors.length > 0);
+
+  // k3s runs as a Linux service, so there's nothing to create elsewhere
+  const createTypes: ClusterType[] = osInfo?.platform === 'linux'
+    ? ['kind', 'minikube', 'k3d', 'k3s']
+    : ['kind', 'minikube', 'k3d'];
+
+  if (!clusterList) {
+    return (
+      <div className="flex flex-col items-center justify-center py-12">
+        <Loader size={48} className="text-blue-600 animate-spin mb-4" />
+        <p className="text-lg text-gray-700">Looking for clusters...</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-3xl mx-auto">
+      <h2 className="text-2xl font-bold text-gray-900 mb-2 text-center">Clusters</h2>
+      <p className="text-gray-600 mb-6 text-center">
+        Kind and k3d clusters, minikube profiles and k3s on this machine. kubectl's current context is{' '}
+        <span className="font-mono">{clusterList.currentContext || 'not set'}</span>. Kind and k3d clusters
+        are listed and managed through {runtime.name}.
+      </p>
+
+      {clusterList.clusters.length === 0 ? (
+        <div className="bg-gray-50 border border-gray-200 rounded-lg p-4 mb-6 text-sm text-gray-700 text-center">
+          No clusters or minikube profiles found.
+        </div>
+      ) : (
+        <div className="space-y-3 mb-6">
+          {clusterList.clusters.map((cluster) => (
+            <div key={cluster.id} className="p-4 border border-gray-200 rounded-lg">
+              <div className="flex items-start justify-between gap-4">
+                <div className="flex items-start gap-3 min-w-0">
+                  {busy === cluster.id ? (
+                    <Loader size={24} className="text-blue-600 animate-spin flex-shrink-0" />
+                  ) : (
+                    <Server size={24} className="text-blue-600 flex-shrink-0" />
+                  )}
+                  <div className="min-w-0">
+                    <div className="flex items-center gap-2 flex-wrap">
+                      <span className="font-semibold text-gray-900">{cluster.name}</span>
+                      <span className="px-3 py-1 bg-blue-100 text-blue-800 text-sm font-medium rounded-full">
+                        {cluster.clusterType}
+                      </span>
+                      <span className={`px-3 py-1 text-sm font-medium rounded-full ${STATUS_BADGES[cluster.status]}`}>
+                        {cluster.statusDetail || cluster.status}
+                      </span>
+                      {cluster.current && (
+                        <span className="px-3 py-1 bg-purple-100 text-purple-800 text-sm font-medium rounded-full">
+                          Current
+                        </span>
+                      )}
+                    </div>
+                    <p className="text-sm text-gray-600 mt-1">
+                      Context <span className="font-mono">{cluster.context}</span>
+                      {cluster.nodes !== undefined && ` • ${cluster.nodes} node${cluster.nodes === 1 ? '' : 's'}`}
+                      {cluster.kubernetesVersion && ` • Kubernetes ${cluster.kubernetesVersion}`}
+                      {cluster.driver && ` • ${cluster.driver} driver`}
+                      {cluster.recorded && ' • Created by this installer'}
+                    </p>
+                  </div>
+                </div>
+
+                <div className="flex gap-2 flex-shrink-0">
+                  <button
+                    onClick={() => handleUseContext(cluster)}
+                    disabled={busy !== null || cluster.current}
+                    className="px-3 py-1 rounded-lg font-semibold text-gray-700 hover:bg-gray-200 text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    Use
+                  </button>
+                  {cluster.status === 'running' ? (
+                    <button
+                      onClick={() => handleAction(cluster, 'stop')}
+                      disabled={busy !== null}
+                      className="px-3 py-1 rounded-lg font-semibold text-gray-700 hover:bg-gray-200 text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      Stop
+                    </button>
+                  ) : (
+                    <button
+                      onClick={() => handleAction(cluster, 'start')}
+                      disabled={busy !== null}
+                      className="px-3 py-1 rounded-lg font-semibold text-gray-700 hover:bg-gray-200 text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      Start
+                    </button>
+                  )}
+                  {confirmingDelete === cluster.id ? (
+                    <button
+                      onClick={() => handleAction(cluster, 'delete')}
+                      disabled={busy !== null}
+                      className="bg-red-600 text-white px-3 py-1 rounded-lg font-semibold hover:bg-red-700 transition-colors text-sm disabled:bg-gray-300 disabled:cursor-not-allowed"
+                    >
+                      Confirm Delete
+                    </button>
+                  ) : (
+                    <button
+                      onClick={() => setConfirmingDelete(cluster.id)}
+                      disabled={busy !== null}
+                      className="px-3 py-1 rounded-lg font-semibold text-red-700 hover:bg-red-50 text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      Delete
+                    </button>
+                  )}
+                </div>
+              </div>
+
+              {busy === cluster.id && outputLines.length > 0 && (
+                <div className="mt-3 bg-gray-900 text-gray-300 rounded-lg p-3 font-mono text-xs">
+                  {outputLines.map((line, index) => (
+                    <div key={index} className="truncate">{line}</div>
+                  ))}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {showCreate && (
+        <div className="mb-6">
+          <div className="flex gap-2 mb-4">
+            {createTypes.map((type) => (
+              <button
+                key={type}
+                onClick={() => setCreateType(type)}
+                disabled={busy !== null}
+                className={`flex-1 border-2 rounded-lg p-3 font-semibold transition-all ${
+                  createType === type ? 'border-blue-600 bg-blue-50 text-blue-800' : 'border-gray-200 text-gray-700 hover:border-blue-300'
+                }`}
+              >
+                {CLUSTER_TYPE_NAMES[type]}
+              </button>
+            ))}
+          </div>
+
+          {createType === 'kind' && (
+            <KindConfigEditor config={kindConfig} onChange={setKindConfig} preview={kindPreview} />
+          )}
+          {createType === 'minikube' && (
+            <MinikubeOptionsEditor
+              options={minikubeOptions}
+              onChange={setMinikubeOptions}
+              preview={minikubePreview}
+              osInfo={osInfo}
+            />
+          )}
+          {createType === 'k3d' && (
+            <K3dOptionsEditor options={k3dOptions} onChange={setK3dOptions} preview={k3dPreview} />
+          )}
+          {createType === 'k3s' && (
+            <div className="border border-gray-200 rounded-lg p-4 mb-6 text-sm text-gray-700">
+              k3s has one cluster per machine, named k3s. Creating it enables the k3s service and adds a k3s
+              context to your kubeconfig.
+            </div>
+          )}
+
+          {busy === createType && outputLines.length > 0 && (
+            <div className="mb-4 bg-gray-900 text-gray-300 rounded-lg p-3 font-mono text-xs">
+              {outputLines.map((line, index) => (
+                <div key={index} className="truncate">{line}</div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+
+      <div className="flex gap-4 justify-center">
+        <button
+          onClick={onClose}
+          disabled={busy !== null}
+          className="bg-gray-500 text-white px-6 py-3 rounded-lg font-semibold hover:bg-gray-600 transition-colors disabled:bg-gray-300 disabled:cursor-not-allowed"
+        >
+          Back
+        </button>
+        <button
+          onClick={refresh}
+          disabled={busy !== null || refreshing}
+          className="flex items-center gap-2 bg-gray-500 text-white px-6 py-3 rounded-lg font-semibold hover:bg-gray-600 transition-colors disabled:bg-gray-300 disabled:cursor-not-allowed"
+        >
+          <RefreshCw size={16} className={refreshing ? 'animate-spin' : ''} />
+          Refresh
+        </button>
+        {busy !== null ? (
+          <button
+            onClick={handleCancel}
+            className="bg-gray-500 text-white px-6 py-3 rounded-lg font-semibold hover:bg-gray-600 transition-colors"
+          >
+            Cancel
+          </button>
+        ) : showCreate ? (
+          <button
+            onClick={handleCreate}
+            disabled={createInvalid}
+            className="bg-blue-600 text-white px-8 py-3 rounded-lg font-semibold hover:bg-blue-700 transition-colors disabled:bg-gray-300 disabled:cursor-not-allowed"
+          >
+            Create {CLUSTER_TYPE_NAMES[createType]} Cluster
+          </button>
+        ) : (
+          <button
+            onClick={() => setShowCreate(true)}
+            className="flex items-center gap-2 bg-blue-600 text-white px-8 py-3 rounded-lg font-semibold hover:bg-blue-700 transition-colors"
+          >
+            <Plus size={16} />
+            New Cluster
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
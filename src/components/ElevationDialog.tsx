@@ -0,0 +1,66 @@
+import React, { useState } from 'react';
+import { ShieldAlert } from 'lucide-react';
+import { ElevationRequest } from '../types';
+
+interface ElevationDialogProps {
+  request: ElevationRequest;
+  onSubmit: (password: string) => void;
+  onCancel: () => void;
+}
+
+export const ElevationDialog: React.FC<ElevationDialogProps> = ({ request, onSubmit, onCancel }) => {
+  const [password, setPassword] = useState('');
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onSubmit(password);
+    setPassword('');
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-40 flex items-center justify-center z-50">
+      <form onSubmit={handleSubmit} className="bg-white rounded-lg shadow-xl p-6 w-full max-w-md">
+        <div className="flex items-start gap-3 mb-4">
+          <ShieldAlert size={24} className="text-orange-600 flex-shrink-0" />
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900">Administrator password required</h3>
+            <p className="text-sm text-gray-600">
+              The <span className="font-mono">{request.component}</span> step needs administrator privileges.
+              Enter your password for sudo. It is kept in memory until the installer closes and never saved.
+            </p>
+          </div>
+        </div>
+
+        <input
+          type="password"
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          autoFocus
+          autoComplete="current-password"
+          placeholder="Password"
+          className="w-full border border-gray-300 rounded-lg px-3 py-2 mb-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+        {request.error && (
+          <p className="text-sm text-red-600 mb-2">{request.error} (attempt {request.attempt})</p>
+        )}
+
+        <div className="flex justify-end gap-2 mt-4">
+          <button
+            type="button"
+            onClick={onCancel}
+            className="px-4 py-2 rounded-lg font-semibold text-gray-700 hover:bg-gray-200 text-sm"
+          >
+            Cancel
+          </button>
+          <button
+            type="submit"
+            disabled={password.length === 0}
+            className="bg-blue-600 text-white px-4 py-2 rounded-lg font-semibold hover:bg-blue-700 transition-colors text-sm disabled:bg-gray-300 disabled:cursor-not-allowed"
+          >
+            Authorize
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
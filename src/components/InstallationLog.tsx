@@ -1,32 +1,232 @@
-import React, { useEffect, useRef } from 'react';
-import { Terminal } from 'lucide-react';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import {
+  Terminal,
+  ChevronDown,
+  ChevronRight,
+  CheckCircle,
+  XCircle,
+  AlertTriangle,
+  Search,
+  Copy,
+  Save
+} from 'lucide-react';
+import { LogEntry, LogLevel } from '../types';
+import { LOG_LEVELS, formatLogEntry } from '../logs';
 
 interface InstallationLogProps {
-  logs: string[];
+  logs: LogEntry[];
 }
 
+// Consecutive output lines from the same command collapse into one block
+type LogGroup =
+  | { kind: 'entry'; key: string; entry: LogEntry }
+  | { kind: 'output'; key: string; source: string; operationId: string | null; entries: LogEntry[] };
+
+const LEVEL_LABELS: Record<LogLevel, string> = {
+  debug: 'Output',
+  info: 'Info',
+  success: 'Success',
+  warning: 'Warning',
+  error: 'Error'
+};
+
+const LEVEL_STYLES: Record<LogLevel, string> = {
+  debug: 'text-gray-300',
+  info: 'text-green-400',
+  success: 'text-green-300',
+  warning: 'text-yellow-300',
+  error: 'text-red-400'
+};
+
+const LEVEL_ICONS: Partial<Record<LogLevel, React.ReactNode>> = {
+  success: <CheckCircle size={12} className="inline flex-shrink-0 mt-1" />,
+  warning: <AlertTriangle size={12} className="inline flex-shrink-0 mt-1" />,
+  error: <XCircle size={12} className="inline flex-shrink-0 mt-1" />
+};
+
+function groupEntries(entries: LogEntry[]) {
+  const groups: LogGroup[] = [];
+  entries.forEach((entry) => {
+    const last = groups[groups.length - 1];
+    if (entry.level !== 'debug') {
+      groups.push({ kind: 'entry', key: `entry-${entry.id}`, entry });
+    } else if (last && last.kind === 'output' && last.source === entry.source && last.operationId === entry.operationId) {
+      last.entries.push(entry);
+    } else {
+      groups.push({ kind: 'output', key: `output-${entry.id}`, source: entry.source, operationId: entry.operationId, entries: [entry] });
+    }
+  });
+  return groups;
+}
+
+const formatTime = (timestamp: number) => new Date(timestamp).toLocaleTimeString();
+
 export const InstallationLog: React.FC<InstallationLogProps> = ({ logs }) => {
   const logEndRef = useRef<HTMLDivElement>(null);
+  const [levels, setLevels] = useState<LogLevel[]>(LOG_LEVELS);
+  const [source, setSource] = useState('all');
+  const [query, setQuery] = useState('');
+  // Blocks the user opened or closed; the rest follow the default (only the latest open)
+  const [expanded, setExpanded] = useState<Record<string, boolean>>({});
+  const [notice, setNotice] = useState('');
+
+  const sources = useMemo(() => Array.from(new Set(logs.map(entry => entry.source))).sort(), [logs]);
+
+  const filtered = useMemo(() => {
+    const needle = query.trim().toLowerCase();
+    return logs.filter(entry => (
+      levels.includes(entry.level) &&
+      (source === 'all' || entry.source === source) &&
+      (!needle || entry.message.toLowerCase().includes(needle) || entry.source.toLowerCase().includes(needle))
+    ));
+  }, [logs, levels, source, query]);
+
+  const groups = useMemo(() => groupEntries(filtered), [filtered]);
 
   useEffect(() => {
     logEndRef.current?.scrollIntoView({ behavior: 'smooth' });
   }, [logs]);
 
+  useEffect(() => {
+    if (!notice) return;
+
+    const timer = setTimeout(() => setNotice(''), 3000);
+    return () => clearTimeout(timer);
+  }, [notice]);
+
+  const toggleLevel = (level: LogLevel) => {
+    setLevels(prev => (prev.includes(level) ? prev.filter(l => l !== level) : [...prev, level]));
+  };
+
+  const isExpanded = (group: LogGroup, index: number) => {
+    // Searching opens every block so matches aren't hidden
+    if (query.trim()) return true;
+    return expanded[group.key] ?? index === groups.length - 1;
+  };
+
+  // Copy and save take what the filters show, so narrowing first gives a focused excerpt
+  const visibleText = () => `${filtered.map(formatLogEntry).join('\n')}\n`;
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(visibleText());
+      setNotice(`Copied ${filtered.length} lines`);
+    } catch {
+      setNotice('Copy failed');
+    }
+  };
+
+  const handleSave = async () => {
+    if (!window.electronAPI) return;
+
+    const result = await window.electronAPI.saveLog(visibleText());
+    if (!result.skip) setNotice(result.message);
+  };
+
+  const renderEntry = (entry: LogEntry) => (
+    <div key={entry.id} className={`mb-1 flex gap-2 ${LEVEL_STYLES[entry.level]}`}>
+      <span className="text-gray-500 flex-shrink-0">[{formatTime(entry.timestamp)}]</span>
+      {LEVEL_ICONS[entry.level]}
+      {entry.source !== 'wizard' && (
+        <span className="px-1 rounded bg-gray-700 text-blue-300 text-xs self-start flex-shrink-0">{entry.source}</span>
+      )}
+      <span className="whitespace-pre-wrap break-words">{entry.message}</span>
+    </div>
+  );
+
+  const renderOutputLine = (entry: LogEntry) => (
+    <div key={entry.id} className={`pl-4 text-xs ${entry.stream === 'stderr' ? 'text-yellow-300' : 'text-gray-300'}`}>
+      <span className="text-gray-500">[{formatTime(entry.timestamp)}]</span>{' '}
+      <span className="whitespace-pre-wrap break-all">{entry.message}</span>
+    </div>
+  );
+
+  const renderGroup = (group: LogGroup, index: number) => {
+    if (group.kind === 'entry') return renderEntry(group.entry);
+
+    const open = isExpanded(group, index);
+    const stderrCount = group.entries.filter(entry => entry.stream === 'stderr').length;
+    return (
+      <div key={group.key} className="mb-1">
+        <button
+          onClick={() => setExpanded(prev => ({ ...prev, [group.key]: !open }))}
+          className="flex items-center gap-2 text-xs text-gray-400 hover:text-gray-200"
+        >
+          {open ? <ChevronDown size={12} /> : <ChevronRight size={12} />}
+          <span className="px-1 rounded bg-gray-700 text-blue-300">{group.source}</span>
+          <span>
+            {group.entries.length} output {group.entries.length === 1 ? 'line' : 'lines'}
+            {stderrCount > 0 && <span className="text-yellow-300"> ({stderrCount} stderr)</span>}
+          </span>
+        </button>
+        {open && group.entries.map(renderOutputLine)}
+      </div>
+    );
+  };
+
   return (
     <div className="mt-6 border border-gray-300 rounded-lg overflow-hidden">
-      <div className="bg-gray-800 text-white px-4 py-2 flex items-center gap-2">
+      <div className="bg-gray-800 text-white px-4 py-2 flex flex-wrap items-center gap-2">
         <Terminal size={16} />
-        <span className="text-sm font-semibold">Installation Log</span>
+        <span className="text-sm font-semibold mr-2">Installation Log</span>
+        {LOG_LEVELS.map(level => (
+          <button
+            key={level}
+            onClick={() => toggleLevel(level)}
+            className={`px-2 py-0.5 rounded-full text-xs font-medium transition-colors ${
+              levels.includes(level) ? 'bg-gray-600 text-white' : 'bg-gray-900 text-gray-500 line-through'
+            }`}
+          >
+            {LEVEL_LABELS[level]}
+          </button>
+        ))}
+        <select
+          value={source}
+          onChange={(e) => setSource(e.target.value)}
+          className="bg-gray-700 text-white text-xs rounded px-2 py-1"
+        >
+          <option value="all">All sources</option>
+          {sources.map(name => (
+            <option key={name} value={name}>{name}</option>
+          ))}
+        </select>
+        <div className="flex items-center gap-1 bg-gray-700 rounded px-2 py-1 flex-grow max-w-xs">
+          <Search size={12} className="text-gray-400" />
+          <input
+            type="text"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Search log..."
+            className="bg-transparent text-xs text-white placeholder-gray-400 outline-none w-full"
+          />
+        </div>
+        <div className="flex items-center gap-1 ml-auto">
+          {notice && <span className="text-xs text-gray-300 mr-2">{notice}</span>}
+          <button
+            onClick={handleCopy}
+            disabled={filtered.length === 0}
+            title="Copy visible entries"
+            className="p-1 rounded hover:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <Copy size={14} />
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={filtered.length === 0}
+            title="Save visible entries to a file"
+            className="p-1 rounded hover:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <Save size={14} />
+          </button>
+        </div>
       </div>
       <div className="bg-gray-900 text-green-400 p-4 font-mono text-sm h-48 overflow-y-auto">
         {logs.length === 0 ? (
           <div className="text-gray-500">Waiting for installation to start...</div>
+        ) : filtered.length === 0 ? (
+          <div className="text-gray-500">No entries match the current filters</div>
         ) : (
-          logs.map((log, index) => (
-            <div key={index} className="mb-1">
-              {log}
-            </div>
-          ))
+          groups.map(renderGroup)
         )}
         <div ref={logEndRef} />
       </div>
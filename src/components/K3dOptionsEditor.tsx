@@ -0,0 +1,58 @@
+import React from 'react';
+import { K3dClusterOptions, K3dCreatePreview } from '../types';
+
+interface K3dOptionsEditorProps {
+  options: K3dClusterOptions;
+  onChange: (options: K3dClusterOptions) => void;
+  preview: K3dCreatePreview | null;
+}
+
+const inputClass = 'border border-gray-300 rounded px-2 py-1 text-sm w-full mt-1';
+
+export const K3dOptionsEditor: React.FC<K3dOptionsEditorProps> = ({ options, onChange, preview }) => {
+  const update = (changes: Partial<K3dClusterOptions>) => onChange({ ...options, ...changes });
+
+  return (
+    <div className="border border-gray-200 rounded-lg p-4 mb-6 text-left">
+      <h3 className="font-semibold text-gray-900 mb-4">k3d Options</h3>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
+        <label className="text-sm text-gray-700">
+          Cluster name
+          <input
+            type="text"
+            value={options.name}
+            placeholder="k3s-default"
+            onChange={(e) => update({ name: e.target.value.trim() })}
+            className={inputClass}
+          />
+        </label>
+        <label className="text-sm text-gray-700">
+          Agent nodes
+          <input
+            type="number"
+            min={0}
+            max={10}
+            value={options.agents}
+            onChange={(e) => update({ agents: parseInt(e.target.value, 10) })}
+            className={inputClass}
+          />
+        </label>
+      </div>
+
+      {preview && preview.errors.length > 0 && (
+        <ul className="bg-red-50 border border-red-200 rounded-lg p-3 text-sm text-red-700 space-y-1">
+          {preview.errors.map((error, index) => (
+            <li key={index}>{error}</li>
+          ))}
+        </ul>
+      )}
+
+      {preview?.command && (
+        <pre className="bg-gray-900 text-gray-300 rounded-lg p-3 font-mono text-xs overflow-x-auto whitespace-pre-wrap">
+          {preview.command}
+        </pre>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,196 @@
+import React from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import { KindClusterOptions, KindConfigPreview, KindMount, KindPortMapping } from '../types';
+
+interface KindConfigEditorProps {
+  config: KindClusterOptions;
+  onChange: (config: KindClusterOptions) => void;
+  preview: KindConfigPreview | null;
+}
+
+// What an ingress controller on the control-plane node needs published to the host
+const INGRESS_PORT_MAPPINGS: KindPortMapping[] = [
+  { containerPort: 80, hostPort: 80, protocol: 'TCP' },
+  { containerPort: 443, hostPort: 443, protocol: 'TCP' }
+];
+
+const inputClass = 'border border-gray-300 rounded px-2 py-1 text-sm';
+const smallButtonClass = 'flex items-center gap-1 px-3 py-1 border border-gray-300 rounded text-sm text-gray-700 hover:bg-gray-50';
+
+export const KindConfigEditor: React.FC<KindConfigEditorProps> = ({ config, onChange, preview }) => {
+  const update = (changes: Partial<KindClusterOptions>) => onChange({ ...config, ...changes });
+
+  const updatePortMapping = (index: number, changes: Partial<KindPortMapping>) => {
+    update({ portMappings: config.portMappings.map((m, i) => (i === index ? { ...m, ...changes } : m)) });
+  };
+
+  const updateMount = (index: number, changes: Partial<KindMount>) => {
+    update({ mounts: config.mounts.map((m, i) => (i === index ? { ...m, ...changes } : m)) });
+  };
+
+  return (
+    <div className="border border-gray-200 rounded-lg p-4 mb-6 text-left">
+      <h3 className="font-semibold text-gray-900 mb-4">Kind Cluster Configuration</h3>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-4">
+        <label className="text-sm text-gray-700">
+          Cluster name
+          <input
+            type="text"
+            value={config.name}
+            onChange={(e) => update({ name: e.target.value })}
+            className={`${inputClass} w-full mt-1`}
+          />
+        </label>
+        <label className="text-sm text-gray-700">
+          Worker nodes
+          <input
+            type="number"
+            min={0}
+            value={config.workers}
+            onChange={(e) => update({ workers: parseInt(e.target.value, 10) })}
+            className={`${inputClass} w-full mt-1`}
+          />
+        </label>
+        <label className="text-sm text-gray-700">
+          Node image
+          <input
+            type="text"
+            value={config.nodeImage}
+            placeholder="kindest/node:v1.29.2"
+            onChange={(e) => update({ nodeImage: e.target.value.trim() })}
+            className={`${inputClass} w-full mt-1`}
+          />
+        </label>
+      </div>
+
+      <div className="mb-4">
+        <div className="flex items-center justify-between mb-2">
+          <span className="text-sm font-medium text-gray-900">Port mappings (control-plane node)</span>
+          <div className="flex gap-2">
+            <button
+              onClick={() => update({ portMappings: [...config.portMappings, ...INGRESS_PORT_MAPPINGS] })}
+              className={smallButtonClass}
+            >
+              <Plus size={14} /> Ingress (80, 443)
+            </button>
+            <button
+              onClick={() => update({
+                portMappings: [...config.portMappings, { containerPort: 30000, hostPort: 30000, protocol: 'TCP' }]
+              })}
+              className={smallButtonClass}
+            >
+              <Plus size={14} /> Port
+            </button>
+          </div>
+        </div>
+        {config.portMappings.map((mapping, index) => (
+          <div key={index} className="flex items-center gap-2 mb-2">
+            <input
+              type="number"
+              value={mapping.containerPort}
+              onChange={(e) => updatePortMapping(index, { containerPort: parseInt(e.target.value, 10) })}
+              className={`${inputClass} w-24`}
+              title="Container port"
+            />
+            <span className="text-gray-500 text-sm">→ host</span>
+            <input
+              type="number"
+              value={mapping.hostPort}
+              onChange={(e) => updatePortMapping(index, { hostPort: parseInt(e.target.value, 10) })}
+              className={`${inputClass} w-24`}
+              title="Host port"
+            />
+            <select
+              value={mapping.protocol}
+              onChange={(e) => updatePortMapping(index, { protocol: e.target.value as KindPortMapping['protocol'] })}
+              className={inputClass}
+            >
+              <option value="TCP">TCP</option>
+              <option value="UDP">UDP</option>
+              <option value="SCTP">SCTP</option>
+            </select>
+            <input
+              type="text"
+              value={mapping.listenAddress ?? ''}
+              placeholder="0.0.0.0"
+              onChange={(e) => updatePortMapping(index, { listenAddress: e.target.value.trim() || undefined })}
+              className={`${inputClass} w-32`}
+              title="Listen address"
+            />
+            <button
+              onClick={() => update({ portMappings: config.portMappings.filter((_, i) => i !== index) })}
+              className="text-gray-500 hover:text-red-600"
+              title="Remove"
+            >
+              <Trash2 size={16} />
+            </button>
+          </div>
+        ))}
+      </div>
+
+      <div className="mb-4">
+        <div className="flex items-center justify-between mb-2">
+          <span className="text-sm font-medium text-gray-900">Mounts (all nodes)</span>
+          <button
+            onClick={() => update({ mounts: [...config.mounts, { hostPath: '', containerPath: '', readOnly: false }] })}
+            className={smallButtonClass}
+          >
+            <Plus size={14} /> Mount
+          </button>
+        </div>
+        {config.mounts.map((mount, index) => (
+          <div key={index} className="flex items-center gap-2 mb-2">
+            <input
+              type="text"
+              value={mount.hostPath}
+              placeholder="/path/on/host"
+              onChange={(e) => updateMount(index, { hostPath: e.target.value })}
+              className={`${inputClass} flex-1`}
+            />
+            <span className="text-gray-500 text-sm">→</span>
+            <input
+              type="text"
+              value={mount.containerPath}
+              placeholder="/path/in/node"
+              onChange={(e) => updateMount(index, { containerPath: e.target.value })}
+              className={`${inputClass} flex-1`}
+            />
+            <label className="flex items-center gap-1 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={mount.readOnly}
+                onChange={(e) => updateMount(index, { readOnly: e.target.checked })}
+              />
+              Read-only
+            </label>
+            <button
+              onClick={() => update({ mounts: config.mounts.filter((_, i) => i !== index) })}
+              className="text-gray-500 hover:text-red-600"
+              title="Remove"
+            >
+              <Trash2 size={16} />
+            </button>
+          </div>
+        ))}
+      </div>
+
+      {preview && preview.errors.length > 0 && (
+        <ul className="bg-red-50 border border-red-200 rounded-lg p-3 text-sm text-red-700 space-y-1">
+          {preview.errors.map((error, index) => (
+            <li key={index}>{error}</li>
+          ))}
+        </ul>
+      )}
+
+      {preview?.yaml && (
+        <div>
+          <span className="text-sm font-medium text-gray-900">Generated config</span>
+          <pre className="mt-2 bg-gray-900 text-gray-300 rounded-lg p-3 font-mono text-xs overflow-x-auto">
+            {preview.yaml}
+          </pre>
+        </div>
+      )}
+    </div>
+  );
+};
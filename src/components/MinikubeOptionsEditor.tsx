@@ -0,0 +1,163 @@
+import React from 'react';
+import { AlertTriangle } from 'lucide-react';
+import {
+  MinikubeContainerRuntime,
+  MinikubeDriver,
+  MinikubeStartOptions,
+  MinikubeStartPreview,
+  OSInfo
+} from '../types';
+
+interface MinikubeOptionsEditorProps {
+  options: MinikubeStartOptions;
+  onChange: (options: MinikubeStartOptions) => void;
+  preview: MinikubeStartPreview | null;
+  osInfo: OSInfo | null;
+}
+
+const DRIVERS: { id: MinikubeDriver; name: string; linuxOnly: boolean }[] = [
+  { id: 'docker', name: 'Docker', linuxOnly: false },
+  { id: 'podman', name: 'Podman', linuxOnly: false },
+  { id: 'kvm2', name: 'KVM2 (VM)', linuxOnly: true },
+  { id: 'none', name: 'None (bare metal)', linuxOnly: true }
+];
+
+const CONTAINER_RUNTIMES: MinikubeContainerRuntime[] = ['docker', 'containerd', 'cri-o'];
+
+const ADDONS = ['ingress', 'ingress-dns', 'metrics-server', 'dashboard', 'registry', 'csi-hostpath-driver'];
+
+const inputClass = 'border border-gray-300 rounded px-2 py-1 text-sm w-full mt-1';
+
+export const MinikubeOptionsEditor: React.FC<MinikubeOptionsEditorProps> = ({ options, onChange, preview, osInfo }) => {
+  const update = (changes: Partial<MinikubeStartOptions>) => onChange({ ...options, ...changes });
+
+  const toggleAddon = (addon: string, enabled: boolean) => {
+    update({ addons: enabled ? [...options.addons, addon] : options.addons.filter(a => a !== addon) });
+  };
+
+  const exceedsHost = osInfo !== null && (options.cpus > osInfo.cpus || options.memory > osInfo.memory * 1024);
+
+  return (
+    <div className="border border-gray-200 rounded-lg p-4 mb-6 text-left">
+      <h3 className="font-semibold text-gray-900 mb-4">Minikube Options</h3>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-4">
+        <label className="text-sm text-gray-700">
+          Profile name
+          <input
+            type="text"
+            value={options.profile}
+            placeholder="minikube"
+            onChange={(e) => update({ profile: e.target.value.trim() })}
+            className={inputClass}
+          />
+        </label>
+        <label className="text-sm text-gray-700">
+          Driver
+          <select
+            value={options.driver}
+            onChange={(e) => update({ driver: e.target.value as MinikubeDriver })}
+            className={inputClass}
+          >
+            {DRIVERS.map((driver) => (
+              <option
+                key={driver.id}
+                value={driver.id}
+                disabled={driver.linuxOnly && osInfo?.platform !== 'linux'}
+              >
+                {driver.name}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="text-sm text-gray-700">
+          CPUs
+          <input
+            type="number"
+            min={2}
+            value={options.cpus}
+            onChange={(e) => update({ cpus: parseInt(e.target.value, 10) })}
+            className={inputClass}
+          />
+        </label>
+        <label className="text-sm text-gray-700">
+          Memory (MB)
+          <input
+            type="number"
+            min={1800}
+            step={512}
+            value={options.memory}
+            onChange={(e) => update({ memory: parseInt(e.target.value, 10) })}
+            className={inputClass}
+          />
+        </label>
+        <label className="text-sm text-gray-700">
+          Kubernetes version
+          <input
+            type="text"
+            value={options.kubernetesVersion}
+            placeholder="minikube default"
+            onChange={(e) => update({ kubernetesVersion: e.target.value.trim() })}
+            className={inputClass}
+          />
+        </label>
+        <label className="text-sm text-gray-700">
+          Container runtime
+          <select
+            value={options.containerRuntime}
+            onChange={(e) => update({ containerRuntime: e.target.value as MinikubeContainerRuntime })}
+            className={inputClass}
+          >
+            {CONTAINER_RUNTIMES.map((runtime) => (
+              <option key={runtime} value={runtime}>{runtime}</option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      <div className="mb-4">
+        <span className="text-sm font-medium text-gray-900">Addons</span>
+        <div className="grid grid-cols-2 md:grid-cols-3 gap-2 mt-2">
+          {ADDONS.map((addon) => (
+            <label key={addon} className="flex items-center gap-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={options.addons.includes(addon)}
+                onChange={(e) => toggleAddon(addon, e.target.checked)}
+              />
+              {addon}
+            </label>
+          ))}
+        </div>
+      </div>
+
+      {options.driver === 'none' && (
+        <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-3 mb-4 text-sm text-yellow-800 flex gap-2">
+          <AlertTriangle size={16} className="flex-shrink-0 mt-0.5" />
+          The none driver runs Kubernetes directly on this machine as root, without isolation. CPU and memory limits don't apply.
+        </div>
+      )}
+
+      {exceedsHost && (
+        <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-3 mb-4 text-sm text-yellow-800 flex gap-2">
+          <AlertTriangle size={16} className="flex-shrink-0 mt-0.5" />
+          This machine has {osInfo?.cpus} CPUs and {osInfo?.memory}GB of memory; minikube will fail to reserve more than that.
+        </div>
+      )}
+
+      {preview && preview.errors.length > 0 && (
+        <ul className="bg-red-50 border border-red-200 rounded-lg p-3 text-sm text-red-700 space-y-1">
+          {preview.errors.map((error, index) => (
+            <li key={index}>{error}</li>
+          ))}
+        </ul>
+      )}
+
+      {preview?.command && (
+        <pre className="bg-gray-900 text-gray-300 rounded-lg p-3 font-mono text-xs overflow-x-auto whitespace-pre-wrap">
+          {preview.command}
+        </pre>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,147 @@
+import React, { useEffect, useState } from 'react';
+import { CheckCircle, Loader, AlertCircle, ShieldAlert, Trash2 } from 'lucide-react';
+import { LedgerEntry, LogFn } from '../types';
+
+interface UninstallViewProps {
+  onClose: () => void;
+  onLog: LogFn;
+}
+
+type RemovalStatus = 'removing' | 'removed' | 'error' | 'denied';
+
+export const UninstallView: React.FC<UninstallViewProps> = ({ onClose, onLog }) => {
+  const [entries, setEntries] = useState<LedgerEntry[] | null>(null);
+  const [selected, setSelected] = useState<string[]>([]);
+  const [statuses, setStatuses] = useState<Record<string, { status: RemovalStatus; message?: string }>>({});
+  const [isRemoving, setIsRemoving] = useState(false);
+
+  useEffect(() => {
+    if (!window.electronAPI) return;
+
+    window.electronAPI.getInstallLedger().then((ledger) => {
+      setEntries(ledger);
+      setSelected(ledger.filter(entry => entry.command).map(entry => entry.id));
+    });
+  }, []);
+
+  const toggle = (id: string, checked: boolean) => {
+    setSelected(prev => (checked ? [...prev, id] : prev.filter(s => s !== id)));
+  };
+
+  const setStatus = (id: string, status: RemovalStatus, message?: string) => {
+    setStatuses(prev => ({ ...prev, [id]: { status, message } }));
+  };
+
+  // Entries are removed one at a time in ledger order: clusters first, then
+  // components newest first
+  const handleRemove = async () => {
+    if (!window.electronAPI || !entries) return;
+
+    setIsRemoving(true);
+    for (const entry of entries.filter(e => selected.includes(e.id))) {
+      setStatus(entry.id, 'removing');
+      const context = { source: entry.id, operationId: `${entry.id}-${Date.now()}` };
+      onLog(`Removing ${entry.name}...`, 'info', context);
+
+      const result = await window.electronAPI.uninstallEntry(entry.id, { operationId: context.operationId });
+      setStatus(entry.id, result.success ? 'removed' : result.elevationDenied ? 'denied' : 'error', result.message);
+      onLog(result.message, result.success ? 'success' : 'error', context);
+      if (result.error && !result.success) onLog(`Error details: ${result.error}`, 'error', context);
+    }
+    setSelected([]);
+    setIsRemoving(false);
+  };
+
+  const getStatusIcon = (status?: RemovalStatus) => {
+    switch (status) {
+      case 'removing':
+        return <Loader size={20} className="text-blue-600 animate-spin" />;
+      case 'removed':
+        return <CheckCircle size={20} className="text-green-600" />;
+      case 'error':
+        return <AlertCircle size={20} className="text-red-600" />;
+      case 'denied':
+        return <ShieldAlert size={20} className="text-orange-600" />;
+      default:
+        return <Trash2 size={20} className="text-gray-400" />;
+    }
+  };
+
+  if (!entries) {
+    return (
+      <div className="flex flex-col items-center justify-center py-12">
+        <Loader size={48} className="text-blue-600 animate-spin mb-4" />
+        <p className="text-lg text-gray-700">Reading installation records...</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-3xl mx-auto">
+      <h2 className="text-2xl font-bold text-gray-900 mb-2 text-center">Uninstall</h2>
+      <p className="text-gray-600 mb-6 text-center">
+        Removes what this installer added: clusters it created first, then components and the package repositories they came from in reverse install order.
+        Anything that was already on this machine is left alone.
+      </p>
+
+      {entries.length === 0 ? (
+        <div className="bg-gray-50 border border-gray-200 rounded-lg p-4 mb-6 text-sm text-gray-700 text-center">
+          Nothing has been recorded. Components, package repositories and clusters appear here after the installer adds them.
+        </div>
+      ) : (
+        <div className="space-y-3 mb-6">
+          {entries.map((entry) => {
+            const removal = statuses[entry.id];
+            return (
+              <label key={entry.id} className="flex items-start gap-3 p-4 border border-gray-200 rounded-lg">
+                <input
+                  type="checkbox"
+                  checked={selected.includes(entry.id)}
+                  disabled={!entry.command || isRemoving || removal?.status === 'removed'}
+                  onChange={(e) => toggle(entry.id, e.target.checked)}
+                  className="w-4 h-4 mt-1"
+                />
+                {getStatusIcon(removal?.status)}
+                <div className="flex-grow min-w-0">
+                  <div className="flex items-center justify-between">
+                    <span className="font-semibold text-gray-900">
+                      {entry.name}{entry.version ? ` ${entry.version}` : ''}
+                    </span>
+                    <span className="text-xs text-gray-500">
+                      {new Date(entry.recordedAt).toLocaleString()}
+                    </span>
+                  </div>
+                  {removal?.message && <p className="text-sm text-gray-600 mt-1">{removal.message}</p>}
+                  {entry.command ? (
+                    <pre className="bg-gray-900 text-gray-300 rounded-lg p-2 mt-2 font-mono text-xs overflow-x-auto">
+                      {entry.command}
+                    </pre>
+                  ) : (
+                    <p className="text-sm text-red-600 mt-1">{entry.error}</p>
+                  )}
+                </div>
+              </label>
+            );
+          })}
+        </div>
+      )}
+
+      <div className="flex gap-4 justify-center">
+        <button
+          onClick={onClose}
+          disabled={isRemoving}
+          className="bg-gray-500 text-white px-6 py-3 rounded-lg font-semibold hover:bg-gray-600 transition-colors disabled:bg-gray-300 disabled:cursor-not-allowed"
+        >
+          Back
+        </button>
+        <button
+          onClick={handleRemove}
+          disabled={isRemoving || selected.length === 0}
+          className="bg-red-600 text-white px-8 py-3 rounded-lg font-semibold hover:bg-red-700 transition-colors disabled:bg-gray-300 disabled:cursor-not-allowed"
+        >
+          {isRemoving ? 'Removing...' : 'Remove Selected'}
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -1,48 +1,170 @@
-import React, { useState } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import { Server, Loader, CheckCircle, AlertCircle } from 'lucide-react';
+import {
+  ContainerRuntimeId,
+  K3dClusterOptions,
+  K3dCreatePreview,
+  KindClusterOptions,
+  KindConfigPreview,
+  LogFn,
+  MinikubeStartOptions,
+  MinikubeStartPreview,
+  OSInfo
+} from '../../types';
+import { KindConfigEditor } from '../KindConfigEditor';
+import { MinikubeOptionsEditor } from '../MinikubeOptionsEditor';
+import { K3dOptionsEditor } from '../K3dOptionsEditor';
+import { DEFAULT_K3D_OPTIONS, DEFAULT_KIND_CONFIG, defaultMinikubeOptions } from '../../clusterDefaults';
+import { CONTAINER_RUNTIMES, DEFAULT_CONTAINER_RUNTIME } from '../../runtimes';
 
 interface ClusterSetupStepProps {
   onNext: () => void;
-  onLog: (message: string) => void;
+  onLog: LogFn;
+  osInfo: OSInfo | null;
+  containerRuntime: ContainerRuntimeId | null;
+  // The cluster the reviewed plan included, if any
+  initialCluster: ClusterType;
 }
 
-type ClusterType = 'minikube' | 'kind' | null;
-type SetupStatus = 'idle' | 'starting' | 'success' | 'error';
+type ClusterType = 'minikube' | 'kind' | 'k3d' | 'k3s' | null;
+type SetupStatus = 'idle' | 'starting' | 'success' | 'error' | 'cancelled';
 
-export const ClusterSetupStep: React.FC<ClusterSetupStepProps> = ({ onNext, onLog }) => {
-  const [selectedCluster, setSelectedCluster] = useState<ClusterType>(null);
+// Number of streamed output lines kept visible while the cluster starts
+const OUTPUT_TAIL_LENGTH = 8;
+
+export const ClusterSetupStep: React.FC<ClusterSetupStepProps> = ({
+  onNext,
+  onLog,
+  osInfo,
+  containerRuntime,
+  initialCluster
+}) => {
+  const runtime = CONTAINER_RUNTIMES[containerRuntime || DEFAULT_CONTAINER_RUNTIME];
+  const [selectedCluster, setSelectedCluster] = useState<ClusterType>(initialCluster);
   const [setupStatus, setSetupStatus] = useState<SetupStatus>('idle');
   const [errorMessage, setErrorMessage] = useState<string>('');
+  const [outputLines, setOutputLines] = useState<string[]>([]);
+  const [isCancelling, setIsCancelling] = useState(false);
+  const [kindConfig, setKindConfig] = useState<KindClusterOptions>(DEFAULT_KIND_CONFIG);
+  const [kindPreview, setKindPreview] = useState<KindConfigPreview | null>(null);
+  const [minikubeOptions, setMinikubeOptions] = useState<MinikubeStartOptions>(
+    () => defaultMinikubeOptions(osInfo, runtime.id)
+  );
+  const [minikubePreview, setMinikubePreview] = useState<MinikubeStartPreview | null>(null);
+  const [k3dOptions, setK3dOptions] = useState<K3dClusterOptions>(DEFAULT_K3D_OPTIONS);
+  const [k3dPreview, setK3dPreview] = useState<K3dCreatePreview | null>(null);
+  const operationIdRef = useRef<string | null>(null);
+
+  // The main process owns validation and rendering, so the preview is exactly what
+  // `kind create cluster --config` will receive
+  useEffect(() => {
+    if (!window.electronAPI || selectedCluster !== 'kind') return;
+
+    let current = true;
+    window.electronAPI.previewKindConfig(kindConfig).then((preview) => {
+      if (current) setKindPreview(preview);
+    });
+    return () => {
+      current = false;
+    };
+  }, [selectedCluster, kindConfig]);
+
+  useEffect(() => {
+    if (!window.electronAPI || selectedCluster !== 'minikube') return;
+
+    let current = true;
+    window.electronAPI.previewMinikubeStart(minikubeOptions).then((preview) => {
+      if (current) setMinikubePreview(preview);
+    });
+    return () => {
+      current = false;
+    };
+  }, [selectedCluster, minikubeOptions]);
+
+  useEffect(() => {
+    if (!window.electronAPI || selectedCluster !== 'k3d') return;
+
+    let current = true;
+    window.electronAPI.previewK3dCreate(k3dOptions).then((preview) => {
+      if (current) setK3dPreview(preview);
+    });
+    return () => {
+      current = false;
+    };
+  }, [selectedCluster, k3dOptions]);
+
+  const optionsInvalid = selectedCluster === 'kind'
+    ? !kindPreview || kindPreview.errors.length > 0
+    : selectedCluster === 'minikube'
+      ? !minikubePreview || minikubePreview.errors.length > 0
+      : selectedCluster === 'k3d' && (!k3dPreview || k3dPreview.errors.length > 0);
+
+  useEffect(() => {
+    if (!window.electronAPI || setupStatus !== 'starting' || !selectedCluster) return;
+
+    return window.electronAPI.onCommandOutput(({ component, line }) => {
+      if (component !== selectedCluster) return;
+      setOutputLines(prev => [...prev, line].slice(-OUTPUT_TAIL_LENGTH));
+    });
+  }, [setupStatus, selectedCluster]);
 
   const handleStartCluster = async () => {
     if (!selectedCluster || !window.electronAPI) return;
 
     setSetupStatus('starting');
     setErrorMessage('');
-    onLog(`Starting ${selectedCluster} cluster...`);
+    setOutputLines([]);
+    setIsCancelling(false);
+    const operationId = `${selectedCluster}-${Date.now()}`;
+    operationIdRef.current = operationId;
+    const context = { source: selectedCluster, operationId };
+    onLog(`Starting ${selectedCluster} cluster...`, 'info', context);
 
     try {
-      const result = await window.electronAPI.startCluster(selectedCluster);
+      const result = await window.electronAPI.startCluster(selectedCluster, {
+        operationId,
+        kind: selectedCluster === 'kind' ? kindConfig : undefined,
+        minikube: selectedCluster === 'minikube' ? minikubeOptions : undefined,
+        k3d: selectedCluster === 'k3d' ? k3dOptions : undefined
+      });
+      operationIdRef.current = null;
 
-      if (result.success) {
+      if (result.cancelled) {
+        setSetupStatus('cancelled');
+        setErrorMessage(result.message);
+        onLog(result.message, 'warning', context);
+      } else if (result.success) {
         setSetupStatus('success');
-        onLog(`✓ ${selectedCluster} cluster started successfully`);
+        onLog(`${selectedCluster} cluster started successfully`, 'success', context);
         if (result.output) {
-          onLog(result.output);
+          onLog(result.output, 'info', context);
         }
       } else {
         setSetupStatus('error');
         setErrorMessage(result.message || 'Failed to start cluster');
-        onLog(`✗ Failed to start cluster: ${result.message}`);
+        onLog(`Failed to start cluster: ${result.message}`, 'error', context);
         if (result.error) {
-          onLog(`Error: ${result.error}`);
+          onLog(`Error: ${result.error}`, 'error', context);
         }
       }
     } catch (error) {
+      operationIdRef.current = null;
       setSetupStatus('error');
       const errorMsg = error instanceof Error ? error.message : 'Unknown error';
       setErrorMessage(errorMsg);
-      onLog(`✗ Error: ${errorMsg}`);
+      onLog(`Error: ${errorMsg}`, 'error', context);
+    }
+  };
+
+  const handleCancel = async () => {
+    if (!window.electronAPI || !operationIdRef.current) return;
+
+    setIsCancelling(true);
+    onLog(`Cancelling ${selectedCluster} cluster start...`);
+    const result = await window.electronAPI.cancelOperation(operationIdRef.current);
+    if (!result.success) {
+      setIsCancelling(false);
+      onLog(result.message, 'error');
     }
   };
 
@@ -52,14 +174,36 @@ export const ClusterSetupStep: React.FC<ClusterSetupStepProps> = ({ onNext, onLo
       name: 'Minikube',
       description: 'Easy to use, great for beginners. Runs a single-node cluster in a VM.',
       features: ['Single-node cluster', 'Easy setup', 'Good for learning', 'Dashboard included'],
-      recommended: true
+      recommended: runtime.minikubeDriver !== 'none',
+      unavailable: null
     },
     {
       id: 'kind' as ClusterType,
       name: 'Kind',
       description: 'Kubernetes IN Docker. Lightweight and fast, great for testing.',
-      features: ['Multi-node support', 'Fast startup', 'Uses Docker', 'CI/CD friendly'],
-      recommended: false
+      features: ['Multi-node support', 'Fast startup', `Uses ${runtime.name}`, 'CI/CD friendly'],
+      recommended: runtime.minikubeDriver === 'none',
+      unavailable: null
+    },
+    {
+      id: 'k3d' as ClusterType,
+      name: 'k3d',
+      description: 'k3s in containers. Starts quicker than kind, great for local CI.',
+      features: ['Multi-node support', 'Fastest startup', `Uses ${runtime.name}`, 'CI/CD friendly'],
+      recommended: false,
+      unavailable: !runtime.k3d
+        ? `k3d can't run nodes on ${runtime.name}`
+        : runtime.id === 'podman' && osInfo?.platform !== 'linux'
+          ? 'k3d only reaches Podman on Linux'
+          : null
+    },
+    {
+      id: 'k3s' as ClusterType,
+      name: 'k3s',
+      description: 'Lightweight Kubernetes run directly on this machine as a system service.',
+      features: ['Single-node cluster', 'No container runtime needed', 'Same k3s as the edge', 'Runs as root'],
+      recommended: false,
+      unavailable: osInfo?.platform === 'linux' ? null : 'k3s only runs on Linux'
     }
   ];
 
@@ -76,11 +220,15 @@ export const ClusterSetupStep: React.FC<ClusterSetupStepProps> = ({ onNext, onLo
             {clusterOptions.map((option) => (
               <div
                 key={option.id}
-                onClick={() => setSelectedCluster(option.id)}
-                className={`border-2 rounded-lg p-6 cursor-pointer transition-all ${
-                  selectedCluster === option.id
-                    ? 'border-blue-600 bg-blue-50'
-                    : 'border-gray-200 hover:border-blue-300'
+                onClick={() => {
+                  if (!option.unavailable) setSelectedCluster(option.id);
+                }}
+                className={`border-2 rounded-lg p-6 transition-all ${
+                  option.unavailable
+                    ? 'border-gray-100 bg-gray-50 opacity-60 cursor-not-allowed'
+                    : selectedCluster === option.id
+                      ? 'border-blue-600 bg-blue-50 cursor-pointer'
+                      : 'border-gray-200 hover:border-blue-300 cursor-pointer'
                 }`}
               >
                 {option.recommended && (
@@ -95,6 +243,7 @@ export const ClusterSetupStep: React.FC<ClusterSetupStepProps> = ({ onNext, onLo
                   <h3 className="text-xl font-bold text-gray-900">{option.name}</h3>
                 </div>
                 <p className="text-gray-600 mb-4">{option.description}</p>
+                {option.unavailable && <p className="text-sm text-yellow-700 mb-4">{option.unavailable}</p>}
                 <ul className="space-y-2">
                   {option.features.map((feature, index) => (
                     <li key={index} className="flex items-center gap-2 text-sm text-gray-700">
@@ -107,10 +256,34 @@ export const ClusterSetupStep: React.FC<ClusterSetupStepProps> = ({ onNext, onLo
             ))}
           </div>
 
+          {selectedCluster === 'minikube' && (
+            <MinikubeOptionsEditor
+              options={minikubeOptions}
+              onChange={setMinikubeOptions}
+              preview={minikubePreview}
+              osInfo={osInfo}
+            />
+          )}
+
+          {selectedCluster === 'kind' && (
+            <KindConfigEditor config={kindConfig} onChange={setKindConfig} preview={kindPreview} />
+          )}
+
+          {selectedCluster === 'k3d' && (
+            <K3dOptionsEditor options={k3dOptions} onChange={setK3dOptions} preview={k3dPreview} />
+          )}
+
+          {selectedCluster === 'k3s' && (
+            <div className="border border-gray-200 rounded-lg p-4 mb-6 text-left text-sm text-gray-700">
+              k3s has one cluster per machine, named k3s. Starting it enables the k3s service and adds a k3s
+              context to your kubeconfig.
+            </div>
+          )}
+
           <div className="text-center">
             <button
               onClick={handleStartCluster}
-              disabled={!selectedCluster}
+              disabled={!selectedCluster || optionsInvalid}
               className="bg-blue-600 text-white px-8 py-3 rounded-lg font-semibold hover:bg-blue-700 transition-colors disabled:bg-gray-300 disabled:cursor-not-allowed"
             >
               {selectedCluster ? `Start ${selectedCluster} Cluster` : 'Select a Cluster Type'}
@@ -129,6 +302,20 @@ export const ClusterSetupStep: React.FC<ClusterSetupStepProps> = ({ onNext, onLo
           <div className="mt-4 text-sm text-gray-500">
             <p>The cluster is downloading images and initializing components</p>
           </div>
+          {outputLines.length > 0 && (
+            <div className="mt-6 bg-gray-900 text-gray-300 rounded-lg p-3 font-mono text-xs text-left max-w-2xl mx-auto">
+              {outputLines.map((line, index) => (
+                <div key={index} className="truncate">{line}</div>
+              ))}
+            </div>
+          )}
+          <button
+            onClick={handleCancel}
+            disabled={isCancelling}
+            className="mt-6 bg-gray-500 text-white px-6 py-2 rounded-lg font-semibold hover:bg-gray-600 transition-colors disabled:bg-gray-300 disabled:cursor-not-allowed"
+          >
+            {isCancelling ? 'Cancelling...' : 'Cancel'}
+          </button>
         </div>
       )}
 
@@ -150,12 +337,14 @@ export const ClusterSetupStep: React.FC<ClusterSetupStepProps> = ({ onNext, onLo
         </div>
       )}
 
-      {setupStatus === 'error' && (
+      {(setupStatus === 'error' || setupStatus === 'cancelled') && (
         <div className="text-center py-12">
           <div className="w-20 h-20 bg-red-100 rounded-full flex items-center justify-center mx-auto mb-4">
             <AlertCircle size={40} className="text-red-600" />
           </div>
-          <h3 className="text-2xl font-bold text-gray-900 mb-2">Cluster Setup Failed</h3>
+          <h3 className="text-2xl font-bold text-gray-900 mb-2">
+            {setupStatus === 'cancelled' ? 'Cluster Setup Cancelled' : 'Cluster Setup Failed'}
+          </h3>
           <p className="text-gray-600 mb-4">{errorMessage}</p>
           <div className="flex gap-4 justify-center">
             <button
@@ -0,0 +1,239 @@
+import React, { useEffect, useState } from 'react';
+import { AlertTriangle, ListOrdered } from 'lucide-react';
+import { ContainerRuntimeId, InstallPlanEntry, LogFn, PrerequisitesCheck } from '../../types';
+import { CONTAINER_RUNTIMES, DEFAULT_CONTAINER_RUNTIME, isContainerRuntimeId } from '../../runtimes';
+
+interface ComponentSelectionStepProps {
+  onNext: () => void;
+  onLog: LogFn;
+  prerequisites: PrerequisitesCheck;
+  onPlanned: (plan: string[]) => void;
+  // The runtime chosen last time, if any
+  containerRuntime: ContainerRuntimeId | null;
+  onContainerRuntimeChosen: (runtime: ContainerRuntimeId) => void;
+}
+
+const CLUSTER_TOOLS = ['minikube', 'kind', 'k3d', 'k3s'];
+// The cluster tools that run nodes on the chosen runtime; k3s brings its own containerd
+const RUNTIME_TOOLS = ['minikube', 'kind', 'k3d'];
+
+const needsRuntime = (selected: string[]) => selected.some(id => RUNTIME_TOOLS.includes(id));
+
+// Required components, Helm, and whichever cluster tool is already installed
+// (Minikube when there is none) — what the wizard installed before selection existed
+const defaultSelection = (prerequisites: PrerequisitesCheck) => {
+  const selection = Object.keys(prerequisites).filter(id => (
+    prerequisites[id].installable && (prerequisites[id].required || id === 'helm')
+  ));
+
+  const installedTools = CLUSTER_TOOLS.filter(id => prerequisites[id]?.installed);
+  return [...selection, ...(installedTools.length > 0 ? installedTools : ['minikube'])];
+};
+
+// The runtimes this machine can have, as the checks list them (nerdctl is Linux only)
+const availableRuntimes = (prerequisites: PrerequisitesCheck) => Object.keys(prerequisites).filter(
+  (id): id is ContainerRuntimeId => isContainerRuntimeId(id) && prerequisites[id].provides.includes('container-runtime')
+);
+
+// Last time's choice, then one that's already installed, then Docker
+const defaultRuntime = (prerequisites: PrerequisitesCheck, chosen: ContainerRuntimeId | null) => {
+  const runtimes = availableRuntimes(prerequisites);
+  if (chosen && runtimes.includes(chosen)) return chosen;
+  return runtimes.find(id => prerequisites[id].installed) ||
+    (runtimes.includes(DEFAULT_CONTAINER_RUNTIME) ? DEFAULT_CONTAINER_RUNTIME : runtimes[0]) ||
+    null;
+};
+
+export const ComponentSelectionStep: React.FC<ComponentSelectionStepProps> = ({
+  onNext,
+  onLog,
+  prerequisites,
+  onPlanned,
+  containerRuntime,
+  onContainerRuntimeChosen
+}) => {
+  const [selected, setSelected] = useState<string[]>(() => defaultSelection(prerequisites));
+  const [runtime, setRuntime] = useState<ContainerRuntimeId | null>(() => defaultRuntime(prerequisites, containerRuntime));
+  const [plan, setPlan] = useState<InstallPlanEntry[]>([]);
+  const [planError, setPlanError] = useState<string>('');
+
+  useEffect(() => {
+    if (!window.electronAPI) return;
+
+    const installed = Object.keys(prerequisites).filter(id => prerequisites[id].installed);
+    // The chosen runtime joins the plan with the tools that need it, and is what they get
+    const selection = runtime && needsRuntime(selected) && !selected.includes(runtime) ? [...selected, runtime] : selected;
+    let current = true;
+    window.electronAPI.resolveInstallPlan(selection, installed).then((result) => {
+      if (!current) return;
+      setPlan(result.plan);
+      setPlanError(result.success ? '' : result.message);
+    });
+    return () => {
+      current = false;
+    };
+  }, [selected, runtime, prerequisites]);
+
+  const toggle = (id: string, checked: boolean) => {
+    setSelected(prev => (checked ? [...prev, id] : prev.filter(s => s !== id)));
+  };
+
+  const neededBy = (id: string) => plan.find(entry => entry.id === id)?.neededBy ?? null;
+
+  const describeAction = (id: string) => {
+    const check = prerequisites[id];
+    if (check.versionMismatch) return `Reinstall ${check.pinnedVersion} (found ${check.version})`;
+    if (check.installed) return `Already installed (${check.version})`;
+    return check.pinnedVersion ? `Install ${check.pinnedVersion}` : 'Install';
+  };
+
+  // The runtime is only kept when the plan has it; k3s alone leaves the last choice
+  const handleContinue = async () => {
+    if (runtime && plan.some(entry => entry.id === runtime) && window.electronAPI) {
+      const result = await window.electronAPI.setContainerRuntime(runtime);
+      onLog(result.message, result.success ? 'info' : 'error');
+      if (!result.success) return;
+      onContainerRuntimeChosen(runtime);
+    }
+
+    const ids = plan.map(entry => entry.id);
+    onLog(`Installation plan: ${plan.map(entry => entry.name).join(' → ')}`);
+    onPlanned(ids);
+    onNext();
+  };
+
+  const runtimes = availableRuntimes(prerequisites);
+  const hasClusterTool = plan.some(entry => CLUSTER_TOOLS.includes(entry.id));
+
+  return (
+    <div className="max-w-3xl mx-auto">
+      <h2 className="text-2xl font-bold text-gray-900 mb-2 text-center">Select Components</h2>
+      <p className="text-gray-600 mb-6 text-center">
+        Choose what to install. Anything a selected component depends on is added automatically.
+      </p>
+
+      {runtimes.length > 0 && (
+        <div className="border border-gray-200 rounded-lg p-4 mb-6">
+          <h3 className="font-semibold text-gray-900 mb-1">Container Runtime</h3>
+          <p className="text-sm text-gray-600 mb-3">Kind, Minikube and k3d run cluster nodes as containers on this runtime.</p>
+          <div className="space-y-2">
+            {runtimes.map((id) => {
+              const check = prerequisites[id];
+              const usable = check.installed || check.installable;
+              return (
+                <label key={id} className={`flex items-start gap-3 ${usable ? 'cursor-pointer' : 'text-gray-400'}`}>
+                  <input
+                    type="radio"
+                    name="container-runtime"
+                    checked={runtime === id}
+                    disabled={!usable}
+                    onChange={() => setRuntime(id)}
+                    className="w-4 h-4 mt-0.5"
+                  />
+                  <div>
+                    <span className="text-sm font-medium">{CONTAINER_RUNTIMES[id].name}</span>
+                    <p className="text-xs text-gray-500">
+                      {check.installed ? `Installed (${check.version})` : usable ? 'Will be installed' : check.unsupportedReason}
+                      {id === 'podman' && ' · rootless'}
+                      {id === 'nerdctl' && ' · kind, or minikube with the none driver; runs as root'}
+                    </p>
+                  </div>
+                </label>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
+      <div className="space-y-3 mb-6">
+        {Object.entries(prerequisites).map(([id, check]) => {
+          const pulledInBy = neededBy(id);
+          const chosenRuntime = id === runtime && needsRuntime(selected);
+          const locked = check.required || pulledInBy !== null || chosenRuntime;
+          const isChecked = selected.includes(id) || pulledInBy !== null || chosenRuntime;
+
+          return (
+            <label
+              key={id}
+              className={`flex items-center justify-between p-4 border rounded-lg ${
+                check.installable ? 'border-gray-200 cursor-pointer hover:bg-gray-50' : 'border-gray-100 bg-gray-50'
+              }`}
+            >
+              <div className="flex items-center gap-3">
+                <input
+                  type="checkbox"
+                  checked={isChecked}
+                  disabled={!check.installable || locked}
+                  onChange={(e) => toggle(id, e.target.checked)}
+                  className="w-4 h-4"
+                />
+                <div>
+                  <span className="font-semibold text-gray-900">{check.name}</span>
+                  {pulledInBy && <p className="text-sm text-gray-500">Needed by {pulledInBy}</p>}
+                  {chosenRuntime && !pulledInBy && <p className="text-sm text-gray-500">Chosen container runtime</p>}
+                  {!check.installable && (
+                    <p className="text-sm text-gray-500">
+                      {check.unsupportedReason || 'Not installed by this wizard'}
+                    </p>
+                  )}
+                </div>
+              </div>
+              <span
+                className={`px-3 py-1 text-sm font-medium rounded-full ${
+                  check.required ? 'bg-blue-100 text-blue-800' : 'bg-gray-100 text-gray-700'
+                }`}
+              >
+                {check.required ? 'Required' : 'Optional'}
+              </span>
+            </label>
+          );
+        })}
+      </div>
+
+      <div className="border border-gray-200 rounded-lg p-4 mb-6">
+        <h3 className="flex items-center gap-2 font-semibold text-gray-900 mb-3">
+          <ListOrdered size={18} /> Installation Plan
+        </h3>
+        {planError ? (
+          <p className="text-sm text-red-600">{planError}</p>
+        ) : (
+          <ol className="space-y-2">
+            {plan.map((entry, index) => (
+              <li key={entry.id} className="flex items-center justify-between text-sm">
+                <span className="text-gray-900">
+                  {index + 1}. {entry.name}
+                </span>
+                <span className={prerequisites[entry.id]?.installed && !prerequisites[entry.id]?.versionMismatch
+                  ? 'text-gray-500'
+                  : 'text-blue-700 font-medium'}
+                >
+                  {describeAction(entry.id)}
+                </span>
+              </li>
+            ))}
+          </ol>
+        )}
+      </div>
+
+      {!hasClusterTool && (
+        <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4 mb-6 flex items-start gap-3">
+          <AlertTriangle size={20} className="text-yellow-600 flex-shrink-0 mt-0.5" />
+          <p className="text-sm text-yellow-800">
+            No cluster tool (Minikube, Kind, k3d or k3s) is selected. You'll need one of them to create a cluster in the
+            next steps.
+          </p>
+        </div>
+      )}
+
+      <div className="text-center">
+        <button
+          onClick={handleContinue}
+          disabled={plan.length === 0 || !!planError}
+          className="bg-blue-600 text-white px-8 py-3 rounded-lg font-semibold hover:bg-blue-700 transition-colors disabled:bg-gray-300 disabled:cursor-not-allowed"
+        >
+          Review Plan
+        </button>
+      </div>
+    </div>
+  );
+};
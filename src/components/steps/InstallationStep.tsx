@@ -1,35 +1,57 @@
-import React, { useState, useEffect } from 'react';
-import { CheckCircle, Loader, AlertCircle, Download } from 'lucide-react';
-import { PrerequisitesCheck } from '../../types';
+import React, { useState, useEffect, useRef } from 'react';
+import { CheckCircle, Loader, AlertCircle, Download, XCircle, ShieldAlert } from 'lucide-react';
+import { LogFn, PrerequisitesCheck } from '../../types';
 
 interface InstallationStepProps {
   onNext: () => void;
-  onLog: (message: string) => void;
+  onLog: LogFn;
   prerequisites: PrerequisitesCheck;
+  // Ordered component IDs from the selection step, dependencies first
+  plan: string[];
   platform: string;
+  // Installed in an earlier run of a resumed session
+  completedComponents: string[];
+  onComponentInstalled: (key: string) => void;
+  // Opens the uninstall view to undo what this run installed
+  onRollback: () => void;
 }
 
 interface ComponentStatus {
   name: string;
   key: string;
-  status: 'pending' | 'installing' | 'success' | 'error' | 'skipped';
+  status: 'pending' | 'installing' | 'success' | 'error' | 'denied' | 'skipped' | 'cancelled';
   message?: string;
+  output?: string;
 }
 
 export const InstallationStep: React.FC<InstallationStepProps> = ({
   onNext,
   onLog,
   prerequisites,
-  platform
+  plan,
+  platform,
+  completedComponents,
+  onComponentInstalled,
+  onRollback
 }) => {
   const [components, setComponents] = useState<ComponentStatus[]>([]);
   const [currentIndex, setCurrentIndex] = useState(-1);
   const [isComplete, setIsComplete] = useState(false);
+  const [isCancelling, setIsCancelling] = useState(false);
+  const operationIdRef = useRef<string | null>(null);
 
   useEffect(() => {
     initializeComponents();
   }, []);
 
+  useEffect(() => {
+    if (!window.electronAPI) return;
+
+    return window.electronAPI.onCommandOutput(({ component, line }) => {
+      setComponents(prev => prev.map(c => (c.key === component ? { ...c, output: line } : c)));
+    });
+  }, []);
+
   useEffect(() => {
     if (currentIndex >= 0 && currentIndex < components.length) {
       installComponent(currentIndex);
@@ -38,10 +60,17 @@ export const InstallationStep: React.FC<InstallationStepProps> = ({
     }
   }, [currentIndex]);
 
+  // Missing components are installed; ones that don't match their version pin are reinstalled.
+  // Anything a resumed session already installed is left alone, even if detection
+  // doesn't see it yet (PATH or group changes often need a new login).
+  const needsInstall = (key: string) => !completedComponents.includes(key) &&
+    (!prerequisites[key].installed || prerequisites[key].versionMismatch);
+
   const initializeComponents = () => {
     const toInstall: ComponentStatus[] = [];
 
-    if (platform === 'darwin' && !window.electronAPI) {
+    // Like the plan (and the CLI), Homebrew comes first whenever something is installed
+    if (platform === 'darwin' && plan.some(needsInstall)) {
       toInstall.push({
         name: 'Homebrew',
         key: 'homebrew',
@@ -49,37 +78,13 @@ export const InstallationStep: React.FC<InstallationStepProps> = ({
       });
     }
 
-    if (!prerequisites.docker.installed) {
-      toInstall.push({
-        name: 'Docker',
-        key: 'docker',
-        status: 'pending'
-      });
-    }
-
-    if (!prerequisites.kubectl.installed) {
+    plan.filter(needsInstall).forEach((key) => {
       toInstall.push({
-        name: 'kubectl',
-        key: 'kubectl',
+        name: prerequisites[key].required ? prerequisites[key].name : `${prerequisites[key].name} (Optional)`,
+        key,
         status: 'pending'
       });
-    }
-
-    if (!prerequisites.minikube.installed && !prerequisites.kind.installed) {
-      toInstall.push({
-        name: 'Minikube',
-        key: 'minikube',
-        status: 'pending'
-      });
-    }
-
-    if (!prerequisites.helm.installed) {
-      toInstall.push({
-        name: 'Helm (Optional)',
-        key: 'helm',
-        status: 'pending'
-      });
-    }
+    });
 
     if (toInstall.length === 0) {
       toInstall.push({
@@ -105,43 +110,78 @@ export const InstallationStep: React.FC<InstallationStepProps> = ({
     if (!window.electronAPI) return;
 
     const component = components[index];
+    const operationId = `${component.key}-${Date.now()}`;
+    operationIdRef.current = operationId;
     updateComponentStatus(index, 'installing');
-    onLog(`Installing ${component.name}...`);
+    onLog(`Installing ${component.name}...`, 'info', { source: component.key, operationId });
 
     try {
       let result;
 
       switch (component.key) {
         case 'homebrew':
-          result = await window.electronAPI.installHomebrew();
+          result = await window.electronAPI.installHomebrew({ operationId });
           break;
         case 'check':
           result = { success: true, message: 'All components already installed' };
           break;
         default:
-          result = await window.electronAPI.installComponent(component.key);
+          result = await window.electronAPI.installComponent(component.key, {
+            operationId,
+            version: prerequisites[component.key]?.pinnedVersion ?? undefined
+          });
       }
 
-      if (result.success || result.skip) {
+      operationIdRef.current = null;
+
+      if (result.cancelled) {
+        updateComponentStatus(index, 'cancelled', result.message);
+        onLog(`${component.name}: ${result.message}`, 'warning', { source: component.key, operationId });
+        // Nothing after a cancelled component gets installed
+        setComponents(prev => prev.map((c, i) => (
+          i > index && c.status === 'pending' ? { ...c, status: 'skipped', message: 'Cancelled' } : c
+        )));
+        setIsCancelling(false);
+        setIsComplete(true);
+      } else if (result.success || result.skip) {
         updateComponentStatus(index, result.skip ? 'skipped' : 'success', result.message);
-        onLog(`✓ ${component.name}: ${result.message}`);
+        if (result.success && component.key !== 'check') onComponentInstalled(component.key);
+        onLog(`${component.name}: ${result.message}`, 'success', { source: component.key, operationId });
         setTimeout(() => setCurrentIndex(index + 1), 1000);
+      } else if (result.elevationDenied) {
+        updateComponentStatus(index, 'denied', result.message);
+        onLog(`${component.name}: ${result.message}`, 'error', { source: component.key, operationId });
+        if (result.error) onLog(`Error details: ${result.error}`, 'error', { source: component.key, operationId });
+        setTimeout(() => setCurrentIndex(index + 1), 2000);
       } else {
         updateComponentStatus(index, 'error', result.message || 'Installation failed');
-        onLog(`✗ ${component.name}: ${result.message || 'Installation failed'}`);
+        onLog(`${component.name}: ${result.message || 'Installation failed'}`, 'error', { source: component.key, operationId });
         if (result.error) {
-          onLog(`Error details: ${result.error}`);
+          onLog(`Error details: ${result.error}`, 'error', { source: component.key, operationId });
         }
         setTimeout(() => setCurrentIndex(index + 1), 2000);
       }
     } catch (error) {
+      operationIdRef.current = null;
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
       updateComponentStatus(index, 'error', errorMessage);
-      onLog(`✗ ${component.name}: ${errorMessage}`);
+      onLog(`${component.name}: ${errorMessage}`, 'error', { source: component.key, operationId });
       setTimeout(() => setCurrentIndex(index + 1), 2000);
     }
   };
 
+  const handleCancel = async () => {
+    if (!window.electronAPI || !operationIdRef.current) return;
+
+    setIsCancelling(true);
+    onLog('Cancelling installation...');
+    const result = await window.electronAPI.cancelOperation(operationIdRef.current);
+    if (!result.success) {
+      setIsCancelling(false);
+      onLog(result.message, 'error');
+    }
+  };
+
   const getStatusIcon = (status: ComponentStatus['status']) => {
     switch (status) {
       case 'installing':
@@ -152,12 +192,17 @@ export const InstallationStep: React.FC<InstallationStepProps> = ({
         return <AlertCircle size={20} className="text-red-600" />;
       case 'skipped':
         return <CheckCircle size={20} className="text-gray-400" />;
+      case 'cancelled':
+        return <XCircle size={20} className="text-orange-500" />;
+      case 'denied':
+        return <ShieldAlert size={20} className="text-orange-600" />;
       default:
         return <Download size={20} className="text-gray-400" />;
     }
   };
 
   const hasErrors = components.some(c => c.status === 'error');
+  const hasDenials = components.some(c => c.status === 'denied');
 
   return (
     <div className="max-w-2xl mx-auto">
@@ -169,7 +214,7 @@ export const InstallationStep: React.FC<InstallationStepProps> = ({
       </p>
 
       <div className="space-y-3 mb-6">
-        {components.map((component, index) => (
+        {components.map((component) => (
           <div
             key={component.key}
             className={`border rounded-lg p-4 transition-all ${
@@ -179,6 +224,8 @@ export const InstallationStep: React.FC<InstallationStepProps> = ({
                 ? 'bg-red-50 border-red-200'
                 : component.status === 'installing'
                 ? 'bg-blue-50 border-blue-200'
+                : component.status === 'cancelled' || component.status === 'denied'
+                ? 'bg-orange-50 border-orange-200'
                 : 'bg-gray-50 border-gray-200'
             }`}
           >
@@ -190,6 +237,9 @@ export const InstallationStep: React.FC<InstallationStepProps> = ({
                   {component.message && (
                     <p className="text-sm text-gray-600 mt-1">{component.message}</p>
                   )}
+                  {component.status === 'installing' && component.output && (
+                    <p className="text-xs text-gray-500 font-mono mt-1 truncate max-w-md">{component.output}</p>
+                  )}
                 </div>
               </div>
               <div>
@@ -203,6 +253,11 @@ export const InstallationStep: React.FC<InstallationStepProps> = ({
                     Failed
                   </span>
                 )}
+                {component.status === 'denied' && (
+                  <span className="px-3 py-1 bg-orange-100 text-orange-800 text-sm font-medium rounded-full">
+                    Not Authorized
+                  </span>
+                )}
                 {component.status === 'installing' && (
                   <span className="px-3 py-1 bg-blue-100 text-blue-800 text-sm font-medium rounded-full">
                     Installing...
@@ -213,12 +268,38 @@ export const InstallationStep: React.FC<InstallationStepProps> = ({
                     Skipped
                   </span>
                 )}
+                {component.status === 'cancelled' && (
+                  <span className="px-3 py-1 bg-orange-100 text-orange-800 text-sm font-medium rounded-full">
+                    Cancelled
+                  </span>
+                )}
               </div>
             </div>
           </div>
         ))}
       </div>
 
+      {!isComplete && components.some(c => c.status === 'installing') && (
+        <div className="text-center mb-6">
+          <button
+            onClick={handleCancel}
+            disabled={isCancelling}
+            className="bg-gray-500 text-white px-6 py-2 rounded-lg font-semibold hover:bg-gray-600 transition-colors disabled:bg-gray-300 disabled:cursor-not-allowed"
+          >
+            {isCancelling ? 'Cancelling...' : 'Cancel Installation'}
+          </button>
+        </div>
+      )}
+
+      {hasDenials && isComplete && (
+        <div className="bg-orange-50 border border-orange-200 rounded-lg p-4 mb-6">
+          <p className="text-sm text-orange-800">
+            <strong>Administrator privileges were not granted.</strong> Components marked "Not Authorized" were
+            not installed. Go back and retry with your password, or ask an administrator to install them.
+          </p>
+        </div>
+      )}
+
       {hasErrors && isComplete && (
         <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4 mb-6">
           <p className="text-sm text-yellow-800">
@@ -229,7 +310,15 @@ export const InstallationStep: React.FC<InstallationStepProps> = ({
       )}
 
       {isComplete && (
-        <div className="text-center">
+        <div className="flex gap-4 justify-center">
+          {(hasErrors || hasDenials) && components.some(c => c.status === 'success') && (
+            <button
+              onClick={onRollback}
+              className="bg-gray-500 text-white px-6 py-3 rounded-lg font-semibold hover:bg-gray-600 transition-colors"
+            >
+              Roll Back
+            </button>
+          )}
           <button
             onClick={onNext}
             className="bg-blue-600 text-white px-8 py-3 rounded-lg font-semibold hover:bg-blue-700 transition-colors"
@@ -1,16 +1,25 @@
 import React, { useEffect, useState } from 'react';
-import { Monitor, Cpu, HardDrive, Loader } from 'lucide-react';
-import { OSInfo, PackageManagerInfo } from '../../types';
+import { Monitor, Cpu, HardDrive, Loader, ClipboardCheck, CheckCircle, AlertTriangle, XCircle } from 'lucide-react';
+import { LogFn, LogLevel, OSInfo, PackageManagerInfo, PreflightReport, PreflightResult } from '../../types';
 
 interface OSDetectionStepProps {
   onNext: () => void;
   onOSDetected: (osInfo: OSInfo, pmInfo: PackageManagerInfo) => void;
+  onLog: LogFn;
 }
 
-export const OSDetectionStep: React.FC<OSDetectionStepProps> = ({ onNext, onOSDetected }) => {
+const LOG_LEVELS: Record<PreflightResult['status'], LogLevel> = {
+  pass: 'success',
+  warn: 'warning',
+  fail: 'error'
+};
+
+export const OSDetectionStep: React.FC<OSDetectionStepProps> = ({ onNext, onOSDetected, onLog }) => {
   const [osInfo, setOSInfo] = useState<OSInfo | null>(null);
   const [pmInfo, setPMInfo] = useState<PackageManagerInfo | null>(null);
   const [loading, setLoading] = useState(true);
+  const [preflight, setPreflight] = useState<PreflightReport | null>(null);
+  const [checking, setChecking] = useState(false);
 
   useEffect(() => {
     detectSystem();
@@ -30,12 +39,44 @@ export const OSDetectionStep: React.FC<OSDetectionStepProps> = ({ onNext, onOSDe
       setPMInfo(pm);
       onOSDetected(os, pm);
       setLoading(false);
+      runPreflightChecks();
     } catch (error) {
       console.error('Failed to detect system:', error);
       setLoading(false);
     }
   };
 
+  // Only failures of blocking checks keep the Continue button disabled
+  const runPreflightChecks = async () => {
+    if (!window.electronAPI) return;
+
+    setChecking(true);
+    onLog('Running preflight checks...');
+    try {
+      const report = await window.electronAPI.runPreflightChecks();
+      setPreflight(report);
+      report.results.forEach((result) => {
+        const level = LOG_LEVELS[result.status];
+        onLog(`${result.title}: ${result.evidence}`, level, { source: result.id });
+        if (result.remediation && result.status !== 'pass') onLog(result.remediation, level, { source: result.id });
+      });
+    } catch (error) {
+      onLog(`Error during preflight checks: ${error}`, 'error');
+    }
+    setChecking(false);
+  };
+
+  const getStatusIcon = (status: PreflightResult['status']) => {
+    switch (status) {
+      case 'pass':
+        return <CheckCircle size={20} className="text-green-600 flex-shrink-0" />;
+      case 'warn':
+        return <AlertTriangle size={20} className="text-yellow-600 flex-shrink-0" />;
+      default:
+        return <XCircle size={20} className="text-red-600 flex-shrink-0" />;
+    }
+  };
+
   const getPlatformName = (platform: string) => {
     switch (platform) {
       case 'darwin':
@@ -65,6 +106,10 @@ export const OSDetectionStep: React.FC<OSDetectionStepProps> = ({ onNext, onOSDe
         return 'DNF';
       case 'pacman':
         return 'Pacman';
+      case 'zypper':
+        return 'Zypper';
+      case 'apk':
+        return 'APK';
       default:
         return pm;
     }
@@ -96,6 +141,16 @@ export const OSDetectionStep: React.FC<OSDetectionStepProps> = ({ onNext, onOSDe
                 <p className="text-sm text-gray-600">Platform</p>
                 <p className="font-semibold text-gray-900">{getPlatformName(osInfo.platform)}</p>
               </div>
+              {pmInfo.distro && (
+                <div>
+                  <p className="text-sm text-gray-600">Distribution</p>
+                  <p className="font-semibold text-gray-900">{pmInfo.distro.name}</p>
+                  <p className="text-xs text-gray-500">
+                    {pmInfo.distro.id}{pmInfo.distro.version ? ` ${pmInfo.distro.version}` : ''}
+                    {pmInfo.distro.family ? ` • ${pmInfo.distro.family} family` : ' • unrecognized family'}
+                  </p>
+                </div>
+              )}
               <div>
                 <p className="text-sm text-gray-600">Architecture</p>
                 <p className="font-semibold text-gray-900">{osInfo.arch}</p>
@@ -136,21 +191,71 @@ export const OSDetectionStep: React.FC<OSDetectionStepProps> = ({ onNext, onOSDe
             <div>
               <p className="text-sm text-gray-600">Detected Package Manager</p>
               <p className="font-semibold text-gray-900">{getPackageManagerName(pmInfo.packageManager)}</p>
+              {pmInfo.packageManagers.length > 1 && (
+                <p className="text-xs text-gray-500 mt-1">
+                  Also available: {pmInfo.packageManagers
+                    .filter(pm => pm !== pmInfo.packageManager)
+                    .map(getPackageManagerName)
+                    .join(', ')}
+                </p>
+              )}
+            </div>
+          </div>
+
+          <div className="bg-white border border-gray-200 rounded-lg p-6 shadow-sm">
+            <div className="flex items-center gap-3 mb-4">
+              <ClipboardCheck size={24} className="text-orange-600" />
+              <h3 className="text-lg font-semibold text-gray-900">Preflight Checks</h3>
+              {checking && <Loader size={16} className="text-blue-600 animate-spin" />}
             </div>
+            {!preflight && checking && (
+              <p className="text-sm text-gray-600">Checking disk space, virtualization, ports and host settings...</p>
+            )}
+            {preflight && (
+              <div className="space-y-3">
+                {preflight.results.map(result => (
+                  <div key={result.id} className="flex items-start gap-3">
+                    {getStatusIcon(result.status)}
+                    <div className="flex-grow min-w-0">
+                      <div className="flex items-center gap-2">
+                        <p className="font-semibold text-gray-900 text-sm">{result.title}</p>
+                        {result.blocking && (
+                          <span className="px-2 py-0.5 bg-red-100 text-red-800 text-xs font-medium rounded-full">Blocking</span>
+                        )}
+                      </div>
+                      <p className="text-sm text-gray-600 break-words">{result.evidence}</p>
+                      {result.remediation && result.status !== 'pass' && (
+                        <p className="text-sm text-gray-800 mt-1">
+                          <strong>How to fix:</strong> {result.remediation}
+                        </p>
+                      )}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
           </div>
 
-          {osInfo.memory < 4 && (
-            <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4">
-              <p className="text-sm text-yellow-800">
-                <strong>Warning:</strong> Your system has less than 4GB of RAM. Kubernetes may experience performance issues.
+          {preflight && !preflight.passed && (
+            <div className="bg-red-50 border border-red-200 rounded-lg p-4">
+              <p className="text-sm text-red-800">
+                <strong>Can't continue:</strong> fix the blocking problems above, then run the checks again.
               </p>
             </div>
           )}
 
-          <div className="text-center pt-4">
+          <div className="flex gap-4 justify-center pt-4">
+            <button
+              onClick={runPreflightChecks}
+              disabled={checking}
+              className="bg-gray-500 text-white px-6 py-3 rounded-lg font-semibold hover:bg-gray-600 transition-colors disabled:bg-gray-300 disabled:cursor-not-allowed"
+            >
+              Run Checks Again
+            </button>
             <button
               onClick={onNext}
-              className="bg-blue-600 text-white px-8 py-3 rounded-lg font-semibold hover:bg-blue-700 transition-colors"
+              disabled={checking || !preflight?.passed}
+              className="bg-blue-600 text-white px-8 py-3 rounded-lg font-semibold hover:bg-blue-700 transition-colors disabled:bg-gray-300 disabled:cursor-not-allowed"
             >
               Continue
             </button>
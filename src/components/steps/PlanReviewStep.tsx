@@ -0,0 +1,265 @@
+import React, { useEffect, useState } from 'react';
+import { Loader, ShieldAlert, Globe, Clock, Download, AlertCircle, AlertTriangle, XCircle } from 'lucide-react';
+import {
+  ClusterType,
+  ContainerRuntimeId,
+  InstallationPlan,
+  LogFn,
+  OSInfo,
+  PlanOptions,
+  PreflightReport,
+  PrerequisitesCheck
+} from '../../types';
+import { DEFAULT_K3D_OPTIONS, DEFAULT_KIND_CONFIG, defaultMinikubeOptions } from '../../clusterDefaults';
+import { DEFAULT_CONTAINER_RUNTIME } from '../../runtimes';
+
+interface PlanReviewStepProps {
+  onNext: () => void;
+  onLog: LogFn;
+  prerequisites: PrerequisitesCheck;
+  plan: string[];
+  osInfo: OSInfo | null;
+  containerRuntime: ContainerRuntimeId | null;
+  cluster: ClusterType | null;
+  onClusterChosen: (cluster: ClusterType | null) => void;
+}
+
+const CLUSTER_TOOLS: ClusterType[] = ['minikube', 'kind', 'k3d', 'k3s'];
+
+const formatDuration = (seconds: number) => (seconds < 60 ? `${seconds}s` : `~${Math.round(seconds / 60)} min`);
+
+// The cluster is planned with the options Cluster Setup starts from, like the CLI's --cluster
+const planOptions = (
+  cluster: ClusterType | null,
+  osInfo: OSInfo | null,
+  containerRuntime: ContainerRuntimeId | null
+): PlanOptions => (cluster ? {
+  clusterType: cluster,
+  kind: cluster === 'kind' ? DEFAULT_KIND_CONFIG : undefined,
+  minikube: cluster === 'minikube' ? defaultMinikubeOptions(osInfo, containerRuntime || DEFAULT_CONTAINER_RUNTIME) : undefined,
+  k3d: cluster === 'k3d' ? DEFAULT_K3D_OPTIONS : undefined
+} : {});
+
+export const PlanReviewStep: React.FC<PlanReviewStepProps> = ({
+  onNext,
+  onLog,
+  prerequisites,
+  plan,
+  osInfo,
+  containerRuntime,
+  cluster,
+  onClusterChosen
+}) => {
+  const [installationPlan, setInstallationPlan] = useState<InstallationPlan | null>(null);
+  const [exportMessage, setExportMessage] = useState<string>('');
+  const [preflight, setPreflight] = useState<PreflightReport | null>(null);
+  const [checking, setChecking] = useState(false);
+  const clusterChoices = CLUSTER_TOOLS.filter(id => plan.includes(id));
+
+  useEffect(() => {
+    if (!window.electronAPI) return;
+
+    let current = true;
+    const options = planOptions(cluster, osInfo, containerRuntime);
+    window.electronAPI.planInstallation(plan, prerequisites, options).then((result) => {
+      if (current) setInstallationPlan(result);
+    });
+    return () => {
+      current = false;
+    };
+  }, [plan, prerequisites, cluster, osInfo, containerRuntime]);
+
+  // OS Detection ran the checks before the runtime was chosen; runtime checks such as
+  // disk space for its images are run again for it, and blocking failures stop here
+  const runPreflightChecks = async () => {
+    if (!window.electronAPI) return;
+
+    setChecking(true);
+    try {
+      const report = await window.electronAPI.runPreflightChecks(containerRuntime || undefined);
+      setPreflight(report);
+      report.results.filter(result => result.status !== 'pass').forEach((result) => {
+        const level = result.status === 'fail' ? 'error' : 'warning';
+        onLog(`${result.title}: ${result.evidence}`, level, { source: result.id });
+        if (result.remediation) onLog(result.remediation, level, { source: result.id });
+      });
+    } catch (error) {
+      onLog(`Error during preflight checks: ${error}`, 'error');
+    }
+    setChecking(false);
+  };
+
+  useEffect(() => {
+    runPreflightChecks();
+  }, [containerRuntime]);
+
+  const handleExport = async () => {
+    if (!window.electronAPI) return;
+
+    const options = planOptions(cluster, osInfo, containerRuntime);
+    const result = await window.electronAPI.exportPlanScript(plan, prerequisites, options);
+    if (result.skip) return;
+    setExportMessage(result.message);
+    onLog(result.message, result.success ? 'success' : 'error');
+  };
+
+  if (!installationPlan) {
+    return (
+      <div className="flex flex-col items-center justify-center py-12">
+        <Loader size={48} className="text-blue-600 animate-spin mb-4" />
+        <p className="text-lg text-gray-700">Resolving installation commands...</p>
+      </div>
+    );
+  }
+
+  const { steps } = installationPlan;
+  const elevatedCount = steps.filter(step => step.elevated).length;
+  const urls = [...new Set(steps.flatMap(step => step.urls))];
+  const packageManagers = [...new Set(steps.map(step => step.packageManager).filter(Boolean))];
+
+  return (
+    <div className="max-w-3xl mx-auto">
+      <h2 className="text-2xl font-bold text-gray-900 mb-2 text-center">Review Plan</h2>
+      <p className="text-gray-600 mb-6 text-center">
+        These are the exact commands the next step will run. Nothing has been executed yet.
+      </p>
+
+      <div className="grid grid-cols-3 gap-4 mb-6">
+        <div className="border border-gray-200 rounded-lg p-4 text-center">
+          <Clock size={20} className="text-blue-600 mx-auto mb-1" />
+          <div className="font-semibold text-gray-900">{formatDuration(installationPlan.estimatedSeconds)}</div>
+          <div className="text-xs text-gray-500">Estimated time</div>
+        </div>
+        <div className="border border-gray-200 rounded-lg p-4 text-center">
+          <ShieldAlert size={20} className="text-orange-600 mx-auto mb-1" />
+          <div className="font-semibold text-gray-900">{elevatedCount} of {steps.length}</div>
+          <div className="text-xs text-gray-500">Steps need elevation</div>
+        </div>
+        <div className="border border-gray-200 rounded-lg p-4 text-center">
+          <Globe size={20} className="text-green-600 mx-auto mb-1" />
+          <div className="font-semibold text-gray-900">{urls.length}</div>
+          <div className="text-xs text-gray-500">
+            URLs{packageManagers.length > 0 ? ` + ${packageManagers.join(', ')} repositories` : ''}
+          </div>
+        </div>
+      </div>
+
+      {clusterChoices.length > 0 && (
+        <label className="flex items-center justify-center gap-3 text-sm text-gray-700 mb-6">
+          Cluster to create
+          <select
+            value={cluster || ''}
+            onChange={(e) => onClusterChosen((e.target.value || null) as ClusterType | null)}
+            className="border border-gray-300 rounded px-2 py-1 text-sm"
+          >
+            <option value="">None</option>
+            {clusterChoices.map(id => (
+              <option key={id} value={id}>{prerequisites[id].name}</option>
+            ))}
+          </select>
+        </label>
+      )}
+
+      {steps.length === 0 ? (
+        <div className="bg-green-50 border border-green-200 rounded-lg p-4 mb-6 text-sm text-green-800">
+          Everything selected is already installed. No commands will run.
+        </div>
+      ) : (
+        <div className="space-y-4 mb-6">
+          {steps.map((step, index) => (
+            <div key={`${step.id}-${index}`} className="border border-gray-200 rounded-lg p-4">
+              <div className="flex items-center justify-between mb-2">
+                <span className="font-semibold text-gray-900">{index + 1}. {step.title}</span>
+                <div className="flex gap-2">
+                  {step.elevated && (
+                    <span className="px-3 py-1 bg-orange-100 text-orange-800 text-sm font-medium rounded-full">
+                      Elevated
+                    </span>
+                  )}
+                  {step.packageManager && (
+                    <span className="px-3 py-1 bg-gray-100 text-gray-700 text-sm font-medium rounded-full">
+                      {step.packageManager}
+                    </span>
+                  )}
+                  <span className="px-3 py-1 bg-blue-100 text-blue-800 text-sm font-medium rounded-full">
+                    {formatDuration(step.estimatedSeconds)}
+                  </span>
+                </div>
+              </div>
+              {step.command ? (
+                <pre className="bg-gray-900 text-gray-300 rounded-lg p-3 font-mono text-xs overflow-x-auto">
+                  {step.command}
+                </pre>
+              ) : (
+                <p className="flex items-center gap-2 text-sm text-red-600">
+                  <AlertCircle size={16} /> {step.error}
+                </p>
+              )}
+              {step.urls.length > 0 && (
+                <ul className="mt-2 text-xs text-gray-600 space-y-1">
+                  {step.urls.map(url => (
+                    <li key={url} className="font-mono break-all">{url}</li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      <p className="text-sm text-gray-500 mb-6">
+        The cluster is planned with its default options. You can change them on the Cluster Setup screen,
+        which previews the final command before the cluster starts.
+      </p>
+
+      {preflight && preflight.results.some(result => result.status !== 'pass') && (
+        <div className={`${preflight.passed ? 'bg-yellow-50 border-yellow-200' : 'bg-red-50 border-red-200'} border rounded-lg p-4 mb-6 space-y-2`}>
+          {preflight.results.filter(result => result.status !== 'pass').map(result => (
+            <div key={result.id} className="flex items-start gap-2 text-sm">
+              {result.status === 'fail'
+                ? <XCircle size={16} className="text-red-600 flex-shrink-0 mt-0.5" />
+                : <AlertTriangle size={16} className="text-yellow-600 flex-shrink-0 mt-0.5" />}
+              <p className="text-gray-800">
+                <strong>{result.title}:</strong> {result.evidence}
+                {result.remediation && <> {result.remediation}</>}
+              </p>
+            </div>
+          ))}
+          {!preflight.passed && (
+            <p className="text-sm text-red-800">
+              <strong>Can't install:</strong> fix the blocking problems above, then run the checks again.
+            </p>
+          )}
+        </div>
+      )}
+
+      {exportMessage && <p className="text-sm text-gray-700 mb-4 text-center">{exportMessage}</p>}
+
+      <div className="flex gap-4 justify-center">
+        <button
+          onClick={handleExport}
+          disabled={steps.length === 0}
+          className="flex items-center gap-2 bg-gray-500 text-white px-6 py-3 rounded-lg font-semibold hover:bg-gray-600 transition-colors disabled:bg-gray-300 disabled:cursor-not-allowed"
+        >
+          <Download size={18} /> Export as Script
+        </button>
+        {preflight && !preflight.passed && (
+          <button
+            onClick={runPreflightChecks}
+            disabled={checking}
+            className="bg-gray-500 text-white px-6 py-3 rounded-lg font-semibold hover:bg-gray-600 transition-colors disabled:bg-gray-300 disabled:cursor-not-allowed"
+          >
+            Run Checks Again
+          </button>
+        )}
+        <button
+          onClick={onNext}
+          disabled={checking || !preflight?.passed}
+          className="bg-blue-600 text-white px-8 py-3 rounded-lg font-semibold hover:bg-blue-700 transition-colors disabled:bg-gray-300 disabled:cursor-not-allowed"
+        >
+          Start Installation
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -1,6 +1,6 @@
 import React, { useEffect, useState } from 'react';
-import { CheckCircle, XCircle, Loader } from 'lucide-react';
-import { PrerequisitesCheck } from '../../types';
+import { CheckCircle, XCircle, Loader, AlertTriangle, Pin, Package } from 'lucide-react';
+import { OfflineBundleInfo, PrerequisitesCheck, VersionPins } from '../../types';
 
 interface PrerequisitesStepProps {
   onNext: () => void;
@@ -10,6 +10,11 @@ interface PrerequisitesStepProps {
 export const PrerequisitesStep: React.FC<PrerequisitesStepProps> = ({ onNext, onChecked }) => {
   const [checks, setChecks] = useState<PrerequisitesCheck | null>(null);
   const [loading, setLoading] = useState(true);
+  const [pins, setPins] = useState<VersionPins>({});
+  const [showPins, setShowPins] = useState(false);
+  const [pinError, setPinError] = useState<string>('');
+  const [bundle, setBundle] = useState<OfflineBundleInfo | null>(null);
+  const [bundleError, setBundleError] = useState<string>('');
 
   useEffect(() => {
     performChecks();
@@ -19,8 +24,14 @@ export const PrerequisitesStep: React.FC<PrerequisitesStepProps> = ({ onNext, on
     if (!window.electronAPI) return;
 
     try {
-      const results = await window.electronAPI.checkPrerequisites();
+      const [results, savedPins, activeBundle] = await Promise.all([
+        window.electronAPI.checkPrerequisites(),
+        window.electronAPI.loadVersionPins(),
+        window.electronAPI.getOfflineBundle()
+      ]);
       setChecks(results);
+      setPins(savedPins);
+      setBundle(activeBundle);
       onChecked(results);
       setLoading(false);
     } catch (error) {
@@ -29,16 +40,42 @@ export const PrerequisitesStep: React.FC<PrerequisitesStepProps> = ({ onNext, on
     }
   };
 
-  const getComponentName = (key: string) => {
-    const names: { [key: string]: string } = {
-      docker: 'Docker',
-      kubectl: 'kubectl CLI',
-      helm: 'Helm (Optional)',
-      git: 'Git',
-      minikube: 'Minikube',
-      kind: 'Kind'
-    };
-    return names[key] || key;
+  const handleSavePins = async () => {
+    if (!window.electronAPI) return;
+
+    const nonEmpty = Object.fromEntries(Object.entries(pins).filter(([, version]) => version.trim()));
+    const result = await window.electronAPI.saveVersionPins(nonEmpty);
+    if (!result.success) {
+      setPinError(result.message);
+      return;
+    }
+
+    setPinError('');
+    setLoading(true);
+    await performChecks();
+  };
+
+  const handleSelectBundle = async (kind: 'directory' | 'archive') => {
+    if (!window.electronAPI) return;
+
+    const result = await window.electronAPI.selectOfflineBundle(kind);
+    if (result.skip) return;
+    if (!result.success) {
+      setBundleError(result.message);
+      return;
+    }
+
+    setBundleError('');
+    setLoading(true);
+    await performChecks();
+  };
+
+  const handleClearBundle = async () => {
+    if (!window.electronAPI) return;
+
+    await window.electronAPI.clearOfflineBundle();
+    setLoading(true);
+    await performChecks();
   };
 
   if (loading) {
@@ -53,7 +90,11 @@ export const PrerequisitesStep: React.FC<PrerequisitesStepProps> = ({ onNext, on
 
   const installedCount = checks ? Object.values(checks).filter(c => c.installed).length : 0;
   const totalCount = checks ? Object.keys(checks).length : 0;
-  const missingRequired = checks ? ['docker', 'kubectl'].filter(key => !checks[key as keyof PrerequisitesCheck].installed) : [];
+  const missingRequired = checks ? Object.values(checks).filter(c => c.required && !c.installed) : [];
+  const mismatched = checks ? Object.values(checks).filter(c => c.versionMismatch) : [];
+  const pinnable = checks ? Object.entries(checks).filter(([, c]) => c.pinnable) : [];
+  const runtimes = checks ? Object.values(checks).filter(c => c.provides.includes('container-runtime')) : [];
+  const missingRuntime = runtimes.length > 0 && !runtimes.some(c => c.installed);
 
   return (
     <div className="max-w-2xl mx-auto">
@@ -79,14 +120,29 @@ export const PrerequisitesStep: React.FC<PrerequisitesStepProps> = ({ onNext, on
                 <XCircle size={24} className="text-gray-400" />
               )}
               <div>
-                <p className="font-semibold text-gray-900">{getComponentName(key)}</p>
+                <p className="font-semibold text-gray-900">
+                  {result.name}
+                  {!result.required && <span className="ml-2 text-xs font-normal text-gray-500">(Optional)</span>}
+                </p>
                 {result.installed && result.version && (
                   <p className="text-sm text-gray-600">{result.version}</p>
                 )}
+                {!result.installed && result.unsupportedReason && (
+                  <p className="text-sm text-red-600">{result.unsupportedReason}</p>
+                )}
+                {result.pinnedVersion && (
+                  <p className="text-sm text-gray-600 flex items-center gap-1">
+                    <Pin size={12} /> Pinned to {result.pinnedVersion}
+                  </p>
+                )}
               </div>
             </div>
             <div>
-              {result.installed ? (
+              {result.versionMismatch ? (
+                <span className="px-3 py-1 bg-yellow-100 text-yellow-800 text-sm font-medium rounded-full">
+                  Version Mismatch
+                </span>
+              ) : result.installed ? (
                 <span className="px-3 py-1 bg-green-100 text-green-800 text-sm font-medium rounded-full">
                   Installed
                 </span>
@@ -100,11 +156,116 @@ export const PrerequisitesStep: React.FC<PrerequisitesStepProps> = ({ onNext, on
         ))}
       </div>
 
+      <div className="border border-gray-200 rounded-lg mb-6 p-4">
+        <div className="flex items-center justify-between mb-2">
+          <span className="flex items-center gap-2 font-semibold text-gray-900">
+            <Package size={16} /> Offline Bundle
+          </span>
+          <div className="flex gap-2">
+            <button
+              onClick={() => handleSelectBundle('directory')}
+              className="px-3 py-1 border border-gray-300 rounded text-sm text-gray-700 hover:bg-gray-50"
+            >
+              Choose Folder
+            </button>
+            <button
+              onClick={() => handleSelectBundle('archive')}
+              className="px-3 py-1 border border-gray-300 rounded text-sm text-gray-700 hover:bg-gray-50"
+            >
+              Choose Archive
+            </button>
+            {bundle && (
+              <button
+                onClick={handleClearBundle}
+                className="px-3 py-1 border border-gray-300 rounded text-sm text-gray-700 hover:bg-gray-50"
+              >
+                Clear
+              </button>
+            )}
+          </div>
+        </div>
+        {bundle ? (
+          <div className="text-sm text-gray-700 space-y-1">
+            <p className="font-mono text-xs break-all">{bundle.path}</p>
+            <p>
+              {Object.entries(bundle.components).map(([id, version]) => `${id} ${version}`).join(', ') || 'No binaries'}
+            </p>
+            {bundle.kindImage && <p>Kind node image: {bundle.kindImage}</p>}
+            {bundle.minikubeKubernetesVersion && <p>Minikube Kubernetes: {bundle.minikubeKubernetesVersion}</p>}
+            <p className="text-gray-500">Components and clusters are installed from this bundle without network access.</p>
+          </div>
+        ) : (
+          <p className="text-sm text-gray-600">
+            Not using an offline bundle. Components are downloaded from the internet.
+          </p>
+        )}
+        {bundleError && <p className="text-sm text-red-600 mt-2">{bundleError}</p>}
+      </div>
+
+      {pinnable.length > 0 && !bundle && (
+        <div className="border border-gray-200 rounded-lg mb-6">
+          <button
+            onClick={() => setShowPins(!showPins)}
+            className="w-full flex items-center justify-between px-4 py-3 text-left font-semibold text-gray-900 hover:bg-gray-50"
+          >
+            <span className="flex items-center gap-2"><Pin size={16} /> Version Pins</span>
+            <span className="text-sm font-normal text-gray-500">{showPins ? 'Hide' : 'Edit'}</span>
+          </button>
+          {showPins && (
+            <div className="px-4 pb-4 space-y-3">
+              <p className="text-sm text-gray-600">
+                Leave a field empty to install the latest release.
+              </p>
+              {pinnable.map(([key, result]) => (
+                <label key={key} className="flex items-center justify-between gap-4">
+                  <span className="text-sm text-gray-700">{result.name}</span>
+                  <input
+                    type="text"
+                    value={pins[key] || ''}
+                    placeholder="latest"
+                    onChange={(e) => setPins({ ...pins, [key]: e.target.value })}
+                    className="border border-gray-300 rounded px-2 py-1 text-sm w-40"
+                  />
+                </label>
+              ))}
+              {pinError && <p className="text-sm text-red-600">{pinError}</p>}
+              <div className="text-right">
+                <button
+                  onClick={handleSavePins}
+                  className="bg-blue-600 text-white px-4 py-2 rounded-lg text-sm font-semibold hover:bg-blue-700 transition-colors"
+                >
+                  Save and Re-check
+                </button>
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+
+      {mismatched.length > 0 && (
+        <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4 mb-6 flex items-start gap-2">
+          <AlertTriangle size={16} className="text-yellow-700 mt-0.5 flex-shrink-0" />
+          <p className="text-sm text-yellow-800">
+            {mismatched.map(c => `${c.name} ${c.version} (pinned ${c.pinnedVersion})`).join(', ')}{' '}
+            {mismatched.length === 1 ? 'does' : 'do'} not match the pinned version and will be reinstalled.
+          </p>
+        </div>
+      )}
+
+      {missingRuntime && (
+        <div className="bg-blue-50 border border-blue-200 rounded-lg p-4 mb-6">
+          <p className="text-sm text-blue-800">
+            <strong>Note:</strong> No container runtime was found. Kind and Minikube need one; you can choose{' '}
+            {runtimes.map(c => c.name).join(', ')} on the next step.
+          </p>
+        </div>
+      )}
+
       {missingRequired.length > 0 ? (
         <div className="bg-blue-50 border border-blue-200 rounded-lg p-4 mb-6">
           <p className="text-sm text-blue-800">
             <strong>Note:</strong> Some required components are missing. The installer will guide you through
-            installing {missingRequired.map(k => getComponentName(k)).join(' and ')}.
+            installing {missingRequired.map(c => c.name).join(' and ')}.
           </p>
         </div>
       ) : (
@@ -1,13 +1,28 @@
 import React, { useEffect, useState } from 'react';
-import { CheckCircle, XCircle, Loader, PartyPopper, ExternalLink } from 'lucide-react';
-import { VerificationResults } from '../../types';
+import { CheckCircle, XCircle, AlertTriangle, MinusCircle, Loader, PartyPopper, ExternalLink } from 'lucide-react';
+import { LogFn, LogLevel, VerificationReport, VerificationStatus } from '../../types';
 
 interface VerificationStepProps {
-  onLog: (message: string) => void;
+  onLog: LogFn;
+  onManageClusters: () => void;
 }
 
-export const VerificationStep: React.FC<VerificationStepProps> = ({ onLog }) => {
-  const [results, setResults] = useState<VerificationResults | null>(null);
+const STATUS_STYLES: Record<VerificationStatus, string> = {
+  pass: 'bg-green-50 border-green-200',
+  warn: 'bg-yellow-50 border-yellow-200',
+  fail: 'bg-red-50 border-red-200',
+  skip: 'bg-gray-50 border-gray-200'
+};
+
+const LOG_LEVELS: Record<VerificationStatus, LogLevel> = {
+  pass: 'success',
+  warn: 'warning',
+  fail: 'error',
+  skip: 'info'
+};
+
+export const VerificationStep: React.FC<VerificationStepProps> = ({ onLog, onManageClusters }) => {
+  const [report, setReport] = useState<VerificationReport | null>(null);
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
@@ -17,45 +32,47 @@ export const VerificationStep: React.FC<VerificationStepProps> = ({ onLog }) =>
   const verifyInstallation = async () => {
     if (!window.electronAPI) return;
 
+    setLoading(true);
     onLog('Verifying installation...');
 
     try {
       const verification = await window.electronAPI.verifyInstallation();
-      setResults(verification);
+      setReport(verification);
       setLoading(false);
 
-      if (verification.docker) {
-        onLog('✓ Docker is running');
-      } else {
-        onLog('✗ Docker is not running');
-      }
-
-      if (verification.kubectl) {
-        onLog('✓ kubectl is installed and configured');
-      } else {
-        onLog('✗ kubectl is not properly configured');
-      }
-
-      if (verification.cluster) {
-        onLog('✓ Kubernetes cluster is accessible');
-      } else {
-        onLog('✗ Kubernetes cluster is not accessible');
-      }
+      verification.results.forEach((result) => {
+        const level = LOG_LEVELS[result.status];
+        onLog(`${result.title}: ${result.evidence}`, level, { source: result.id });
+        if (result.remediation && result.status !== 'pass') onLog(result.remediation, level, { source: result.id });
+      });
     } catch (error) {
-      onLog(`Error during verification: ${error}`);
+      onLog(`Error during verification: ${error}`, 'error');
       setLoading(false);
     }
   };
 
-  const allPassed = results?.docker && results?.kubectl && results?.cluster;
-  const partialPassed = results && (results.docker || results.kubectl || results.cluster);
+  const getStatusIcon = (status: VerificationStatus) => {
+    switch (status) {
+      case 'pass':
+        return <CheckCircle size={24} className="text-green-600 flex-shrink-0" />;
+      case 'warn':
+        return <AlertTriangle size={24} className="text-yellow-600 flex-shrink-0" />;
+      case 'fail':
+        return <XCircle size={24} className="text-red-600 flex-shrink-0" />;
+      default:
+        return <MinusCircle size={24} className="text-gray-400 flex-shrink-0" />;
+    }
+  };
+
+  const allPassed = report?.passed && report.results.every(result => result.status === 'pass');
+  const partialPassed = report && report.results.some(result => result.status === 'pass');
 
   if (loading) {
     return (
       <div className="text-center py-12">
         <Loader size={48} className="text-blue-600 animate-spin mx-auto mb-4" />
         <h2 className="text-2xl font-bold text-gray-900 mb-2">Verifying Installation</h2>
-        <p className="text-gray-600">Running system checks...</p>
+        <p className="text-gray-600">Checking the container runtime, the cluster's nodes and system pods, DNS, and running a test pod...</p>
       </div>
     );
   }
@@ -76,89 +93,37 @@ export const VerificationStep: React.FC<VerificationStepProps> = ({ onLog }) =>
         <div className="text-center mb-8">
           <h2 className="text-2xl font-bold text-gray-900 mb-2">Installation Results</h2>
           <p className="text-gray-600">
-            {partialPassed
-              ? 'Some components were installed successfully, but there were issues with others.'
-              : 'There were issues during installation. Please check the details below.'}
+            {report?.passed
+              ? 'Everything works, but some checks have warnings or were skipped.'
+              : partialPassed
+                ? 'Some checks passed, but others need attention.'
+                : 'There were issues during installation. Please check the details below.'}
           </p>
         </div>
       )}
 
       <div className="space-y-3 mb-8">
-        {results && (
-          <>
-            <div
-              className={`border rounded-lg p-4 ${
-                results.docker
-                  ? 'bg-green-50 border-green-200'
-                  : 'bg-red-50 border-red-200'
-              }`}
-            >
-              <div className="flex items-center justify-between">
-                <div className="flex items-center gap-3">
-                  {results.docker ? (
-                    <CheckCircle size={24} className="text-green-600" />
-                  ) : (
-                    <XCircle size={24} className="text-red-600" />
-                  )}
-                  <div>
-                    <p className="font-semibold text-gray-900">Docker</p>
-                    <p className="text-sm text-gray-600">
-                      {results.docker ? 'Running and accessible' : 'Not running or not installed'}
-                    </p>
-                  </div>
-                </div>
-              </div>
-            </div>
-
-            <div
-              className={`border rounded-lg p-4 ${
-                results.kubectl
-                  ? 'bg-green-50 border-green-200'
-                  : 'bg-red-50 border-red-200'
-              }`}
-            >
-              <div className="flex items-center justify-between">
-                <div className="flex items-center gap-3">
-                  {results.kubectl ? (
-                    <CheckCircle size={24} className="text-green-600" />
-                  ) : (
-                    <XCircle size={24} className="text-red-600" />
+        {report?.results.map((result) => (
+          <div key={result.id} className={`border rounded-lg p-4 ${STATUS_STYLES[result.status]}`}>
+            <div className="flex items-start gap-3">
+              {getStatusIcon(result.status)}
+              <div className="flex-grow min-w-0">
+                <div className="flex items-center justify-between gap-2">
+                  <p className="font-semibold text-gray-900">{result.title}</p>
+                  {result.status !== 'skip' && (
+                    <span className="text-xs text-gray-500">{(result.durationMs / 1000).toFixed(1)}s</span>
                   )}
-                  <div>
-                    <p className="font-semibold text-gray-900">kubectl CLI</p>
-                    <p className="text-sm text-gray-600">
-                      {results.kubectl ? 'Installed and configured' : 'Not installed or not configured'}
-                    </p>
-                  </div>
                 </div>
+                <p className="text-sm text-gray-600 break-words">{result.evidence}</p>
+                {result.remediation && result.status !== 'pass' && (
+                  <p className="text-sm text-gray-800 mt-2">
+                    <strong>How to fix:</strong> {result.remediation}
+                  </p>
+                )}
               </div>
             </div>
-
-            <div
-              className={`border rounded-lg p-4 ${
-                results.cluster
-                  ? 'bg-green-50 border-green-200'
-                  : 'bg-red-50 border-red-200'
-              }`}
-            >
-              <div className="flex items-center justify-between">
-                <div className="flex items-center gap-3">
-                  {results.cluster ? (
-                    <CheckCircle size={24} className="text-green-600" />
-                  ) : (
-                    <XCircle size={24} className="text-red-600" />
-                  )}
-                  <div>
-                    <p className="font-semibold text-gray-900">Kubernetes Cluster</p>
-                    <p className="text-sm text-gray-600">
-                      {results.cluster ? 'Cluster is accessible' : 'Cluster is not accessible'}
-                    </p>
-                  </div>
-                </div>
-              </div>
-            </div>
-          </>
-        )}
+          </div>
+        ))}
       </div>
 
       {allPassed && (
@@ -181,7 +146,7 @@ export const VerificationStep: React.FC<VerificationStepProps> = ({ onLog }) =>
         </div>
       )}
 
-      {!allPassed && partialPassed && (
+      {report && !report.passed && partialPassed && (
         <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4 mb-6">
           <p className="text-sm text-yellow-800">
             <strong>Note:</strong> Some components need attention. Check the installation log for details
@@ -223,7 +188,19 @@ export const VerificationStep: React.FC<VerificationStepProps> = ({ onLog }) =>
         </div>
       </div>
 
-      <div className="text-center mt-8">
+      <div className="flex gap-4 justify-center mt-8">
+        <button
+          onClick={verifyInstallation}
+          className="bg-gray-500 text-white px-6 py-3 rounded-lg font-semibold hover:bg-gray-600 transition-colors"
+        >
+          Run Again
+        </button>
+        <button
+          onClick={onManageClusters}
+          className="bg-gray-500 text-white px-6 py-3 rounded-lg font-semibold hover:bg-gray-600 transition-colors"
+        >
+          Manage Clusters
+        </button>
         <button
           onClick={() => {
             if (window.electronAPI) {
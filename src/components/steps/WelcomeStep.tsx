@@ -3,9 +3,11 @@ import { Rocket, Server, Box } from 'lucide-react';
 
 interface WelcomeStepProps {
   onNext: () => void;
+  onUninstall: () => void;
+  onManageClusters: () => void;
 }
 
-export const WelcomeStep: React.FC<WelcomeStepProps> = ({ onNext }) => {
+export const WelcomeStep: React.FC<WelcomeStepProps> = ({ onNext, onUninstall, onManageClusters }) => {
   return (
     <div className="text-center max-w-2xl mx-auto">
       <div className="mb-8">
@@ -38,7 +40,7 @@ export const WelcomeStep: React.FC<WelcomeStepProps> = ({ onNext }) => {
           </div>
           <h3 className="font-semibold text-gray-900 mb-2">Complete Setup</h3>
           <p className="text-sm text-gray-600">
-            Installs Docker, kubectl, and your choice of Minikube or Kind
+            Installs a container runtime, kubectl, and your choice of Minikube, Kind, k3d or k3s
           </p>
         </div>
 
@@ -53,12 +55,26 @@ export const WelcomeStep: React.FC<WelcomeStepProps> = ({ onNext }) => {
         </div>
       </div>
 
-      <button
-        onClick={onNext}
-        className="bg-blue-600 text-white px-8 py-3 rounded-lg font-semibold hover:bg-blue-700 transition-colors"
-      >
-        Start Installation
-      </button>
+      <div className="flex gap-4 justify-center">
+        <button
+          onClick={onUninstall}
+          className="bg-gray-500 text-white px-6 py-3 rounded-lg font-semibold hover:bg-gray-600 transition-colors"
+        >
+          Uninstall...
+        </button>
+        <button
+          onClick={onManageClusters}
+          className="bg-gray-500 text-white px-6 py-3 rounded-lg font-semibold hover:bg-gray-600 transition-colors"
+        >
+          Manage Clusters...
+        </button>
+        <button
+          onClick={onNext}
+          className="bg-blue-600 text-white px-8 py-3 rounded-lg font-semibold hover:bg-blue-700 transition-colors"
+        >
+          Start Installation
+        </button>
+      </div>
     </div>
   );
 };
@@ -0,0 +1,25 @@
+import { LogContext, LogEntry, LogLevel } from './types';
+
+export const LOG_LEVELS: LogLevel[] = ['debug', 'info', 'success', 'warning', 'error'];
+
+// Seeded from the clock so entries restored from a saved session keep unique IDs
+let nextLogId = Date.now();
+
+export function createLogEntry(message: string, level: LogLevel = 'info', context: LogContext = {}): LogEntry {
+  return {
+    id: nextLogId++,
+    timestamp: Date.now(),
+    level,
+    source: context.source || 'wizard',
+    operationId: context.operationId ?? null,
+    message
+  };
+}
+
+// One line per entry, used for copying, saving and diagnostics exports:
+// "2026-01-01T12:00:00.000Z ERROR [kubectl kubectl-1767268800000] message"
+export function formatLogEntry(entry: LogEntry) {
+  const origin = entry.operationId ? `${entry.source} ${entry.operationId}` : entry.source;
+  const level = entry.stream === 'stderr' ? 'STDERR' : entry.stream === 'stdout' ? 'STDOUT' : entry.level.toUpperCase();
+  return `${new Date(entry.timestamp).toISOString()} ${level} [${origin}] ${entry.message}`;
+}
@@ -0,0 +1,24 @@
+import { ContainerRuntimeId, MinikubeContainerRuntime, MinikubeDriver } from './types';
+
+export interface ContainerRuntimeInfo {
+  id: ContainerRuntimeId;
+  name: string;
+  // minikube driver that runs nodes on it; none (on the host) for nerdctl
+  minikubeDriver: MinikubeDriver;
+  // What runs inside minikube's node; rootless Podman can't run Docker there
+  minikubeContainerRuntime: MinikubeContainerRuntime;
+  // k3d can run nodes on it; Podman only on Linux, through its socket
+  k3d: boolean;
+}
+
+export const DEFAULT_CONTAINER_RUNTIME: ContainerRuntimeId = 'docker';
+
+// Mirrors electron/runtimes.cjs, as far as the wizard needs it
+export const CONTAINER_RUNTIMES: Record<ContainerRuntimeId, ContainerRuntimeInfo> = {
+  docker: { id: 'docker', name: 'Docker', minikubeDriver: 'docker', minikubeContainerRuntime: 'docker', k3d: true },
+  podman: { id: 'podman', name: 'Podman', minikubeDriver: 'podman', minikubeContainerRuntime: 'containerd', k3d: true },
+  nerdctl: { id: 'nerdctl', name: 'nerdctl (containerd)', minikubeDriver: 'none', minikubeContainerRuntime: 'containerd', k3d: false }
+};
+
+export const isContainerRuntimeId = (id: string): id is ContainerRuntimeId =>
+  Object.prototype.hasOwnProperty.call(CONTAINER_RUNTIMES, id);
@@ -0,0 +1,107 @@
+import { ClusterType, LogEntry, OSInfo, WizardSession } from './types';
+import { LOG_LEVELS } from './logs';
+
+const SESSION_KEY = 'wizardSession';
+// Bump whenever WizardSession changes shape; older sessions are discarded
+const SESSION_VERSION = 7;
+// A week-old session describes a machine that has probably changed since
+const SESSION_MAX_AGE = 7 * 24 * 60 * 60 * 1000;
+// Enough context to see what happened before the restart without bloating the store
+const MAX_SESSION_LOGS = 500;
+
+export type SessionLoadResult =
+  | { session: WizardSession; discarded?: undefined }
+  | { session: null; discarded?: string };
+
+const CLUSTER_TYPES: ClusterType[] = ['kind', 'minikube', 'k3d', 'k3s'];
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(item => typeof item === 'string');
+
+const isLogEntryArray = (value: unknown): value is LogEntry[] =>
+  Array.isArray(value) && value.every(entry => (
+    entry !== null &&
+    typeof entry === 'object' &&
+    typeof entry.id === 'number' &&
+    typeof entry.timestamp === 'number' &&
+    LOG_LEVELS.includes(entry.level) &&
+    typeof entry.source === 'string' &&
+    typeof entry.message === 'string'
+  ));
+
+const isObjectOrNull = (value: unknown) => value === null || (typeof value === 'object' && !Array.isArray(value));
+
+// Checks that stored data has the shape this version of the app writes. Anything
+// else (older versions, hand edits, a write cut short by a crash) is unusable.
+function isValidSession(value: unknown, stepCount: number): value is WizardSession {
+  if (!value || typeof value !== 'object') return false;
+  const session = value as Record<string, unknown>;
+
+  return session.version === SESSION_VERSION &&
+    typeof session.savedAt === 'number' &&
+    Number.isInteger(session.currentStep) &&
+    (session.currentStep as number) >= 1 &&
+    (session.currentStep as number) <= stepCount &&
+    isObjectOrNull(session.osInfo) &&
+    isObjectOrNull(session.pmInfo) &&
+    isObjectOrNull(session.prerequisites) &&
+    (session.installPlan === null || isStringArray(session.installPlan)) &&
+    (session.plannedCluster === null || CLUSTER_TYPES.includes(session.plannedCluster as ClusterType)) &&
+    isStringArray(session.completedComponents) &&
+    isLogEntryArray(session.logs);
+}
+
+// Each step needs what the earlier ones produced (OS detection, prerequisite checks,
+// the component plan); resume at the last step whose inputs were saved
+function resumableStep(session: WizardSession) {
+  if (!session.osInfo || !session.pmInfo) return Math.min(session.currentStep, 2);
+  if (!session.prerequisites) return Math.min(session.currentStep, 3);
+  if (!session.installPlan) return Math.min(session.currentStep, 4);
+  return session.currentStep;
+}
+
+export async function loadSession(stepCount: number, currentOS: OSInfo): Promise<SessionLoadResult> {
+  if (!window.electronAPI) return { session: null };
+
+  const stored = await window.electronAPI.loadConfig(SESSION_KEY);
+  if (stored === undefined || stored === null) return { session: null };
+
+  if (!isValidSession(stored, stepCount)) {
+    await clearSession();
+    return { session: null, discarded: 'saved session is unreadable or from an older version' };
+  }
+
+  if (Date.now() - stored.savedAt > SESSION_MAX_AGE) {
+    await clearSession();
+    return { session: null, discarded: 'saved session is more than a week old' };
+  }
+
+  // A profile copied from another machine (or an OS reinstall) would carry checks
+  // that don't describe this system
+  if (stored.osInfo && (stored.osInfo.hostname !== currentOS.hostname || stored.osInfo.platform !== currentOS.platform)) {
+    await clearSession();
+    return { session: null, discarded: 'saved session belongs to a different machine' };
+  }
+
+  const currentStep = resumableStep(stored);
+  // Nothing worth resuming before OS detection has run
+  if (currentStep <= 1) return { session: null };
+
+  return { session: { ...stored, currentStep } };
+}
+
+export async function saveSession(session: Omit<WizardSession, 'version' | 'savedAt'>) {
+  if (!window.electronAPI) return;
+
+  await window.electronAPI.saveConfig(SESSION_KEY, {
+    ...session,
+    version: SESSION_VERSION,
+    savedAt: Date.now(),
+    logs: session.logs.slice(-MAX_SESSION_LOGS)
+  });
+}
+
+export async function clearSession() {
+  if (!window.electronAPI) return;
+  await window.electronAPI.saveConfig(SESSION_KEY, null);
+}
@@ -8,9 +8,25 @@ export interface OSInfo {
   memory: number;
 }
 
+// Parsed from /etc/os-release (electron/distro.cjs)
+export interface LinuxDistro {
+  id: string;
+  // VERSION_ID; rolling releases (Arch, Tumbleweed) have none
+  version: string | null;
+  idLike: string[];
+  // Ubuntu's codename on Ubuntu derivatives
+  codename: string | null;
+  family: 'debian' | 'rhel' | 'suse' | 'arch' | 'alpine' | null;
+  name: string;
+}
+
 export interface PackageManagerInfo {
   packageManager: string;
   platform: string;
+  // Linux only; null elsewhere or without an os-release file
+  distro: LinuxDistro | null;
+  // Linux package managers found on PATH, e.g. ['dnf', 'yum']
+  packageManagers: string[];
 }
 
 export interface CommandResult {
@@ -19,27 +35,314 @@ export interface CommandResult {
   error: string | null;
 }
 
-export interface PrerequisitesCheck {
-  docker: CommandResult;
-  kubectl: CommandResult;
-  helm: CommandResult;
-  git: CommandResult;
-  minikube: CommandResult;
-  kind: CommandResult;
+// One entry per component in the main process manifest (electron/components.cjs)
+export interface ComponentCheck extends CommandResult {
+  name: string;
+  required: boolean;
+  // Capabilities it satisfies, e.g. 'container-runtime'
+  provides: string[];
+  installable: boolean;
+  // Why the component can't be installed on this machine's architecture, if it can't
+  unsupportedReason: string | null;
+  pinnable: boolean;
+  pinnedVersion: string | null;
+  versionMismatch: boolean;
 }
 
+// Component IDs of the runtimes kind and minikube can run nodes on
+export type ContainerRuntimeId = 'docker' | 'podman' | 'nerdctl';
+
+// Component ID -> exact version to install, e.g. { kubectl: '1.29.3' }
+export type VersionPins = Record<string, string>;
+
+export type PrerequisitesCheck = Record<string, ComponentCheck>;
+
 export interface InstallationResult {
   success: boolean;
   skip?: boolean;
+  cancelled?: boolean;
+  // Administrator privileges were needed and not granted (prompt cancelled, wrong
+  // password, or no sudo/pkexec), as opposed to the command itself failing
+  elevationDenied?: boolean;
   message: string;
   output?: string;
   error?: string;
 }
 
-export interface VerificationResults {
-  docker: boolean;
-  kubectl: boolean;
-  cluster: boolean;
+export interface OfflineBundleInfo {
+  path: string;
+  createdAt: string;
+  platform: string;
+  arch: string;
+  // Component ID -> bundled version
+  components: Record<string, string>;
+  kindImage: string | null;
+  minikubeKubernetesVersion: string | null;
+}
+
+export interface OfflineBundleSelection extends InstallationResult {
+  bundle?: OfflineBundleInfo;
+}
+
+export interface InstallPlanEntry {
+  id: string;
+  name: string;
+  // Name of the component that pulled this one in; null when the user selected it
+  neededBy: string | null;
+}
+
+export interface InstallPlanResult extends InstallationResult {
+  plan: InstallPlanEntry[];
+}
+
+export interface PlannedCommand {
+  id: string;
+  title: string;
+  // Shell snippet; null when the step can't run on this machine
+  command: string | null;
+  elevated: boolean;
+  urls: string[];
+  packageManager: string | null;
+  estimatedSeconds: number;
+  error?: string;
+}
+
+export interface InstallationPlan {
+  platform: string;
+  arch: string;
+  packageManager: string;
+  generatedAt: string;
+  steps: PlannedCommand[];
+  estimatedSeconds: number;
+}
+
+export interface OperationOptions {
+  operationId?: string;
+}
+
+export interface InstallOptions extends OperationOptions {
+  version?: string;
+}
+
+export interface KindPortMapping {
+  containerPort: number;
+  hostPort: number;
+  protocol: 'TCP' | 'UDP' | 'SCTP';
+  listenAddress?: string;
+}
+
+export interface KindMount {
+  hostPath: string;
+  containerPath: string;
+  readOnly: boolean;
+}
+
+export interface KindClusterOptions {
+  name: string;
+  workers: number;
+  nodeImage: string;
+  portMappings: KindPortMapping[];
+  mounts: KindMount[];
+}
+
+export interface KindConfigPreview {
+  errors: string[];
+  yaml: string | null;
+}
+
+export type MinikubeDriver = 'docker' | 'podman' | 'kvm2' | 'none';
+
+export type MinikubeContainerRuntime = 'containerd' | 'docker' | 'cri-o';
+
+export interface MinikubeStartOptions {
+  // Profile name; minikube's default profile ("minikube") if empty
+  profile: string;
+  driver: MinikubeDriver;
+  cpus: number;
+  // Megabytes
+  memory: number;
+  kubernetesVersion: string;
+  containerRuntime: MinikubeContainerRuntime;
+  addons: string[];
+}
+
+export interface MinikubeStartPreview {
+  errors: string[];
+  command: string | null;
+}
+
+export interface K3dClusterOptions {
+  // k3d's default ("k3s-default") if empty
+  name: string;
+  // Agent (worker) nodes beside the server
+  agents: number;
+}
+
+export interface K3dCreatePreview {
+  errors: string[];
+  command: string | null;
+}
+
+export interface StartClusterOptions extends OperationOptions {
+  kind?: KindClusterOptions;
+  minikube?: MinikubeStartOptions;
+  k3d?: K3dClusterOptions;
+}
+
+export type ClusterType = 'kind' | 'minikube' | 'k3d' | 'k3s';
+
+// A plan can end with creating a cluster, with the options for its type
+export interface PlanOptions {
+  clusterType?: ClusterType;
+  kind?: KindClusterOptions;
+  minikube?: MinikubeStartOptions;
+  k3d?: K3dClusterOptions;
+}
+
+// A cluster or minikube profile found on this machine (electron/clusters.cjs)
+export interface ClusterInfo {
+  id: string;
+  clusterType: ClusterType;
+  name: string;
+  // kubeconfig context the tool created for the cluster
+  context: string;
+  status: 'running' | 'stopped' | 'degraded' | 'unknown';
+  // The tool's own status text, e.g. minikube's "Paused"
+  statusDetail?: string;
+  nodes?: number;
+  kubernetesVersion?: string;
+  driver?: string;
+  // Its context is kubectl's current context
+  current: boolean;
+  // Created by the installer and recorded in the ledger
+  recorded: boolean;
+}
+
+export interface ClusterList {
+  currentContext: string | null;
+  clusters: ClusterInfo[];
+}
+
+// Something the installer put on this machine (electron/ledger.cjs), with the
+// command that removes it
+export interface LedgerEntry {
+  id: string;
+  kind: 'component' | 'repository' | 'cluster';
+  name: string;
+  recordedAt: string;
+  component?: string;
+  // Repository ID for the package repositories the installer added
+  repository?: string;
+  version?: string | null;
+  // Package manager ID, 'homebrew-cask', 'binary' for files placed directly, or
+  // 'repository'
+  method?: string;
+  packages?: string[];
+  paths?: string[];
+  clusterType?: ClusterType;
+  cluster?: string;
+  // Container runtime a kind or k3d cluster's nodes run on
+  runtime?: ContainerRuntimeId;
+  command?: string;
+  // Why the entry can't be removed automatically
+  error?: string;
+}
+
+export interface CommandOutputEvent {
+  component: string;
+  // Operation the command belongs to, when the renderer started it with one
+  operationId: string | null;
+  stream: 'stdout' | 'stderr';
+  line: string;
+}
+
+// 'debug' is streamed command output
+export type LogLevel = 'debug' | 'info' | 'success' | 'warning' | 'error';
+
+export interface LogEntry {
+  id: number;
+  timestamp: number;
+  level: LogLevel;
+  // 'wizard', or the component, cluster or ledger entry a command ran for
+  source: string;
+  operationId: string | null;
+  message: string;
+  // Set on lines streamed from a command's stdout or stderr
+  stream?: 'stdout' | 'stderr';
+}
+
+export interface LogContext {
+  source?: string;
+  operationId?: string | null;
+}
+
+export type LogFn = (message: string, level?: LogLevel, context?: LogContext) => void;
+
+// The main process asking for the sudo password on behalf of a running operation
+export interface ElevationRequest {
+  requestId: number;
+  // Component ID or cluster type whose command needs root
+  component: string;
+  attempt: number;
+  // Why the previous attempt failed
+  error: string | null;
+}
+
+// Arguments for each operation in the main process command registry
+// (electron/command-registry.cjs); the renderer can't run anything else
+export interface CommandArguments {
+  'docker-info': Record<string, never>;
+  'kubectl-client-version': Record<string, never>;
+  'kubectl-cluster-info': Record<string, never>;
+  'kubectl-current-context': Record<string, never>;
+  'kubectl-get-nodes': Record<string, never>;
+  'kubectl-get-pods': { namespace?: string };
+  'kind-get-clusters': Record<string, never>;
+  'minikube-status': { profile?: string };
+  'helm-list': Record<string, never>;
+}
+
+export type CommandName = keyof CommandArguments;
+
+export type VerificationStatus = 'pass' | 'warn' | 'fail' | 'skip';
+
+// One check from the main process verification suite (electron/verification.cjs)
+export interface VerificationResult {
+  id: string;
+  title: string;
+  status: VerificationStatus;
+  durationMs: number;
+  // What was observed, in one line
+  evidence: string;
+  // What to do about a warning or failure
+  remediation?: string;
+}
+
+export interface VerificationReport {
+  // No check failed; warnings and skips don't count against it
+  passed: boolean;
+  results: VerificationResult[];
+}
+
+// One host check from electron/preflight.cjs, run before anything is installed
+export interface PreflightResult extends VerificationResult {
+  status: Exclude<VerificationStatus, 'skip'>;
+  // Failed, and stops the wizard from continuing
+  blocking: boolean;
+}
+
+export interface PreflightReport {
+  // No blocking check failed
+  passed: boolean;
+  results: PreflightResult[];
+}
+
+// What the wizard knows that the main process doesn't, for a diagnostics export
+export interface DiagnosticsReport {
+  osInfo: OSInfo | null;
+  pmInfo: PackageManagerInfo | null;
+  prerequisites: PrerequisitesCheck | null;
+  logs: string[];
 }
 
 export interface StepConfig {
@@ -48,19 +351,71 @@ export interface StepConfig {
   description: string;
 }
 
+// Wizard state persisted between runs so an interrupted installation can resume
+export interface WizardSession {
+  version: number;
+  savedAt: number;
+  currentStep: number;
+  osInfo: OSInfo | null;
+  pmInfo: PackageManagerInfo | null;
+  prerequisites: PrerequisitesCheck | null;
+  // Ordered component IDs chosen on the selection screen, dependencies included
+  installPlan: string[] | null;
+  // Cluster chosen on the plan review, which the plan and Cluster Setup start from
+  plannedCluster: ClusterType | null;
+  // Components installed successfully, even if detection hasn't caught up yet
+  // (e.g. PATH not refreshed until the next login)
+  completedComponents: string[];
+  logs: LogEntry[];
+}
+
 export interface ElectronAPI {
   detectOS: () => Promise<OSInfo>;
   detectPackageManager: () => Promise<PackageManagerInfo>;
   checkPrerequisites: () => Promise<PrerequisitesCheck>;
-  installHomebrew: () => Promise<InstallationResult>;
+  resolveInstallPlan: (selected: string[], installed: string[]) => Promise<InstallPlanResult>;
+  planInstallation: (componentIds: string[], checks: PrerequisitesCheck, options?: PlanOptions) => Promise<InstallationPlan>;
+  exportPlanScript: (componentIds: string[], checks: PrerequisitesCheck, options?: PlanOptions) => Promise<InstallationResult>;
+  getOfflineBundle: () => Promise<OfflineBundleInfo | null>;
+  selectOfflineBundle: (kind: 'directory' | 'archive') => Promise<OfflineBundleSelection>;
+  clearOfflineBundle: () => Promise<InstallationResult>;
+  loadVersionPins: () => Promise<VersionPins>;
+  saveVersionPins: (pins: VersionPins) => Promise<InstallationResult>;
+  getContainerRuntime: () => Promise<ContainerRuntimeId | null>;
+  setContainerRuntime: (id: ContainerRuntimeId) => Promise<InstallationResult>;
+  installHomebrew: (options?: OperationOptions) => Promise<InstallationResult>;
   updatePackageManager: () => Promise<InstallationResult>;
-  installComponent: (component: string) => Promise<InstallationResult>;
-  startCluster: (clusterType: string) => Promise<InstallationResult>;
-  verifyInstallation: () => Promise<VerificationResults>;
-  executeCommand: (command: string) => Promise<InstallationResult>;
-  showDialog: (options: any) => Promise<any>;
-  saveConfig: (key: string, value: any) => Promise<{ success: boolean }>;
-  loadConfig: (key: string) => Promise<any>;
+  installComponent: (component: string, options?: InstallOptions) => Promise<InstallationResult>;
+  startCluster: (clusterType: string, options?: StartClusterOptions) => Promise<InstallationResult>;
+  previewKindConfig: (kindOptions: KindClusterOptions) => Promise<KindConfigPreview>;
+  previewMinikubeStart: (minikubeOptions: MinikubeStartOptions) => Promise<MinikubeStartPreview>;
+  previewK3dCreate: (k3dOptions: K3dClusterOptions) => Promise<K3dCreatePreview>;
+  listClusters: () => Promise<ClusterList>;
+  stopCluster: (clusterType: ClusterType, name: string, options?: OperationOptions) => Promise<InstallationResult>;
+  startExistingCluster: (clusterType: ClusterType, name: string, options?: OperationOptions) => Promise<InstallationResult>;
+  deleteCluster: (clusterType: ClusterType, name: string, options?: OperationOptions) => Promise<InstallationResult>;
+  useClusterContext: (clusterType: ClusterType, name: string) => Promise<InstallationResult>;
+  getInstallLedger: () => Promise<LedgerEntry[]>;
+  uninstallEntry: (entryId: string, options?: OperationOptions) => Promise<InstallationResult>;
+  cancelOperation: (operationId: string) => Promise<InstallationResult>;
+  onCommandOutput: (callback: (event: CommandOutputEvent) => void) => () => void;
+  onElevationRequest: (callback: (request: ElevationRequest) => void) => () => void;
+  // `password` null cancels the prompt
+  respondToElevation: (requestId: number, password: string | null) => Promise<InstallationResult>;
+  // For `runtimeId` when given, otherwise the stored container runtime
+  runPreflightChecks: (runtimeId?: ContainerRuntimeId) => Promise<PreflightReport>;
+  verifyInstallation: () => Promise<VerificationReport>;
+  // Asks where to save, then writes a redacted .tar.gz
+  exportDiagnostics: (report: DiagnosticsReport) => Promise<InstallationResult>;
+  // Asks where to save, then writes `contents` there
+  saveLog: (contents: string) => Promise<InstallationResult>;
+  runCommand: <K extends CommandName>(name: K, args?: CommandArguments[K]) => Promise<InstallationResult>;
+  // Free-form shell; asks the user to confirm in a native dialog, once per session
+  enableAdvancedShell: () => Promise<InstallationResult>;
+  runShellCommand: (command: string) => Promise<InstallationResult>;
+  showDialog: (options: unknown) => Promise<unknown>;
+  saveConfig: (key: string, value: unknown) => Promise<{ success: boolean; message?: string }>;
+  loadConfig: (key: string) => Promise<unknown>;
   platform: string;
 }
 